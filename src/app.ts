@@ -1,15 +1,19 @@
 import express from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
-import rateLimit from 'express-rate-limit';
 import dotenv from 'dotenv';
 
 import stockRoutes from './routes/stockRoutes';
 import portfolioRoutes from './routes/portfolioRoutes';
 import marketRoutes from './routes/marketRoutes';
+import portfoliosRoutes from './routes/portfoliosRoutes';
+import adminRoutes from './routes/adminRoutes';
+import alertRoutes from './routes/alertRoutes';
+import authRoutes from './routes/authRoutes';
+import { authenticate, identifyApiKey, requireScope } from './middleware/auth';
+import { createApiKeyLookupLimiter, createRateLimiter } from './middleware/rateLimit';
 import { errorHandler, notFoundHandler } from './middleware/errorHandler';
 import Database from './config/database';
-import './services/priceUpdateService'; // Start price update service
 
 // Load environment variables
 dotenv.config();
@@ -19,16 +23,9 @@ const app = express();
 // Security middleware
 app.use(helmet());
 
-// Rate limiting
-const limiter = rateLimit({
-  windowMs: 15 * 60 * 1000, // 15 minutes
-  max: 100, // limit each IP to 100 requests per windowMs
-  message: {
-    success: false,
-    error: 'Too many requests from this IP, please try again later.'
-  }
-});
-app.use('/api', limiter);
+// Rate limiting: invalid API keys are throttled per IP before they are looked up; then each
+// API key is held to its own limit, everything else to 100 requests per IP per 15 minutes
+app.use('/api', createApiKeyLookupLimiter(), identifyApiKey, createRateLimiter(100));
 
 // CORS configuration
 const allowedOrigins = [
@@ -93,9 +90,13 @@ app.get('/health', async (req, res) => {
 });
 
 // API routes
-app.use('/api/stocks', stockRoutes);
-app.use('/api/portfolio', portfolioRoutes);
+app.use('/api/auth', authRoutes);
+app.use('/api/stocks', authenticate, requireScope('read:portfolio', 'write:stocks'), stockRoutes);
+app.use('/api/portfolio', authenticate, requireScope('read:portfolio', 'write:stocks'), portfolioRoutes);
 app.use('/api/market', marketRoutes);
+app.use('/api/portfolios', authenticate, requireScope('read:portfolio', 'write:stocks'), portfoliosRoutes);
+app.use('/api/admin', authenticate, adminRoutes);
+app.use('/api/alerts', authenticate, requireScope('read:portfolio', 'write:stocks'), alertRoutes);
 
 // Root endpoint
 app.get('/', (req, res) => {
@@ -104,9 +105,13 @@ app.get('/', (req, res) => {
     message: 'Portfolio Dashboard API',
     version: '1.0.0',
     endpoints: {
+      auth: '/api/auth',
       stocks: '/api/stocks',
       portfolio: '/api/portfolio',
+      portfolios: '/api/portfolios',
       market: '/api/market',
+      admin: '/api/admin',
+      alerts: '/api/alerts',
       health: '/health'
     }
   });
@@ -0,0 +1,10 @@
+/**
+ * The portfolio that adopted holdings created before multiple portfolios
+ * existed. Stocks created without a portfolio land here.
+ */
+export const DEFAULT_PORTFOLIO_ID = '00000000-0000-0000-0000-000000000001';
+
+/**
+ * Route parameter that selects the consolidated view across all portfolios
+ */
+export const ALL_PORTFOLIOS = 'all';
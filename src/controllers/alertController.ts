@@ -0,0 +1,220 @@
+import { Request, Response } from 'express';
+import { PriceAlertCreateRequest, PriceAlertUpdateRequest } from '../types/stock';
+import { AlertService } from '../services/alertService';
+import { PortfolioService } from '../services/portfolioService';
+import { logger } from '../utils/logger';
+
+export class AlertController {
+  /**
+   * List the user's alerts (?stockId= for one holding, ?active=true|false)
+   */
+  static async getAlerts(req: Request, res: Response): Promise<void> {
+    try {
+      const stockId = req.query.stockId as string | undefined;
+      const active = req.query.active === 'true' ? true : req.query.active === 'false' ? false : undefined;
+
+      const alerts = await AlertService.getAlerts(req.user.id, { stockId, active });
+
+      res.json({
+        success: true,
+        data: alerts,
+        count: alerts.length
+      });
+    } catch (error) {
+      logger.error('Error fetching price alerts:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to fetch price alerts',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Get a single alert
+   */
+  static async getAlert(req: Request, res: Response): Promise<void> {
+    try {
+      const { alertId } = req.params;
+
+      const alert = await AlertService.getAlert(alertId, req.user.id);
+      if (!alert) {
+        res.status(404).json({
+          success: false,
+          message: `Alert with ID ${alertId} not found`
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: alert
+      });
+    } catch (error) {
+      logger.error(`Error fetching price alert ${req.params.alertId}:`, error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to fetch price alert',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Create an alert on a holding in any portfolio the user can see
+   */
+  static async createAlert(req: Request, res: Response): Promise<void> {
+    try {
+      const alertData: PriceAlertCreateRequest = req.body;
+
+      const validationError = AlertService.validateAlert(alertData);
+      if (validationError) {
+        res.status(400).json({
+          success: false,
+          message: validationError
+        });
+        return;
+      }
+
+      const role = await PortfolioService.getStockRole(alertData.stockId, req.user.id);
+      if (!role) {
+        res.status(404).json({
+          success: false,
+          message: `Stock with ID ${alertData.stockId} not found`
+        });
+        return;
+      }
+
+      const alert = await AlertService.createAlert(req.user.id, alertData);
+
+      res.status(201).json({
+        success: true,
+        data: alert,
+        message: 'Alert created successfully'
+      });
+    } catch (error) {
+      logger.error('Error creating price alert:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to create price alert',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Change an alert's rule, cooldown or note; { "active": true } re-arms a triggered one-shot alert
+   */
+  static async updateAlert(req: Request, res: Response): Promise<void> {
+    try {
+      const { alertId } = req.params;
+      const updateData: PriceAlertUpdateRequest = req.body;
+
+      const existing = await AlertService.getAlert(alertId, req.user.id);
+      if (!existing) {
+        res.status(404).json({
+          success: false,
+          message: `Alert with ID ${alertId} not found`
+        });
+        return;
+      }
+
+      // Validate the rule as it will be after the update
+      const validationError = AlertService.validateUpdate({ type: existing.type, threshold: existing.threshold, ...updateData });
+      if (validationError) {
+        res.status(400).json({
+          success: false,
+          message: validationError
+        });
+        return;
+      }
+
+      const alert = await AlertService.updateAlert(alertId, req.user.id, updateData);
+      if (!alert) {
+        res.status(404).json({
+          success: false,
+          message: `Alert with ID ${alertId} not found`
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: alert,
+        message: 'Alert updated successfully'
+      });
+    } catch (error) {
+      logger.error(`Error updating price alert ${req.params.alertId}:`, error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to update price alert',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Delete an alert and its trigger history
+   */
+  static async deleteAlert(req: Request, res: Response): Promise<void> {
+    try {
+      const { alertId } = req.params;
+
+      const deleted = await AlertService.deleteAlert(alertId, req.user.id);
+      if (!deleted) {
+        res.status(404).json({
+          success: false,
+          message: `Alert with ID ${alertId} not found`
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Alert deleted successfully',
+        data: { id: alertId }
+      });
+    } catch (error) {
+      logger.error(`Error deleting price alert ${req.params.alertId}:`, error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to delete price alert',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Trigger history across the user's alerts, or for one alert (?limit=, default 50)
+   */
+  static async getTriggers(req: Request, res: Response): Promise<void> {
+    try {
+      const { alertId } = req.params;
+
+      if (alertId && !(await AlertService.getAlert(alertId, req.user.id))) {
+        res.status(404).json({
+          success: false,
+          message: `Alert with ID ${alertId} not found`
+        });
+        return;
+      }
+
+      const triggers = await AlertService.getTriggers(req.user.id, alertId, AlertService.triggerLimit(req.query.limit as string));
+
+      res.json({
+        success: true,
+        data: triggers,
+        count: triggers.length
+      });
+    } catch (error) {
+      logger.error('Error fetching alert triggers:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to fetch alert triggers',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+}
+
+export default AlertController;
@@ -0,0 +1,121 @@
+import { Request, Response } from 'express';
+import { ApiKeyCreateRequest } from '../types/stock';
+import { ApiKeyService } from '../services/apiKeyService';
+import { logger } from '../utils/logger';
+
+export class ApiKeyController {
+  /**
+   * List the signed-in user's API keys (never the keys themselves)
+   */
+  static async getKeys(req: Request, res: Response): Promise<void> {
+    try {
+      if (!ApiKeyController.requireSession(req, res)) {
+        return;
+      }
+
+      const keys = await ApiKeyService.getKeys(req.user.id);
+
+      res.json({
+        success: true,
+        data: keys,
+        count: keys.length
+      });
+    } catch (error) {
+      logger.error('Error fetching API keys:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to fetch API keys',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Issue an API key. The key is only ever shown in this response.
+   */
+  static async createKey(req: Request, res: Response): Promise<void> {
+    try {
+      if (!ApiKeyController.requireSession(req, res)) {
+        return;
+      }
+
+      const keyData: ApiKeyCreateRequest = req.body;
+
+      const validationError = ApiKeyService.validateKey(keyData);
+      if (validationError) {
+        res.status(400).json({
+          success: false,
+          message: validationError
+        });
+        return;
+      }
+
+      const created = await ApiKeyService.createKey(req.user.id, keyData);
+
+      res.status(201).json({
+        success: true,
+        data: created,
+        message: 'API key created successfully. Store it now; it cannot be shown again.'
+      });
+    } catch (error) {
+      logger.error('Error creating API key:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to create API key',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Revoke an API key
+   */
+  static async revokeKey(req: Request, res: Response): Promise<void> {
+    try {
+      if (!ApiKeyController.requireSession(req, res)) {
+        return;
+      }
+
+      const { keyId } = req.params;
+
+      const revoked = await ApiKeyService.revokeKey(keyId, req.user.id);
+      if (!revoked) {
+        res.status(404).json({
+          success: false,
+          message: `API key ${keyId} not found`
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'API key revoked successfully',
+        data: { id: keyId }
+      });
+    } catch (error) {
+      logger.error(`Error revoking API key ${req.params.keyId}:`, error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to revoke API key',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Keys are managed from a signed-in session, never with another key
+   */
+  private static requireSession(req: Request, res: Response): boolean {
+    if (req.apiKey) {
+      res.status(403).json({
+        success: false,
+        message: 'API keys cannot be managed with an API key'
+      });
+      return false;
+    }
+
+    return true;
+  }
+}
+
+export default ApiKeyController;
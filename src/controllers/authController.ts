@@ -0,0 +1,192 @@
+import { Request, Response } from 'express';
+import { LoginRequest, RegisterRequest } from '../types/stock';
+import { AuthService, AuthenticationError } from '../services/authService';
+import { logger } from '../utils/logger';
+
+export class AuthController {
+  /**
+   * Create an account and return its first token pair
+   */
+  static async register(req: Request, res: Response): Promise<void> {
+    try {
+      const registration: RegisterRequest = req.body;
+
+      const validationError = AuthService.validateRegistration(registration);
+      if (validationError) {
+        res.status(400).json({
+          success: false,
+          message: validationError
+        });
+        return;
+      }
+
+      const session = await AuthService.register(registration);
+      if (!session) {
+        res.status(409).json({
+          success: false,
+          message: 'An account with this email already exists'
+        });
+        return;
+      }
+
+      res.status(201).json({
+        success: true,
+        data: session,
+        message: 'Account created successfully'
+      });
+    } catch (error) {
+      logger.error('Error registering user:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to register user',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Sign in with email and password
+   */
+  static async login(req: Request, res: Response): Promise<void> {
+    try {
+      const { email, password }: LoginRequest = req.body || {};
+
+      if (typeof email !== 'string' || typeof password !== 'string') {
+        res.status(400).json({
+          success: false,
+          message: 'email and password are required'
+        });
+        return;
+      }
+
+      const session = await AuthService.login(email, password);
+      if (!session) {
+        res.status(401).json({
+          success: false,
+          message: 'Invalid email or password'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: session
+      });
+    } catch (error) {
+      logger.error('Error signing in:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to sign in',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Exchange a refresh token for a new token pair
+   */
+  static async refresh(req: Request, res: Response): Promise<void> {
+    try {
+      const { refreshToken } = req.body || {};
+
+      if (typeof refreshToken !== 'string') {
+        res.status(400).json({
+          success: false,
+          message: 'refreshToken is required'
+        });
+        return;
+      }
+
+      const tokens = await AuthService.refresh(refreshToken);
+
+      res.json({
+        success: true,
+        data: tokens
+      });
+    } catch (error) {
+      if (error instanceof AuthenticationError) {
+        res.status(401).json({
+          success: false,
+          message: error.message
+        });
+        return;
+      }
+
+      logger.error('Error refreshing tokens:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to refresh tokens',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Revoke a refresh token
+   */
+  static async logout(req: Request, res: Response): Promise<void> {
+    try {
+      const { refreshToken } = req.body || {};
+
+      if (typeof refreshToken !== 'string') {
+        res.status(400).json({
+          success: false,
+          message: 'refreshToken is required'
+        });
+        return;
+      }
+
+      await AuthService.logout(refreshToken);
+
+      res.json({
+        success: true,
+        message: 'Signed out successfully'
+      });
+    } catch (error) {
+      if (error instanceof AuthenticationError) {
+        res.status(401).json({
+          success: false,
+          message: error.message
+        });
+        return;
+      }
+
+      logger.error('Error signing out:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to sign out',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Get the signed-in user
+   */
+  static async getCurrentUser(req: Request, res: Response): Promise<void> {
+    try {
+      const user = await AuthService.getUserById(req.user.id);
+      if (!user) {
+        res.status(404).json({
+          success: false,
+          message: 'Account not found'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: user
+      });
+    } catch (error) {
+      logger.error(`Error fetching user ${req.user.id}:`, error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to fetch user',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+}
+
+export default AuthController;
@@ -0,0 +1,169 @@
+import { Request, Response } from 'express';
+import { CorporateActionRequest } from '../types/stock';
+import { CorporateActionService } from '../services/corporateActionService';
+import { PortfolioService } from '../services/portfolioService';
+import { MembershipService } from '../services/membershipService';
+import { logger } from '../utils/logger';
+
+export class CorporateActionController {
+  /**
+   * List applied corporate actions on the user's stocks (optional ?stockId=)
+   */
+  static async getActions(req: Request, res: Response): Promise<void> {
+    try {
+      const { stockId } = req.query;
+      const portfolioIds = await PortfolioService.resolveScope(req.user.id);
+      const actions = await CorporateActionService.getActions(stockId as string, portfolioIds);
+
+      res.json({
+        success: true,
+        data: actions,
+        count: actions.length
+      });
+    } catch (error) {
+      logger.error('Error fetching corporate actions:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to fetch corporate actions',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Apply a split, bonus, consolidation or symbol change. With ?dryRun=true
+   * the adjustment is previewed and nothing is written.
+   */
+  static async applyAction(req: Request, res: Response): Promise<void> {
+    try {
+      const actionData: CorporateActionRequest = req.body;
+      const dryRun = req.query.dryRun === 'true';
+
+      const validationError = CorporateActionService.validateAction(actionData);
+      if (validationError) {
+        res.status(400).json({
+          success: false,
+          message: validationError
+        });
+        return;
+      }
+
+      const role = await PortfolioService.getStockRole(actionData.stockId, req.user.id);
+      const preview = role ? await CorporateActionService.preview(actionData) : null;
+      if (!preview) {
+        res.status(404).json({
+          success: false,
+          message: `Stock with ID ${actionData.stockId} not found`
+        });
+        return;
+      }
+
+      if (!MembershipService.hasRole(role, 'EDITOR')) {
+        res.status(403).json({
+          success: false,
+          message: 'You have read-only access to this portfolio'
+        });
+        return;
+      }
+
+      if (dryRun) {
+        res.json({
+          success: true,
+          data: { dryRun: true, preview }
+        });
+        return;
+      }
+
+      if (preview.conflict) {
+        res.status(409).json({
+          success: false,
+          message: preview.conflict
+        });
+        return;
+      }
+
+      const existing = await CorporateActionService.getActions(actionData.stockId);
+      if (existing.some(action => action.type === actionData.type && action.exDate === actionData.exDate)) {
+        res.status(409).json({
+          success: false,
+          message: `A ${actionData.type} with ex-date ${actionData.exDate} has already been applied to ${preview.stockName}`
+        });
+        return;
+      }
+
+      const result = await CorporateActionService.apply(actionData);
+
+      res.status(201).json({
+        success: true,
+        data: result,
+        message: 'Corporate action applied successfully'
+      });
+    } catch (error) {
+      logger.error('Error applying corporate action:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to apply corporate action',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Revert a corporate action and the ledger adjustment it wrote
+   */
+  static async revertAction(req: Request, res: Response): Promise<void> {
+    try {
+      const { actionId } = req.params;
+
+      const action = await CorporateActionService.getActionById(actionId);
+      const role = action ? await PortfolioService.getStockRole(action.stockId, req.user.id) : null;
+      if (!role) {
+        res.status(404).json({
+          success: false,
+          message: `Corporate action ${actionId} not found`
+        });
+        return;
+      }
+
+      if (!MembershipService.hasRole(role, 'EDITOR')) {
+        res.status(403).json({
+          success: false,
+          message: 'You have read-only access to this portfolio'
+        });
+        return;
+      }
+
+      const reverted = await CorporateActionService.revert(actionId);
+      if (!reverted) {
+        res.status(404).json({
+          success: false,
+          message: `Corporate action ${actionId} not found`
+        });
+        return;
+      }
+
+      if (reverted.shortfall) {
+        res.status(409).json({
+          success: false,
+          message: `Reverting this corporate action would leave the transaction on ${reverted.shortfall.transactionDate} below zero shares`
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Corporate action reverted successfully',
+        data: { id: actionId }
+      });
+    } catch (error) {
+      logger.error(`Error reverting corporate action ${req.params.actionId}:`, error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to revert corporate action',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+}
+
+export default CorporateActionController;
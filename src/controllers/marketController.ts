@@ -1,5 +1,8 @@
 import { Request, Response } from 'express';
 import { marketDataService } from '../services/marketDataService';
+import { marketCalendarService } from '../services/marketCalendarService';
+import { quoteSubscriptionService } from '../services/quoteSubscriptionService';
+import { QuoteSocketController } from './quoteSocketController';
 import { priceUpdateService } from '../services/priceUpdateService';
 import { stockExchangeService } from '../services/stockExchangeService';
 import { logger } from '../utils/logger';
@@ -171,6 +174,61 @@ export class MarketController {
     }
   }
 
+  /**
+   * Get market data for several symbols, with success or failure per symbol
+   */
+  static async getBatchMarketData(req: Request, res: Response): Promise<void> {
+    try {
+      const { symbols, exchange = 'NSE' } = req.body;
+
+      if (!symbols || !Array.isArray(symbols) || symbols.length === 0) {
+        res.status(400).json({
+          success: false,
+          error: 'Symbols array is required and must not be empty'
+        });
+        return;
+      }
+
+      if (symbols.length > 50) {
+        res.status(400).json({
+          success: false,
+          error: 'Maximum 50 symbols allowed per batch request'
+        });
+        return;
+      }
+
+      const batchData = await marketDataService.getBatchMarketData(symbols, exchange);
+
+      const results = Object.entries(batchData).map(([symbol, data]) => ({
+        symbol,
+        success: data !== null,
+        data: data || undefined,
+        error: data === null ? 'Market data not available' : undefined
+      }));
+
+      const successCount = results.filter(r => r.success).length;
+
+      res.json({
+        success: true,
+        data: {
+          results,
+          summary: {
+            total: symbols.length,
+            successful: successCount,
+            failed: symbols.length - successCount,
+            successRate: `${((successCount / symbols.length) * 100).toFixed(1)}%`
+          }
+        }
+      });
+    } catch (error) {
+      logger.error('Error getting batch market data:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch batch market data'
+      });
+    }
+  }
+
   /**
    * Update all stock prices in portfolio
    */
@@ -248,6 +306,8 @@ export class MarketController {
         data: {
           marketDataServices: serviceHealth,
           priceUpdateService: updateStatus,
+          exchanges: marketCalendarService.getStatuses(),
+          quoteSubscriptions: { ...QuoteSocketController.getStats(), ...quoteSubscriptionService.getStats() },
           timestamp: new Date().toISOString()
         }
       });
@@ -260,6 +320,107 @@ export class MarketController {
     }
   }
 
+  /**
+   * Get the price update scheduler's state
+   */
+  static async getSchedulerStatus(req: Request, res: Response): Promise<void> {
+    try {
+      res.json({
+        success: true,
+        data: priceUpdateService.getStatus()
+      });
+    } catch (error) {
+      logger.error('Error getting price scheduler status:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get price scheduler status'
+      });
+    }
+  }
+
+  /**
+   * Pause scheduled price updates
+   */
+  static async pauseScheduler(req: Request, res: Response): Promise<void> {
+    try {
+      logger.info(`Price scheduler paused by user ${req.user.id}`);
+      priceUpdateService.pause();
+
+      res.json({
+        success: true,
+        message: 'Scheduled price updates paused',
+        data: priceUpdateService.getStatus()
+      });
+    } catch (error) {
+      logger.error('Error pausing price scheduler:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to pause price scheduler'
+      });
+    }
+  }
+
+  /**
+   * Resume scheduled price updates
+   */
+  static async resumeScheduler(req: Request, res: Response): Promise<void> {
+    try {
+      logger.info(`Price scheduler resumed by user ${req.user.id}`);
+      priceUpdateService.resume();
+
+      res.json({
+        success: true,
+        message: 'Scheduled price updates resumed',
+        data: priceUpdateService.getStatus()
+      });
+    } catch (error) {
+      logger.error('Error resuming price scheduler:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to resume price scheduler'
+      });
+    }
+  }
+
+  /**
+   * Get trading days, sessions and holidays for one exchange or all of them
+   */
+  static async getCalendar(req: Request, res: Response): Promise<void> {
+    try {
+      const { exchange, from, to } = req.query as { exchange?: string; from?: string; to?: string };
+
+      if (exchange && !marketCalendarService.isKnownExchange(exchange)) {
+        res.status(400).json({
+          success: false,
+          error: `exchange must be one of: ${marketCalendarService.listExchanges().join(', ')}`
+        });
+        return;
+      }
+
+      const validationError = marketCalendarService.validateRange(from, to);
+      if (validationError) {
+        res.status(400).json({
+          success: false,
+          error: validationError
+        });
+        return;
+      }
+
+      const exchanges = exchange ? [exchange] : marketCalendarService.listExchanges();
+
+      res.json({
+        success: true,
+        data: exchanges.map(code => marketCalendarService.getCalendar(code, from, to))
+      });
+    } catch (error) {
+      logger.error('Error getting market calendar:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get market calendar'
+      });
+    }
+  }
+
   /**
    * Get stock suggestions from all exchanges
    */
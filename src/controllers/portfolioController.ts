@@ -1,55 +1,373 @@
 import { Request, Response } from 'express';
-import { Stock, Portfolio, SectorSummary, PortfolioMetrics } from '../types/stock';
+import {
+  Stock,
+  Portfolio,
+  PortfolioAccount,
+  PortfolioCreateRequest,
+  PortfolioTotals,
+  PortfolioUpdateRequest,
+  SectorSummary,
+  PortfolioMetrics,
+  MarketData,
+  PortfolioMemberRequest,
+  PortfolioRole
+} from '../types/stock';
 import marketDataService from '../services/marketDataService';
 import { logger } from '../utils/logger';
+import { toCanonicalSymbol } from '../utils/symbols';
 import Database from '../config/database';
+import { ALL_PORTFOLIOS } from '../config/portfolio';
+import { PortfolioService } from '../services/portfolioService';
+import { LotService, LOT_METHODS } from '../services/lotService';
+import { TaxReportService } from '../services/taxReportService';
+import { SnapshotService, HISTORY_INTERVALS } from '../services/snapshotService';
+import { PerformanceService, PERFORMANCE_PERIODS } from '../services/performanceService';
+import { DividendService } from '../services/dividendService';
+import { MembershipService } from '../services/membershipService';
+import { portfolioStreamService } from '../services/portfolioStreamService';
 
 class PortfolioController {
+  /**
+   * List the signed-in user's portfolios
+   */
+  static async getPortfolios(req: Request, res: Response): Promise<void> {
+    try {
+      const portfolios = await PortfolioService.getPortfolios(req.user.id);
+      
+      res.json({
+        success: true,
+        data: portfolios,
+        count: portfolios.length
+      });
+    } catch (error) {
+      logger.error('Error fetching portfolios:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to fetch portfolios',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Get a single portfolio
+   */
+  static async getPortfolio(req: Request, res: Response): Promise<void> {
+    try {
+      const { portfolioId } = req.params;
+      const portfolio = await PortfolioService.getPortfolioById(portfolioId, req.user.id);
+      
+      if (!portfolio) {
+        res.status(404).json({
+          success: false,
+          message: `Portfolio with ID ${portfolioId} not found`
+        });
+        return;
+      }
+      
+      res.json({
+        success: true,
+        data: portfolio
+      });
+    } catch (error) {
+      logger.error(`Error fetching portfolio ${req.params.portfolioId}:`, error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to fetch portfolio',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Create a portfolio
+   */
+  static async createPortfolio(req: Request, res: Response): Promise<void> {
+    try {
+      const portfolioData: PortfolioCreateRequest = req.body;
+      
+      const validationError = PortfolioService.validatePortfolio(portfolioData);
+      if (validationError) {
+        res.status(400).json({
+          success: false,
+          message: validationError
+        });
+        return;
+      }
+      
+      const portfolio = await PortfolioService.createPortfolio(req.user.id, portfolioData);
+      if (!portfolio) {
+        res.status(409).json({
+          success: false,
+          message: `A portfolio named ${portfolioData.name.trim()} already exists`
+        });
+        return;
+      }
+      
+      res.status(201).json({
+        success: true,
+        data: portfolio,
+        message: 'Portfolio created successfully'
+      });
+    } catch (error) {
+      logger.error('Error creating portfolio:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to create portfolio',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Rename a portfolio or change its description (owners only). The lot
+   * method is changed through the portfolio's settings.
+   */
+  static async updatePortfolio(req: Request, res: Response): Promise<void> {
+    try {
+      const { portfolioId } = req.params;
+      const portfolioData: PortfolioUpdateRequest = req.body;
+      
+      const validationError = PortfolioService.validatePortfolio(portfolioData, true);
+      if (validationError) {
+        res.status(400).json({
+          success: false,
+          message: validationError
+        });
+        return;
+      }
+      
+      if (!(await PortfolioController.authorizePortfolio(req, res, portfolioId, 'OWNER'))) {
+        return;
+      }
+      
+      if (portfolioData.name !== undefined) {
+        const portfolios = await PortfolioService.getPortfolios(req.user.id);
+        const name = portfolioData.name.trim();
+        if (portfolios.some(portfolio => portfolio.role === 'OWNER' && portfolio.name === name && portfolio.id !== portfolioId)) {
+          res.status(409).json({
+            success: false,
+            message: `A portfolio named ${name} already exists`
+          });
+          return;
+        }
+      }
+      
+      const portfolio = await PortfolioService.updatePortfolio(portfolioId, req.user.id, portfolioData);
+      
+      res.json({
+        success: true,
+        data: portfolio,
+        message: 'Portfolio updated successfully'
+      });
+    } catch (error) {
+      logger.error(`Error updating portfolio ${req.params.portfolioId}:`, error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to update portfolio',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Delete a portfolio and everything it holds (owners only). The user's
+   * default (oldest) portfolio is kept.
+   */
+  static async deletePortfolio(req: Request, res: Response): Promise<void> {
+    try {
+      const { portfolioId } = req.params;
+      
+      if (!(await PortfolioController.authorizePortfolio(req, res, portfolioId, 'OWNER'))) {
+        return;
+      }
+      
+      if (portfolioId === await PortfolioService.getDefaultPortfolioId(req.user.id)) {
+        res.status(409).json({
+          success: false,
+          message: 'The default portfolio cannot be deleted'
+        });
+        return;
+      }
+      
+      await PortfolioService.deletePortfolio(portfolioId, req.user.id);
+      
+      res.json({
+        success: true,
+        message: 'Portfolio deleted successfully',
+        data: { id: portfolioId }
+      });
+    } catch (error) {
+      logger.error(`Error deleting portfolio ${req.params.portfolioId}:`, error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to delete portfolio',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * List everyone a portfolio is shared with, owner first
+   */
+  static async getMembers(req: Request, res: Response): Promise<void> {
+    try {
+      const { portfolioId } = req.params;
+      
+      if (!(await PortfolioController.authorizePortfolio(req, res, portfolioId, 'VIEWER'))) {
+        return;
+      }
+      
+      const members = await MembershipService.getMembers(portfolioId);
+      
+      res.json({
+        success: true,
+        data: members,
+        count: members.length
+      });
+    } catch (error) {
+      logger.error(`Error fetching members of portfolio ${req.params.portfolioId}:`, error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to fetch portfolio members',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Share a portfolio with another account as EDITOR or VIEWER, or change
+   * an existing member's role (owners only)
+   */
+  static async addMember(req: Request, res: Response): Promise<void> {
+    try {
+      const { portfolioId } = req.params;
+      const memberData: PortfolioMemberRequest = req.body;
+      
+      const validationError = MembershipService.validateMember(memberData);
+      if (validationError) {
+        res.status(400).json({
+          success: false,
+          message: validationError
+        });
+        return;
+      }
+      
+      if (!(await PortfolioController.authorizePortfolio(req, res, portfolioId, 'OWNER'))) {
+        return;
+      }
+      
+      if (memberData.email.trim().toLowerCase() === req.user.email) {
+        res.status(400).json({
+          success: false,
+          message: 'You already own this portfolio'
+        });
+        return;
+      }
+      
+      const member = await MembershipService.addMember(portfolioId, memberData, req.user.id);
+      if (!member) {
+        res.status(404).json({
+          success: false,
+          message: `No account is registered for ${memberData.email.trim()}`
+        });
+        return;
+      }
+      
+      res.status(201).json({
+        success: true,
+        data: member,
+        message: `Portfolio shared with ${member.email} as ${member.role}`
+      });
+    } catch (error) {
+      logger.error(`Error sharing portfolio ${req.params.portfolioId}:`, error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to add portfolio member',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Revoke a member's access. Owners can remove anyone; members can remove themselves.
+   */
+  static async removeMember(req: Request, res: Response): Promise<void> {
+    try {
+      const { portfolioId, userId } = req.params;
+      const required: PortfolioRole = userId === req.user.id ? 'VIEWER' : 'OWNER';
+      
+      if (!(await PortfolioController.authorizePortfolio(req, res, portfolioId, required))) {
+        return;
+      }
+      
+      const removed = await MembershipService.removeMember(portfolioId, userId);
+      if (!removed) {
+        res.status(404).json({
+          success: false,
+          message: `User ${userId} is not a member of this portfolio`
+        });
+        return;
+      }
+      
+      res.json({
+        success: true,
+        message: 'Portfolio access revoked successfully',
+        data: { portfolioId, userId }
+      });
+    } catch (error) {
+      logger.error(`Error removing member ${req.params.userId} from portfolio ${req.params.portfolioId}:`, error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to remove portfolio member',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
   /**
    * Get portfolio summary with live market data
    */
   static async getPortfolioSummary(req: Request, res: Response): Promise<void> {
     try {
-      logger.info('Fetching portfolio summary from database with live market data');
-      
-      // Fetch stocks from database
-      const result = await Database.query(`
-        SELECT id, stock_name as "stockName", purchase_price as "purchasePrice", 
-               quantity, investment, portfolio_percentage as "portfolioPercentage",
-               stock_exchange_code as "stockExchangeCode", current_market_price as "currentMarketPrice",
-               present_value as "presentValue", gain_loss as "gainLoss",
-               pe_ratio as "peRatio", latest_earnings as "latestEarnings", sector,
-               created_at as "createdAt", updated_at as "updatedAt"
-        FROM stocks ORDER BY created_at DESC
-      `);
+      logger.info('Fetching portfolio summary from ledger with live market data');
+      
+      const portfolioIds = await PortfolioController.resolveScope(req, res);
+      if (!portfolioIds) {
+        return;
+      }
       
-      if (result.rows.length === 0) {
+      // Holdings are derived from the transactions ledger
+      const holdings = await PortfolioService.getHoldings(portfolioIds);
+      
+      if (holdings.length === 0) {
         res.json({
           success: true,
           data: {
             totalInvestment: 0,
             totalPresentValue: 0,
             totalGainLoss: 0,
+            dayGain: 0,
+            dayGainPercentage: 0,
             stocks: []
           }
         });
         return;
       }
 
-      // Convert database rows to Stock objects and fetch live market data
+      // Overlay live market data on each ledger-derived holding
       const portfolioStocks: Stock[] = [];
       
-      for (const row of result.rows) {
-        // Extract symbol from stock name (first word or use a symbol mapping)
-        const symbol = PortfolioController.extractStockSymbol(row.stockName);
-        
-        // Fetch live market data from external APIs
-        logger.info(`Fetching live market data for ${row.stockName} (${symbol})`);
-        const marketData = await marketDataService.getMarketData(symbol, row.stockExchangeCode);
+      for (const holding of holdings) {
+        // Fetch live market data from external APIs (holdings without a resolved symbol keep their stored price)
+        logger.info(`Fetching live market data for ${holding.stockName} (${holding.symbol})`);
+        const marketData = holding.symbol
+          ? await marketDataService.getMarketData(holding.symbol, holding.stockExchangeCode)
+          : null;
         
-        let currentMarketPrice = parseFloat(row.currentMarketPrice);
-        let peRatio = row.peRatio ? parseFloat(row.peRatio) : undefined;
-        let latestEarnings = row.latestEarnings ? parseFloat(row.latestEarnings) : undefined;
+        let currentMarketPrice = holding.currentMarketPrice;
+        let peRatio = holding.peRatio || undefined;
+        let latestEarnings = holding.latestEarnings || undefined;
         
         // Use live data if available, otherwise fall back to database values
         if (marketData) {
@@ -62,33 +380,21 @@ class PortfolioController {
             UPDATE stocks 
             SET current_market_price = $1, pe_ratio = $2, latest_earnings = $3, updated_at = NOW()
             WHERE id = $4
-          `, [currentMarketPrice, peRatio, latestEarnings, row.id]);
+          `, [currentMarketPrice, peRatio, latestEarnings, holding.id]);
         }
         
         // Calculate derived values with live data
-        const investment = parseFloat(row.investment);
-        const presentValue = currentMarketPrice * parseInt(row.quantity);
-        const gainLoss = presentValue - investment;
+        const presentValue = currentMarketPrice * holding.quantity;
         
         const stock: Stock = {
-          id: row.id,
-          stockName: row.stockName,
-          symbol: symbol,
-          purchasePrice: parseFloat(row.purchasePrice),
-          quantity: parseInt(row.quantity),
-          investment: investment,
-          portfolioPercentage: parseFloat(row.portfolioPercentage),
-          stockExchangeCode: row.stockExchangeCode,
+          ...holding,
           currentMarketPrice: currentMarketPrice,
           presentValue: presentValue,
-          gainLoss: gainLoss,
+          gainLoss: presentValue - holding.investment,
           peRatio: peRatio || 0,
           latestEarnings: latestEarnings || 0,
-          sector: row.sector,
-          purchaseDate: row.createdAt ? new Date(row.createdAt).toISOString().split('T')[0] : new Date().toISOString().split('T')[0],
           lastUpdated: new Date().toISOString(),
-          createdAt: row.createdAt,
-          updatedAt: row.updatedAt
+          ...PortfolioController.calculateDayGain(currentMarketPrice, holding.quantity, marketData)
         };
         
         portfolioStocks.push(stock);
@@ -99,6 +405,11 @@ class PortfolioController {
       // Calculate portfolio metrics
       const portfolio = PortfolioController.calculatePortfolioMetrics(updatedStocks);
       
+      // The consolidated view also breaks the totals down by portfolio
+      if (!req.params.portfolioId || req.params.portfolioId === ALL_PORTFOLIOS) {
+        portfolio.byPortfolio = PortfolioController.totalsByPortfolio(updatedStocks, await PortfolioService.getPortfolios(req.user.id));
+      }
+      
       res.json({
         success: true,
         data: portfolio
@@ -113,25 +424,50 @@ class PortfolioController {
     }
   }
 
+  /**
+   * Stream live valuation as Server-Sent Events, pushed after each price
+   * update. Resumes after the Last-Event-ID header (or ?lastEventId=).
+   */
+  static async streamPortfolio(req: Request, res: Response): Promise<void> {
+    try {
+      const portfolioIds = await PortfolioController.resolveScope(req, res);
+      if (!portfolioIds) {
+        return;
+      }
+      
+      const lastEventId = req.headers['last-event-id'] || (req.query.lastEventId as string);
+      await portfolioStreamService.subscribe(req, res, req.user.id, portfolioIds, lastEventId);
+    } catch (error) {
+      logger.error('Error opening portfolio stream:', error);
+      if (res.headersSent) {
+        // The stream is already open; the client reconnects and gets a fresh snapshot
+        res.end();
+        return;
+      }
+      res.status(500).json({
+        success: false,
+        message: 'Failed to open portfolio stream',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
   /**
    * Get sector-wise summary
    */
   static async getSectorSummary(req: Request, res: Response): Promise<void> {
     try {
-      logger.info('Fetching sector summary from database');
-      
-      // Fetch stocks from database
-      const result = await Database.query(`
-        SELECT id, stock_name as "stockName", purchase_price as "purchasePrice", 
-               quantity, investment, portfolio_percentage as "portfolioPercentage",
-               stock_exchange_code as "stockExchangeCode", current_market_price as "currentMarketPrice",
-               present_value as "presentValue", gain_loss as "gainLoss",
-               pe_ratio as "peRatio", latest_earnings as "latestEarnings", sector,
-               created_at as "createdAt", updated_at as "updatedAt"
-        FROM stocks ORDER BY sector, created_at DESC
-      `);
+      logger.info('Fetching sector summary from ledger');
+      
+      const portfolioIds = await PortfolioController.resolveScope(req, res);
+      if (!portfolioIds) {
+        return;
+      }
+      
+      // Holdings are derived from the transactions ledger
+      const holdings = await PortfolioService.getHoldings(portfolioIds);
       
-      if (result.rows.length === 0) {
+      if (holdings.length === 0) {
         res.json({
           success: true,
           data: []
@@ -139,22 +475,23 @@ class PortfolioController {
         return;
       }
 
-      // Convert database rows to Stock objects and fetch live market data
+      holdings.sort((a, b) => a.sector.localeCompare(b.sector));
+
+      // Overlay live market data on each ledger-derived holding
       const portfolioStocks: Stock[] = [];
       
-      for (const row of result.rows) {
-        // Extract symbol from stock name
-        const symbol = PortfolioController.extractStockSymbol(row.stockName);
-        
-        // Fetch live market data from external APIs
-        logger.info(`Fetching live market data for ${row.stockName} (${symbol})`);
-        const marketData = await marketDataService.getMarketData(symbol, row.stockExchangeCode);
+      for (const holding of holdings) {
+        // Fetch live market data from external APIs (holdings without a resolved symbol keep their stored price)
+        logger.info(`Fetching live market data for ${holding.stockName} (${holding.symbol})`);
+        const marketData = holding.symbol
+          ? await marketDataService.getMarketData(holding.symbol, holding.stockExchangeCode)
+          : null;
         
-        let currentMarketPrice = parseFloat(row.currentMarketPrice);
-        let peRatio = row.peRatio ? parseFloat(row.peRatio) : undefined;
-        let latestEarnings = row.latestEarnings ? parseFloat(row.latestEarnings) : undefined;
+        let currentMarketPrice = holding.currentMarketPrice;
+        let peRatio = holding.peRatio || undefined;
+        let latestEarnings = holding.latestEarnings || undefined;
         
-        // Use live data if available
+        // Use live data if available, otherwise fall back to database values
         if (marketData) {
           currentMarketPrice = marketData.currentPrice;
           peRatio = marketData.peRatio || peRatio;
@@ -162,29 +499,17 @@ class PortfolioController {
         }
         
         // Calculate derived values with live data
-        const investment = parseFloat(row.investment);
-        const presentValue = currentMarketPrice * parseInt(row.quantity);
-        const gainLoss = presentValue - investment;
+        const presentValue = currentMarketPrice * holding.quantity;
         
         const stock: Stock = {
-          id: row.id,
-          stockName: row.stockName,
-          symbol: symbol,
-          purchasePrice: parseFloat(row.purchasePrice),
-          quantity: parseInt(row.quantity),
-          investment: investment,
-          portfolioPercentage: parseFloat(row.portfolioPercentage),
-          stockExchangeCode: row.stockExchangeCode,
+          ...holding,
           currentMarketPrice: currentMarketPrice,
           presentValue: presentValue,
-          gainLoss: gainLoss,
+          gainLoss: presentValue - holding.investment,
           peRatio: peRatio || 0,
           latestEarnings: latestEarnings || 0,
-          sector: row.sector,
-          purchaseDate: row.createdAt ? new Date(row.createdAt).toISOString().split('T')[0] : new Date().toISOString().split('T')[0],
           lastUpdated: new Date().toISOString(),
-          createdAt: row.createdAt,
-          updatedAt: row.updatedAt
+          ...PortfolioController.calculateDayGain(currentMarketPrice, holding.quantity, marketData)
         };
         
         portfolioStocks.push(stock);
@@ -215,7 +540,8 @@ class PortfolioController {
           totalGainLoss,
           stocks,
           stockCount: stocks.length,
-          gainLossPercentage
+          gainLossPercentage,
+          ...PortfolioService.aggregateDayGain(stocks)
         };
       });
       
@@ -238,20 +564,23 @@ class PortfolioController {
    */
   static async getPortfolioMetrics(req: Request, res: Response): Promise<void> {
     try {
-      logger.info('Fetching portfolio metrics from database');
-      
-      // Fetch stocks from database
-      const result = await Database.query(`
-        SELECT id, stock_name as "stockName", purchase_price as "purchasePrice", 
-               quantity, investment, portfolio_percentage as "portfolioPercentage",
-               stock_exchange_code as "stockExchangeCode", current_market_price as "currentMarketPrice",
-               present_value as "presentValue", gain_loss as "gainLoss",
-               pe_ratio as "peRatio", latest_earnings as "latestEarnings", sector,
-               created_at as "createdAt", updated_at as "updatedAt"
-        FROM stocks ORDER BY created_at DESC
-      `);
+      logger.info('Fetching portfolio metrics from ledger');
+      
+      const portfolioIds = await PortfolioController.resolveScope(req, res);
+      if (!portfolioIds) {
+        return;
+      }
+      
+      // Holdings are derived from the transactions ledger. Matched sells carry the
+      // realized result, so a portfolio that has sold everything still has one
+      const [holdings, realized, dividends] = await Promise.all([
+        PortfolioService.getHoldings(portfolioIds),
+        PortfolioService.getRealizedGains(undefined, undefined, undefined, portfolioIds),
+        DividendService.getDividendReport(portfolioIds)
+      ]);
       
-      if (result.rows.length === 0) {
+      if (holdings.length === 0) {
+        const totalReturn = realized.totals.gainLoss + dividends.totals.receivedIncome;
         res.json({
           success: true,
           data: {
@@ -259,28 +588,32 @@ class PortfolioController {
             totalSectors: 0,
             bestPerformingStock: null,
             worstPerformingStock: null,
-            topSectorByValue: null
+            topSectorByValue: null,
+            totalReturn,
+            totalReturnPercentage: realized.totals.costBasis > 0 ? (totalReturn / realized.totals.costBasis) * 100 : 0,
+            realizedGainLoss: realized.totals.gainLoss,
+            unrealizedGainLoss: 0,
+            dividendIncome: dividends.totals.receivedIncome
           }
         });
         return;
       }
-      
-      // Convert database rows to Stock objects and fetch live market data
+
+      // Overlay live market data on each ledger-derived holding
       const portfolioStocks: Stock[] = [];
       
-      for (const row of result.rows) {
-        // Extract symbol from stock name
-        const symbol = PortfolioController.extractStockSymbol(row.stockName);
+      for (const holding of holdings) {
+        // Fetch FRESH live market data for analytics from external APIs
+        logger.info(`Fetching live analytics data for ${holding.stockName} (${holding.symbol})`);
+        const marketData = holding.symbol
+          ? await marketDataService.getMarketData(holding.symbol, holding.stockExchangeCode)
+          : null;
         
-        // Fetch FRESH live market data from external APIs for analytics
-        logger.info(`Fetching live analytics data for ${row.stockName} (${symbol})`);
-        const marketData = await marketDataService.getMarketData(symbol, row.stockExchangeCode);
+        let currentMarketPrice = holding.currentMarketPrice;
+        let peRatio = holding.peRatio || undefined;
+        let latestEarnings = holding.latestEarnings || undefined;
         
-        let currentMarketPrice = parseFloat(row.currentMarketPrice);
-        let peRatio = row.peRatio ? parseFloat(row.peRatio) : undefined;
-        let latestEarnings = row.latestEarnings ? parseFloat(row.latestEarnings) : undefined;
-        
-        // Use live data if available
+        // Use live data if available, otherwise fall back to database values
         if (marketData) {
           currentMarketPrice = marketData.currentPrice;
           peRatio = marketData.peRatio || peRatio;
@@ -288,29 +621,17 @@ class PortfolioController {
         }
         
         // Calculate derived values with live data
-        const investment = parseFloat(row.investment);
-        const presentValue = currentMarketPrice * parseInt(row.quantity);
-        const gainLoss = presentValue - investment;
+        const presentValue = currentMarketPrice * holding.quantity;
         
         const stock: Stock = {
-          id: row.id,
-          stockName: row.stockName,
-          symbol: symbol,
-          purchasePrice: parseFloat(row.purchasePrice),
-          quantity: parseInt(row.quantity),
-          investment: investment,
-          portfolioPercentage: parseFloat(row.portfolioPercentage),
-          stockExchangeCode: row.stockExchangeCode,
+          ...holding,
           currentMarketPrice: currentMarketPrice,
           presentValue: presentValue,
-          gainLoss: gainLoss,
+          gainLoss: presentValue - holding.investment,
           peRatio: peRatio || 0,
           latestEarnings: latestEarnings || 0,
-          sector: row.sector,
-          purchaseDate: row.createdAt ? new Date(row.createdAt).toISOString().split('T')[0] : new Date().toISOString().split('T')[0],
           lastUpdated: new Date().toISOString(),
-          createdAt: row.createdAt,
-          updatedAt: row.updatedAt
+          ...PortfolioController.calculateDayGain(currentMarketPrice, holding.quantity, marketData)
         };
         
         portfolioStocks.push(stock);
@@ -350,8 +671,17 @@ class PortfolioController {
       // Calculate comprehensive portfolio metrics with LIVE data
       const totalInvestment = portfolioStocks.reduce((sum, stock) => sum + stock.investment, 0);
       const totalPresentValue = portfolioStocks.reduce((sum, stock) => sum + stock.presentValue, 0);
-      const totalReturn = totalPresentValue - totalInvestment;
-      const totalReturnPercentage = totalInvestment > 0 ? (totalReturn / totalInvestment) * 100 : 0;
+      
+      // Open lots carry the unrealized result; matched sells carry the realized one
+      const unrealizedGainLoss = totalPresentValue - totalInvestment;
+      const unrealizedGainLossPercentage = totalInvestment > 0 ? (unrealizedGainLoss / totalInvestment) * 100 : 0;
+      const realizedGainLoss = realized.totals.gainLoss;
+      const dividendIncome = dividends.totals.receivedIncome;
+      const totalCostBasis = totalInvestment + realized.totals.costBasis;
+      const totalReturn = realizedGainLoss + unrealizedGainLoss + dividendIncome;
+      const totalDividendYield = totalPresentValue > 0 ? (dividends.totals.forwardAnnualIncome / totalPresentValue) * 100 : 0;
+      const totalReturnPercentage = totalCostBasis > 0 ? (totalReturn / totalCostBasis) * 100 : 0;
+      const { dayGain, dayGainPercentage } = PortfolioService.aggregateDayGain(portfolioStocks);
       
       // Calculate average P/E with live data
       const validPERatios = portfolioStocks.filter(stock => stock.peRatio > 0).map(stock => stock.peRatio);
@@ -366,8 +696,12 @@ class PortfolioController {
       const metrics = {
         totalReturn,
         totalReturnPercentage,
-        dayGain: totalReturn, // Using total return as day gain
-        dayGainPercentage: totalReturnPercentage,
+        realizedGainLoss,
+        unrealizedGainLoss,
+        unrealizedGainLossPercentage,
+        dividendIncome,
+        dayGain,
+        dayGainPercentage,
         bestPerformer: bestPerformingStock.gainPercentage > 0 ? {
           stock: {
             id: bestPerformingStock.id,
@@ -420,7 +754,7 @@ class PortfolioController {
           concentration: concentration as 'Low' | 'Medium' | 'High'
         },
         averagePE,
-        totalDividendYield: 0 // Can be enhanced with dividend data
+        totalDividendYield
       };
       
       res.json({
@@ -437,16 +771,394 @@ class PortfolioController {
     }
   }
 
+  /**
+   * Get open tax lots across the portfolio
+   */
+  static async getLots(req: Request, res: Response): Promise<void> {
+    try {
+      const { method } = req.query;
+      
+      if (method !== undefined && !LotService.isLotMethod(method)) {
+        res.status(400).json({
+          success: false,
+          message: `Lot method must be one of: ${LOT_METHODS.join(', ')}`
+        });
+        return;
+      }
+      
+      const portfolioIds = await PortfolioController.resolveScope(req, res);
+      if (!portfolioIds) {
+        return;
+      }
+      
+      const report = await PortfolioService.getLots(LotService.isLotMethod(method) ? method : undefined, portfolioIds);
+      
+      res.json({
+        success: true,
+        data: report
+      });
+    } catch (error) {
+      logger.error('Error fetching tax lots:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to fetch tax lots',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Get realized gain/loss report grouped by stock and sector
+   */
+  static async getRealizedGains(req: Request, res: Response): Promise<void> {
+    try {
+      const { from, to } = req.query;
+      
+      const rangeError = PortfolioController.validateDateRange(from, to);
+      if (rangeError) {
+        res.status(400).json({
+          success: false,
+          message: rangeError
+        });
+        return;
+      }
+      
+      const portfolioIds = await PortfolioController.resolveScope(req, res);
+      if (!portfolioIds) {
+        return;
+      }
+      
+      const report = await PortfolioService.getRealizedGains(from as string, to as string, undefined, portfolioIds);
+      
+      res.json({
+        success: true,
+        data: report
+      });
+    } catch (error) {
+      logger.error('Error fetching realized gains:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to fetch realized gains',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Get the portfolio value time series from daily snapshots
+   */
+  static async getPortfolioHistory(req: Request, res: Response): Promise<void> {
+    try {
+      const { from, to, interval = 'day' } = req.query;
+      
+      const rangeError = PortfolioController.validateDateRange(from, to);
+      if (rangeError) {
+        res.status(400).json({
+          success: false,
+          message: rangeError
+        });
+        return;
+      }
+      
+      if (!SnapshotService.isHistoryInterval(interval)) {
+        res.status(400).json({
+          success: false,
+          message: `interval must be one of: ${HISTORY_INTERVALS.join(', ')}`
+        });
+        return;
+      }
+      
+      const portfolioIds = await PortfolioController.resolveScope(req, res);
+      if (!portfolioIds) {
+        return;
+      }
+      
+      const history = await SnapshotService.getHistory(from as string, to as string, interval, portfolioIds);
+      
+      res.json({
+        success: true,
+        data: history
+      });
+    } catch (error) {
+      logger.error('Error fetching portfolio history:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to fetch portfolio history',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Get time-weighted and money-weighted returns at portfolio, sector and stock level
+   */
+  static async getPerformance(req: Request, res: Response): Promise<void> {
+    try {
+      const { period } = req.query;
+      
+      if (period !== undefined && !PerformanceService.isPerformancePeriod(period)) {
+        res.status(400).json({
+          success: false,
+          message: `period must be one of: ${PERFORMANCE_PERIODS.join(', ')}`
+        });
+        return;
+      }
+      
+      const portfolioIds = await PortfolioController.resolveScope(req, res);
+      if (!portfolioIds) {
+        return;
+      }
+      
+      const performance = await PerformanceService.getPerformance(PerformanceService.isPerformancePeriod(period) ? period : undefined, portfolioIds);
+      
+      res.json({
+        success: true,
+        data: performance
+      });
+    } catch (error) {
+      logger.error('Error fetching portfolio performance:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to fetch portfolio performance',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Get dividend income received and pending, with forward yield per holding
+   */
+  static async getDividends(req: Request, res: Response): Promise<void> {
+    try {
+      const portfolioIds = await PortfolioController.resolveScope(req, res);
+      if (!portfolioIds) {
+        return;
+      }
+      
+      const report = await DividendService.getDividendReport(portfolioIds);
+      
+      res.json({
+        success: true,
+        data: report
+      });
+    } catch (error) {
+      logger.error('Error fetching dividend report:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to fetch dividend report',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Get Indian capital gains (STCG/LTCG) schedule per financial year, as JSON or CSV
+   */
+  static async getCapitalGainsTaxReport(req: Request, res: Response): Promise<void> {
+    try {
+      const { financialYear, format } = req.query;
+      
+      if (financialYear !== undefined && !TaxReportService.isFinancialYear(financialYear)) {
+        res.status(400).json({
+          success: false,
+          message: 'financialYear must be in YYYY-YY format (e.g. 2023-24)'
+        });
+        return;
+      }
+      
+      if (format !== undefined && format !== 'json' && format !== 'csv') {
+        res.status(400).json({
+          success: false,
+          message: 'format must be one of: json, csv'
+        });
+        return;
+      }
+      
+      const portfolioIds = await PortfolioService.resolveScope(req.user.id);
+      const report = await TaxReportService.getCapitalGainsReport(financialYear as string, portfolioIds);
+      
+      if (format === 'csv') {
+        const filename = `capital-gains-${financialYear || 'all'}.csv`;
+        res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+        res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+        res.send(TaxReportService.toCsv(report));
+        return;
+      }
+      
+      res.json({
+        success: true,
+        data: report
+      });
+    } catch (error) {
+      logger.error('Error generating capital gains tax report:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to generate capital gains tax report',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Get portfolio settings (of the default portfolio unless :portfolioId is given)
+   */
+  static async getSettings(req: Request, res: Response): Promise<void> {
+    try {
+      const portfolioId = await PortfolioController.resolveSettingsPortfolio(req, res, 'VIEWER');
+      if (!portfolioId) {
+        return;
+      }
+      
+      const lotMethod = await LotService.getLotMethod(portfolioId);
+      
+      res.json({
+        success: true,
+        data: { portfolioId, lotMethod, availableLotMethods: LOT_METHODS }
+      });
+    } catch (error) {
+      logger.error('Error fetching portfolio settings:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to fetch portfolio settings',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Update portfolio settings (lot matching method)
+   */
+  static async updateSettings(req: Request, res: Response): Promise<void> {
+    try {
+      const { lotMethod } = req.body;
+      
+      const portfolioId = await PortfolioController.resolveSettingsPortfolio(req, res, 'EDITOR');
+      if (!portfolioId) {
+        return;
+      }
+      
+      if (!LotService.isLotMethod(lotMethod)) {
+        res.status(400).json({
+          success: false,
+          message: `lotMethod must be one of: ${LOT_METHODS.join(', ')}`
+        });
+        return;
+      }
+      
+      await PortfolioService.setLotMethod(lotMethod, portfolioId);
+      
+      res.json({
+        success: true,
+        data: { portfolioId, lotMethod },
+        message: `Lot method set to ${lotMethod}`
+      });
+    } catch (error) {
+      logger.error('Error updating portfolio settings:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to update portfolio settings',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Resolve the :portfolioId route parameter to portfolio IDs. Routes without
+   * one, and "all", cover every portfolio the user owns. Responds 404 and
+   * returns null for one they do not own.
+   */
+  private static async resolveScope(req: Request, res: Response): Promise<string[] | null> {
+    const portfolioIds = await PortfolioService.resolveScope(req.user.id, req.params.portfolioId);
+    if (!portfolioIds) {
+      res.status(404).json({
+        success: false,
+        message: `Portfolio with ID ${req.params.portfolioId} not found`
+      });
+    }
+    
+    return portfolioIds;
+  }
+  
+  /**
+   * Settings belong to a single portfolio: the user's default one on routes
+   * without :portfolioId. Responds with an error and returns null if it is
+   * not a single portfolio the user holds the required role in.
+   */
+  private static async resolveSettingsPortfolio(req: Request, res: Response, required: PortfolioRole): Promise<string | null> {
+    const portfolioId = req.params.portfolioId || await PortfolioService.getDefaultPortfolioId(req.user.id);
+    
+    if (portfolioId === ALL_PORTFOLIOS) {
+      res.status(400).json({
+        success: false,
+        message: 'Settings apply to a single portfolio'
+      });
+      return null;
+    }
+    
+    const portfolio = await PortfolioController.authorizePortfolio(req, res, portfolioId, required);
+    return portfolio ? portfolio.id : null;
+  }
+  
+  /**
+   * Look up a portfolio the user can see and check they hold at least the
+   * required role in it. Responds 404 or 403 and returns null otherwise.
+   */
+  private static async authorizePortfolio(
+    req: Request,
+    res: Response,
+    portfolioId: string | null,
+    required: PortfolioRole
+  ): Promise<PortfolioAccount | null> {
+    const portfolio = portfolioId ? await PortfolioService.getPortfolioById(portfolioId, req.user.id) : null;
+    if (!portfolio) {
+      res.status(404).json({
+        success: false,
+        message: `Portfolio with ID ${portfolioId} not found`
+      });
+      return null;
+    }
+    
+    if (!MembershipService.hasRole(portfolio.role, required)) {
+      res.status(403).json({
+        success: false,
+        message: required === 'OWNER'
+          ? 'Only the portfolio owner can do this'
+          : 'You have read-only access to this portfolio'
+      });
+      return null;
+    }
+    
+    return portfolio;
+  }
+
+  /**
+   * Validate optional from/to query dates, returning an error message if invalid
+   */
+  private static validateDateRange(from: any, to: any): string | null {
+    for (const [name, value] of [['from', from], ['to', to]]) {
+      if (value !== undefined && (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value) || isNaN(new Date(value).getTime()))) {
+        return `${name} must be a date in YYYY-MM-DD format`;
+      }
+    }
+    
+    if (from && to && from > to) {
+      return 'from must not be after to';
+    }
+    
+    return null;
+  }
+
   /**
    * Update stock prices using market data service
    */
   private static async updateStockPrices(stocks: Stock[]): Promise<Stock[]> {
     try {
-      const symbols = stocks.map(stock => stock.symbol);
-      const marketDataMap = await marketDataService.getBatchMarketData(symbols, 'NSE');
+      const canonicalSymbol = (stock: Stock) => toCanonicalSymbol({ exchange: stock.stockExchangeCode, ticker: stock.symbol });
+      const symbols = stocks.filter(stock => stock.symbol).map(canonicalSymbol);
+      const marketDataMap = await marketDataService.getBatchMarketData(symbols);
       
       return stocks.map(stock => {
-        const marketData = marketDataMap[stock.symbol];
+        const marketData = stock.symbol ? marketDataMap[canonicalSymbol(stock)] : null;
         if (marketData) {
           const updatedStock = {
             ...stock,
@@ -488,10 +1200,51 @@ class PortfolioController {
       totalInvestment,
       totalPresentValue,
       totalGainLoss,
+      ...PortfolioService.aggregateDayGain(stocks),
       stocks: updatedStocks
     };
   }
 
+  /**
+   * Totals per portfolio for the consolidated summary, including portfolios
+   * with no open holdings
+   */
+  private static totalsByPortfolio(stocks: Stock[], portfolios: PortfolioAccount[]): PortfolioTotals[] {
+    return portfolios.map(portfolio => {
+      const holdings = stocks.filter(stock => stock.portfolioId === portfolio.id);
+      const totalInvestment = holdings.reduce((sum, stock) => sum + stock.investment, 0);
+      const totalPresentValue = holdings.reduce((sum, stock) => sum + stock.presentValue, 0);
+      
+      return {
+        portfolioId: portfolio.id,
+        name: portfolio.name,
+        holdingCount: holdings.length,
+        totalInvestment,
+        totalPresentValue,
+        totalGainLoss: totalPresentValue - totalInvestment,
+        ...PortfolioService.aggregateDayGain(holdings)
+      };
+    });
+  }
+
+  /**
+   * Day gain for a holding from the quote's change against the previous close
+   */
+  private static calculateDayGain(
+    currentMarketPrice: number,
+    quantity: number,
+    marketData: MarketData | null
+  ): Pick<Stock, 'previousClose' | 'dayGain' | 'dayGainPercentage'> {
+    const change = marketData?.change ?? 0;
+    const previousClose = currentMarketPrice - change;
+
+    return {
+      previousClose,
+      dayGain: change * quantity,
+      dayGainPercentage: previousClose > 0 ? (change / previousClose) * 100 : 0
+    };
+  }
+
   /**
    * Update all stock prices manually
    */
@@ -499,14 +1252,20 @@ class PortfolioController {
     try {
       logger.info('Manually updating all stock prices in database');
       
-      // Fetch all stocks from database
-      const result = await Database.query(`
-        SELECT id, stock_name as "stockName", stock_exchange_code as "stockExchangeCode", 
-               purchase_price as "purchasePrice", quantity
-        FROM stocks
-      `);
+      // Fetch ledger-derived holdings across the portfolios the user can edit
+      const portfolios = await PortfolioService.getPortfolios(req.user.id);
+      const editable = portfolios.filter(portfolio => MembershipService.hasRole(portfolio.role, 'EDITOR'));
+      if (portfolios.length > 0 && editable.length === 0) {
+        res.status(403).json({
+          success: false,
+          message: 'You have read-only access to these portfolios'
+        });
+        return;
+      }
       
-      if (result.rows.length === 0) {
+      const holdings = await PortfolioService.getHoldings(editable.map(portfolio => portfolio.id));
+      
+      if (holdings.length === 0) {
         res.json({
           success: true,
           message: 'No stocks found to update',
@@ -519,15 +1278,17 @@ class PortfolioController {
       const timestamp = new Date().toISOString();
 
       // Update each stock's price
-      for (const row of result.rows) {
+      for (const holding of holdings) {
         try {
-          // Extract symbol from stock name (first word)
-          const symbol = row.stockName.split(' ')[0].toUpperCase();
-          const marketData = await marketDataService.getMarketData(symbol, row.stockExchangeCode);
+          if (!holding.symbol) {
+            continue;
+          }
+
+          const marketData = await marketDataService.getMarketData(holding.symbol, holding.stockExchangeCode);
           
           if (marketData) {
-            const newPresentValue = marketData.currentPrice * parseInt(row.quantity);
-            const newGainLoss = newPresentValue - (parseFloat(row.purchasePrice) * parseInt(row.quantity));
+            const newPresentValue = marketData.currentPrice * holding.quantity;
+            const newGainLoss = newPresentValue - holding.investment;
             
             await Database.query(`
               UPDATE stocks 
@@ -545,12 +1306,12 @@ class PortfolioController {
               marketData.peRatio || null,
               marketData.latestEarnings || null,
               timestamp,
-              row.id
+              holding.id
             ]);
             updatedCount++;
           }
         } catch (error) {
-          logger.warn(`Failed to update price for ${row.stockName}:`, error);
+          logger.warn(`Failed to update price for ${holding.stockName}:`, error);
         }
       }
 
@@ -562,7 +1323,7 @@ class PortfolioController {
         message: 'Stock prices updated successfully',
         data: {
           updatedCount,
-          totalStocks: result.rows.length,
+          totalStocks: holdings.length,
           timestamp
         }
       });
@@ -576,50 +1337,19 @@ class PortfolioController {
     }
   }
 
-  /**
-   * Extract stock symbol from stock name with proper mapping
-   */
-  private static extractStockSymbol(stockName: string): string {
-    // Define mapping for common stock names to their trading symbols
-    const symbolMapping: Record<string, string> = {
-      'Reliance Industries Ltd': 'RELIANCE.NS',
-      'Tata Consultancy Services Ltd': 'TCS.NS',
-      'HDFC Bank Ltd': 'HDFCBANK.NS',
-      'Infosys Ltd': 'INFY.NS',
-      'ITC Ltd': 'ITC.NS',
-      'State Bank of India': 'SBIN.NS',
-      'Bharti Airtel Ltd': 'BHARTIARTL.NS',
-      'Kotak Mahindra Bank Ltd': 'KOTAKBANK.NS',
-      'Hindustan Unilever Ltd': 'HINDUNILVR.NS',
-      'Larsen & Toubro Ltd': 'LT.NS'
-    };
-    
-    // Check if we have a direct mapping
-    if (symbolMapping[stockName]) {
-      return symbolMapping[stockName];
-    }
-    
-    // Fallback: Extract first word and append .NS for NSE
-    const firstWord = stockName.split(' ')[0].toUpperCase();
-    return `${firstWord}.NS`;
-  }
-
   /**
    * Recalculate portfolio percentages
    */
   private static async recalculatePortfolioPercentages(): Promise<void> {
     try {
-      // Get total investment
-      const totalResult = await Database.query('SELECT SUM(investment) as total FROM stocks');
-      const totalInvestment = parseFloat(totalResult.rows[0]?.total || '0');
-      
-      if (totalInvestment > 0) {
-        await Database.query(`
-          UPDATE stocks 
-          SET portfolio_percentage = (investment / $1) * 100,
-              updated_at = NOW()
-        `, [totalInvestment]);
-      }
+      // Weight each stock against the total investment of its own portfolio
+      await Database.query(`
+        UPDATE stocks s
+        SET portfolio_percentage = (s.investment / t.total) * 100,
+            updated_at = NOW()
+        FROM (SELECT portfolio_id, SUM(investment) as total FROM stocks GROUP BY portfolio_id) t
+        WHERE t.portfolio_id = s.portfolio_id AND t.total > 0
+      `);
     } catch (error) {
       logger.error('Error recalculating portfolio percentages:', error);
     }
@@ -0,0 +1,236 @@
+import { IncomingMessage, Server } from 'http';
+import { Duplex } from 'stream';
+import { quoteSubscriptionService, QuoteListener } from '../services/quoteSubscriptionService';
+import { logger } from '../utils/logger';
+import { parseSymbol, toCanonicalSymbol } from '../utils/symbols';
+import { acceptWebSocket, CLOSE_GOING_AWAY, rejectUpgrade, WebSocketConnection } from '../utils/webSocket';
+
+const SOCKET_PATH = '/api/market/ws';
+const MAX_SYMBOLS_PER_CONNECTION = parseInt(process.env.QUOTE_SOCKET_MAX_SYMBOLS || '50', 10);
+const MAX_CONNECTIONS = parseInt(process.env.QUOTE_SOCKET_MAX_CONNECTIONS || '1000', 10);
+const MAX_CONNECTIONS_PER_IP = parseInt(process.env.QUOTE_SOCKET_MAX_CONNECTIONS_PER_IP || '5', 10);
+const PING_INTERVAL = 30 * 1000; // 30 seconds
+const SYMBOL_PATTERN = /^[A-Z0-9&.:_-]{1,32}$/;
+
+interface QuoteSocketClient {
+  connection: WebSocketConnection;
+  ip: string;
+  symbols: Set<string>;
+  listener: QuoteListener;
+  isAlive: boolean;
+}
+
+/**
+ * Quote subscriptions over a WebSocket at /api/market/ws. Clients send JSON
+ * messages:
+ *
+ *   { "action": "subscribe", "symbols": ["RELIANCE", "NASDAQ:AAPL"], "exchange": "NSE" }
+ *   { "action": "unsubscribe", "symbols": ["RELIANCE"] }
+ *   { "action": "ping" }
+ *
+ * and receive { "type": "quote", "symbol": "NSE:RELIANCE", "data": {...} }
+ * for each subscribed symbol, plus subscribed/unsubscribed acknowledgements
+ * listing every symbol the connection watches, pong, and error messages.
+ *
+ * The socket needs no authentication, so connections are capped per IP
+ * (429) and in total (503) to bound the symbols polled upstream.
+ */
+export class QuoteSocketController {
+  private static clients = new Set<QuoteSocketClient>();
+  private static connectionsByIp = new Map<string, number>();
+  private static pingInterval: NodeJS.Timeout | null = null;
+
+  /**
+   * Accept quote socket upgrades on the HTTP server
+   */
+  static attach(server: Server): void {
+    server.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+      QuoteSocketController.handleUpgrade(req, socket, head);
+    });
+    logger.info(`Quote WebSocket listening on ${SOCKET_PATH}`);
+  }
+
+  /**
+   * Close every quote socket, e.g. on shutdown
+   */
+  static closeAll(): void {
+    QuoteSocketController.clients.forEach(client => client.connection.close(CLOSE_GOING_AWAY, 'Server shutting down'));
+  }
+
+  static getStats(): { connections: number } {
+    return { connections: QuoteSocketController.clients.size };
+  }
+
+  private static handleUpgrade(req: IncomingMessage, socket: Duplex, head: Buffer): void {
+    const path = (req.url || '').split('?')[0];
+    if (path !== SOCKET_PATH) {
+      rejectUpgrade(socket, 404, 'Not Found');
+      return;
+    }
+
+    const ip = req.socket.remoteAddress || 'unknown';
+    const ipConnections = QuoteSocketController.connectionsByIp.get(ip) || 0;
+    if (QuoteSocketController.clients.size >= MAX_CONNECTIONS) {
+      logger.warn(`Quote socket refused: ${MAX_CONNECTIONS} connections open`);
+      rejectUpgrade(socket, 503, 'Service Unavailable');
+      return;
+    }
+    if (ipConnections >= MAX_CONNECTIONS_PER_IP) {
+      logger.warn(`Quote socket refused: ${ip} has ${ipConnections} connections open`);
+      rejectUpgrade(socket, 429, 'Too Many Requests');
+      return;
+    }
+
+    const connection = acceptWebSocket(req, socket, head);
+    if (!connection) {
+      return;
+    }
+
+    const client: QuoteSocketClient = {
+      connection,
+      ip,
+      symbols: new Set(),
+      listener: (symbol, quote) => QuoteSocketController.send(client, { type: 'quote', symbol, data: quote }),
+      isAlive: true
+    };
+
+    QuoteSocketController.clients.add(client);
+    QuoteSocketController.connectionsByIp.set(ip, ipConnections + 1);
+    QuoteSocketController.startPinging();
+    logger.info(`Quote socket opened; ${QuoteSocketController.clients.size} open`);
+
+    connection.on('message', (message: string) => QuoteSocketController.handleMessage(client, message));
+    connection.on('pong', () => {
+      client.isAlive = true;
+    });
+    connection.on('close', () => {
+      quoteSubscriptionService.unsubscribe(Array.from(client.symbols), client.listener);
+      QuoteSocketController.clients.delete(client);
+      QuoteSocketController.releaseIp(client.ip);
+      if (QuoteSocketController.clients.size === 0) {
+        QuoteSocketController.stopPinging();
+      }
+      logger.info(`Quote socket closed; ${QuoteSocketController.clients.size} open`);
+    });
+  }
+
+  private static releaseIp(ip: string): void {
+    const remaining = (QuoteSocketController.connectionsByIp.get(ip) || 1) - 1;
+    if (remaining > 0) {
+      QuoteSocketController.connectionsByIp.set(ip, remaining);
+    } else {
+      QuoteSocketController.connectionsByIp.delete(ip);
+    }
+  }
+
+  private static handleMessage(client: QuoteSocketClient, message: string): void {
+    let request: any;
+    try {
+      request = JSON.parse(message);
+    } catch (error) {
+      QuoteSocketController.sendError(client, 'Messages must be JSON');
+      return;
+    }
+
+    switch (request && request.action) {
+      case 'subscribe':
+        QuoteSocketController.subscribe(client, request);
+        return;
+      case 'unsubscribe':
+        QuoteSocketController.unsubscribe(client, request);
+        return;
+      case 'ping':
+        QuoteSocketController.send(client, { type: 'pong', timestamp: new Date().toISOString() });
+        return;
+      default:
+        QuoteSocketController.sendError(client, 'action must be one of: subscribe, unsubscribe, ping');
+    }
+  }
+
+  private static subscribe(client: QuoteSocketClient, request: any): void {
+    const symbols = QuoteSocketController.parseSymbols(client, request);
+    if (!symbols) {
+      return;
+    }
+
+    const added = symbols.filter(symbol => !client.symbols.has(symbol));
+    if (client.symbols.size + added.length > MAX_SYMBOLS_PER_CONNECTION) {
+      QuoteSocketController.sendError(client, `A connection can subscribe to at most ${MAX_SYMBOLS_PER_CONNECTION} symbols`);
+      return;
+    }
+
+    added.forEach(symbol => client.symbols.add(symbol));
+    QuoteSocketController.send(client, { type: 'subscribed', symbols: Array.from(client.symbols) });
+    // Quotes already known are delivered during subscribe, after the acknowledgement
+    quoteSubscriptionService.subscribe(added, client.listener);
+  }
+
+  private static unsubscribe(client: QuoteSocketClient, request: any): void {
+    const symbols = QuoteSocketController.parseSymbols(client, request);
+    if (!symbols) {
+      return;
+    }
+
+    const removed = symbols.filter(symbol => client.symbols.delete(symbol));
+    quoteSubscriptionService.unsubscribe(removed, client.listener);
+    QuoteSocketController.send(client, { type: 'unsubscribed', symbols: Array.from(client.symbols) });
+  }
+
+  /**
+   * Canonical symbols from a subscribe or unsubscribe message, or null
+   * after reporting why they are invalid
+   */
+  private static parseSymbols(client: QuoteSocketClient, request: any): string[] | null {
+    const { symbols, exchange = 'NSE' } = request;
+
+    if (!Array.isArray(symbols) || symbols.length === 0 || typeof exchange !== 'string') {
+      QuoteSocketController.sendError(client, 'symbols must be a non-empty array');
+      return null;
+    }
+
+    const invalid = symbols.filter(symbol => typeof symbol !== 'string' || !SYMBOL_PATTERN.test(symbol.trim().toUpperCase()));
+    if (invalid.length > 0) {
+      QuoteSocketController.sendError(client, `Invalid symbols: ${invalid.map(symbol => String(symbol)).join(', ')}`);
+      return null;
+    }
+
+    return Array.from(new Set(symbols.map(symbol => toCanonicalSymbol(parseSymbol(symbol, exchange)))));
+  }
+
+  private static send(client: QuoteSocketClient, message: object): void {
+    client.connection.send(JSON.stringify(message));
+  }
+
+  private static sendError(client: QuoteSocketClient, error: string): void {
+    QuoteSocketController.send(client, { type: 'error', error });
+  }
+
+  /**
+   * Ping every client periodically and drop those that missed the last ping
+   */
+  private static startPinging(): void {
+    if (QuoteSocketController.pingInterval) {
+      return;
+    }
+
+    QuoteSocketController.pingInterval = setInterval(() => {
+      QuoteSocketController.clients.forEach(client => {
+        if (!client.isAlive) {
+          client.connection.terminate();
+          return;
+        }
+        client.isAlive = false;
+        client.connection.ping();
+      });
+    }, PING_INTERVAL);
+  }
+
+  private static stopPinging(): void {
+    if (QuoteSocketController.pingInterval) {
+      clearInterval(QuoteSocketController.pingInterval);
+      QuoteSocketController.pingInterval = null;
+    }
+  }
+}
+
+export default QuoteSocketController;
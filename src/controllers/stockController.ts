@@ -1,43 +1,52 @@
 import { Request, Response } from 'express';
 import { v4 as uuidv4 } from 'uuid';
-import { Stock, StockCreateRequest, StockUpdateRequest } from '../types/stock';
+import { Stock, StockCreateRequest, StockUpdateRequest, Transaction, TransactionCreateRequest, DividendCreateRequest } from '../types/stock';
 import marketDataService from '../services/marketDataService';
 import { logger } from '../utils/logger';
 import Database from '../config/database';
 import { StockService } from '../services/stockService';
+import { PortfolioService } from '../services/portfolioService';
+import { TransactionService } from '../services/transactionService';
+import { LotService, LOT_METHODS } from '../services/lotService';
+import { TaxReportService } from '../services/taxReportService';
+import { DividendService } from '../services/dividendService';
+import { MembershipService } from '../services/membershipService';
+import { InstrumentService } from '../services/instrumentService';
 
 class StockController {
   /**
-   * Get all stocks with live market data
+   * Get all stocks with live market data, optionally for one portfolio
+   * (:portfolioId or ?portfolioId=)
    */
   static async getAllStocks(req: Request, res: Response): Promise<void> {
     try {
       logger.info('Fetching all stocks with live market data');
       
-      // Fetch stocks from database
-      const result = await Database.query(`
-        SELECT id, stock_name as "stockName", purchase_price as "purchasePrice", 
-               quantity, investment, portfolio_percentage as "portfolioPercentage",
-               stock_exchange_code as "stockExchangeCode", current_market_price as "currentMarketPrice",
-               present_value as "presentValue", gain_loss as "gainLoss",
-               pe_ratio as "peRatio", latest_earnings as "latestEarnings", sector,
-               created_at as "createdAt", updated_at as "updatedAt"
-        FROM stocks ORDER BY created_at DESC
-      `);
+      const portfolioIds = await PortfolioService.resolveScope(req.user.id, (req.params.portfolioId || req.query.portfolioId) as string);
+      if (!portfolioIds) {
+        res.status(404).json({
+          success: false,
+          message: `Portfolio with ID ${req.params.portfolioId || req.query.portfolioId} not found`
+        });
+        return;
+      }
+      
+      // Fetch stocks with ledger-derived positions
+      const ledgerStocks = await PortfolioService.getAllStocks(portfolioIds);
       
       const stocks: Stock[] = [];
       
       // Fetch live market data for each stock
-      for (const row of result.rows) {
-        const symbol = StockController.extractStockSymbol(row.stockName);
+      for (const ledgerStock of ledgerStocks) {
+        // Get live market data (holdings without a resolved symbol keep their stored price)
+        logger.info(`Fetching live data for ${ledgerStock.stockName} (${ledgerStock.symbol})`);
+        const marketData = ledgerStock.symbol
+          ? await marketDataService.getMarketData(ledgerStock.symbol, ledgerStock.stockExchangeCode)
+          : null;
         
-        // Get live market data
-        logger.info(`Fetching live data for ${row.stockName} (${symbol})`);
-        const marketData = await marketDataService.getMarketData(symbol, row.stockExchangeCode);
-        
-        let currentMarketPrice = parseFloat(row.currentMarketPrice);
-        let peRatio = row.peRatio ? parseFloat(row.peRatio) : undefined;
-        let latestEarnings = row.latestEarnings ? parseFloat(row.latestEarnings) : undefined;
+        let currentMarketPrice = ledgerStock.currentMarketPrice;
+        let peRatio = ledgerStock.peRatio || undefined;
+        let latestEarnings = ledgerStock.latestEarnings || undefined;
         
         // Use live data if available
         if (marketData) {
@@ -47,29 +56,16 @@ class StockController {
         }
         
         // Calculate derived values
-        const investment = parseFloat(row.investment);
-        const presentValue = currentMarketPrice * parseInt(row.quantity);
-        const gainLoss = presentValue - investment;
+        const presentValue = currentMarketPrice * ledgerStock.quantity;
         
         const stock: Stock = {
-          id: row.id,
-          stockName: row.stockName,
-          symbol: symbol,
-          purchasePrice: parseFloat(row.purchasePrice),
-          quantity: parseInt(row.quantity),
-          investment: investment,
-          portfolioPercentage: parseFloat(row.portfolioPercentage),
-          stockExchangeCode: row.stockExchangeCode,
+          ...ledgerStock,
           currentMarketPrice: currentMarketPrice,
           presentValue: presentValue,
-          gainLoss: gainLoss,
+          gainLoss: presentValue - ledgerStock.investment,
           peRatio: peRatio || 0,
           latestEarnings: latestEarnings || 0,
-          sector: row.sector,
-          purchaseDate: row.createdAt ? new Date(row.createdAt).toISOString().split('T')[0] : new Date().toISOString().split('T')[0],
-          lastUpdated: new Date().toISOString(),
-          createdAt: row.createdAt,
-          updatedAt: row.updatedAt
+          lastUpdated: new Date().toISOString()
         };
         
         stocks.push(stock);
@@ -89,34 +85,6 @@ class StockController {
     }
   }
 
-  /**
-   * Extract stock symbol from stock name with proper mapping
-   */
-  private static extractStockSymbol(stockName: string): string {
-    // Define mapping for common stock names to their trading symbols
-    const symbolMapping: Record<string, string> = {
-      'Reliance Industries Ltd': 'RELIANCE.NS',
-      'Tata Consultancy Services Ltd': 'TCS.NS',
-      'HDFC Bank Ltd': 'HDFCBANK.NS',
-      'Infosys Ltd': 'INFY.NS',
-      'ITC Ltd': 'ITC.NS',
-      'State Bank of India': 'SBIN.NS',
-      'Bharti Airtel Ltd': 'BHARTIARTL.NS',
-      'Kotak Mahindra Bank Ltd': 'KOTAKBANK.NS',
-      'Hindustan Unilever Ltd': 'HINDUNILVR.NS',
-      'Larsen & Toubro Ltd': 'LT.NS'
-    };
-    
-    // Check if we have a direct mapping
-    if (symbolMapping[stockName]) {
-      return symbolMapping[stockName];
-    }
-    
-    // Fallback: Extract first word and append .NS for NSE
-    const firstWord = stockName.split(' ')[0].toUpperCase();
-    return `${firstWord}.NS`;
-  }
-
   /**
    * Get stock by ID with live market data
    */
@@ -132,18 +100,10 @@ class StockController {
         return;
       }
 
-      // Fetch stock from database
-      const result = await Database.query(`
-        SELECT id, stock_name as "stockName", purchase_price as "purchasePrice", 
-               quantity, investment, portfolio_percentage as "portfolioPercentage",
-               stock_exchange_code as "stockExchangeCode", current_market_price as "currentMarketPrice",
-               present_value as "presentValue", gain_loss as "gainLoss",
-               pe_ratio as "peRatio", latest_earnings as "latestEarnings", sector,
-               created_at as "createdAt", updated_at as "updatedAt"
-        FROM stocks WHERE id = $1
-      `, [id]);
+      // Fetch stock with its ledger-derived position
+      const ledgerStock = await PortfolioService.getStockById(id);
       
-      if (result.rows.length === 0) {
+      if (!ledgerStock) {
         res.status(404).json({
           success: false,
           message: `Stock with ID ${id} not found`
@@ -151,15 +111,14 @@ class StockController {
         return;
       }
 
-      const row = result.rows[0];
-      const symbol = StockController.extractStockSymbol(row.stockName);
-
       // Update with live market data
-      const marketData = await marketDataService.getMarketData(symbol, row.stockExchangeCode);
+      const marketData = ledgerStock.symbol
+        ? await marketDataService.getMarketData(ledgerStock.symbol, ledgerStock.stockExchangeCode)
+        : null;
       
-      let currentMarketPrice = parseFloat(row.currentMarketPrice);
-      let peRatio = row.peRatio ? parseFloat(row.peRatio) : 0;
-      let latestEarnings = row.latestEarnings ? parseFloat(row.latestEarnings) : 0;
+      let currentMarketPrice = ledgerStock.currentMarketPrice;
+      let peRatio = ledgerStock.peRatio;
+      let latestEarnings = ledgerStock.latestEarnings;
       
       if (marketData) {
         currentMarketPrice = marketData.currentPrice;
@@ -167,29 +126,16 @@ class StockController {
         latestEarnings = marketData.latestEarnings || latestEarnings;
       }
 
-      const investment = parseFloat(row.investment);
-      const presentValue = currentMarketPrice * parseInt(row.quantity);
-      const gainLoss = presentValue - investment;
+      const presentValue = currentMarketPrice * ledgerStock.quantity;
 
       const stock: Stock = {
-        id: row.id,
-        stockName: row.stockName,
-        symbol: symbol,
-        purchasePrice: parseFloat(row.purchasePrice),
-        quantity: parseInt(row.quantity),
-        investment: investment,
-        portfolioPercentage: parseFloat(row.portfolioPercentage),
-        stockExchangeCode: row.stockExchangeCode,
+        ...ledgerStock,
         currentMarketPrice: currentMarketPrice,
         presentValue: presentValue,
-        gainLoss: gainLoss,
+        gainLoss: presentValue - ledgerStock.investment,
         peRatio: peRatio,
         latestEarnings: latestEarnings,
-        sector: row.sector,
-        purchaseDate: row.createdAt ? new Date(row.createdAt).toISOString().split('T')[0] : new Date().toISOString().split('T')[0],
-        lastUpdated: new Date().toISOString(),
-        createdAt: row.createdAt,
-        updatedAt: row.updatedAt
+        lastUpdated: new Date().toISOString()
       };
 
       res.json({
@@ -207,7 +153,8 @@ class StockController {
   }
 
   /**
-   * Create new stock with live market data
+   * Create new stock with live market data in the portfolio named by
+   * :portfolioId or the body's portfolioId (the user's default portfolio if neither)
    */
   static async createStock(req: Request, res: Response): Promise<void> {
     try {
@@ -222,9 +169,68 @@ class StockController {
         return;
       }
 
+      const portfolioId = req.params.portfolioId || stockData.portfolioId || await PortfolioService.getDefaultPortfolioId(req.user.id);
+      const portfolio = portfolioId ? await PortfolioService.getPortfolioById(portfolioId, req.user.id) : null;
+      if (!portfolio) {
+        res.status(404).json({
+          success: false,
+          message: `Portfolio with ID ${portfolioId} not found`
+        });
+        return;
+      }
+
+      if (!MembershipService.hasRole(portfolio.role, 'EDITOR')) {
+        res.status(403).json({
+          success: false,
+          message: 'You have read-only access to this portfolio'
+        });
+        return;
+      }
+
+      const openingBuyError = TransactionService.validateTransaction({
+        type: 'BUY',
+        transactionDate: stockData.purchaseDate,
+        price: stockData.purchasePrice,
+        quantity: stockData.quantity
+      });
+      if (openingBuyError) {
+        res.status(400).json({
+          success: false,
+          message: openingBuyError
+        });
+        return;
+      }
+
+      if (stockData.isin !== undefined) {
+        const isinError = InstrumentService.validateIsin(stockData.isin);
+        if (isinError) {
+          res.status(400).json({
+            success: false,
+            message: isinError
+          });
+          return;
+        }
+      }
+
+      const exchange = stockData.stockExchangeCode || 'NSE';
+      const instrument = await InstrumentService.resolve({
+        stockName: stockData.stockName,
+        exchange,
+        symbol: stockData.symbol,
+        isin: stockData.isin,
+        sector: stockData.sector
+      });
+      if (!instrument) {
+        res.status(400).json({
+          success: false,
+          message: `Could not find a ticker for ${stockData.stockName} on ${exchange}; pass symbol or isin`
+        });
+        return;
+      }
+
       // Generate unique ID
       const stockId = uuidv4();
-      const symbol = StockController.extractStockSymbol(stockData.stockName);
+      const symbol = instrument.ticker;
       
       // Get current market data
       let currentMarketPrice = stockData.purchasePrice;
@@ -233,7 +239,7 @@ class StockController {
       
       try {
         logger.info(`Fetching live market data for new stock: ${stockData.stockName} (${symbol})`);
-        const marketData = await marketDataService.getMarketData(symbol, stockData.stockExchangeCode || 'NSE');
+        const marketData = await marketDataService.getMarketData(symbol, exchange);
         if (marketData) {
           currentMarketPrice = marketData.currentPrice;
           peRatio = marketData.peRatio || 0;
@@ -247,18 +253,29 @@ class StockController {
       const presentValue = currentMarketPrice * stockData.quantity;
       const gainLoss = presentValue - investment;
 
-      // Insert into database
-      await Database.query(`
-        INSERT INTO stocks (
-          id, stock_name, purchase_price, quantity, investment, 
-          stock_exchange_code, current_market_price, present_value, 
-          gain_loss, pe_ratio, latest_earnings, sector, created_at, updated_at
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, NOW(), NOW())
-      `, [
-        stockId, stockData.stockName, stockData.purchasePrice, stockData.quantity,
-        investment, stockData.stockExchangeCode || 'NSE', currentMarketPrice,
-        presentValue, gainLoss, peRatio, latestEarnings, stockData.sector || 'Technology'
-      ]);
+      // Insert the stock with its opening BUY in one transaction; the ledger
+      // is the source of truth for the position, so neither exists without the other
+      await Database.transaction(async (client) => {
+        await client.query(`
+          INSERT INTO stocks (
+            id, stock_name, purchase_price, quantity, investment, 
+            stock_exchange_code, current_market_price, present_value, 
+            gain_loss, pe_ratio, latest_earnings, sector, portfolio_id, symbol, instrument_id, created_at, updated_at
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, NOW(), NOW())
+        `, [
+          stockId, stockData.stockName, stockData.purchasePrice, stockData.quantity,
+          investment, exchange, currentMarketPrice,
+          presentValue, gainLoss, peRatio, latestEarnings, stockData.sector || instrument.sector || 'Technology', portfolioId,
+          symbol, instrument.id
+        ]);
+
+        await TransactionService.recordTransaction(stockId, {
+          type: 'BUY',
+          transactionDate: stockData.purchaseDate,
+          price: stockData.purchasePrice,
+          quantity: stockData.quantity
+        }, client);
+      });
 
       // Recalculate portfolio percentages
       await StockController.recalculatePortfolioPercentages();
@@ -276,6 +293,8 @@ class StockController {
 
       const newStock: Stock = {
         id: result.rows[0].id,
+        portfolioId,
+        instrumentId: instrument.id,
         stockName: result.rows[0].stockName,
         symbol: symbol,
         purchasePrice: parseFloat(result.rows[0].purchasePrice),
@@ -330,11 +349,66 @@ class StockController {
 
       logger.info(`Updating stock ${id} with data:`, updateData);
 
-      // If market price is being updated, fetch live data
-      if (updateData.stockName || updateData.stockExchangeCode) {
+      // Position fields can only be edited while the ledger holds just the opening BUY
+      if (updateData.purchasePrice !== undefined || updateData.quantity !== undefined) {
+        const transactions = await TransactionService.getTransactionsByStock(id);
+        if (transactions.length > 1) {
+          res.status(409).json({
+            success: false,
+            message: 'Stock has ledger activity; record a BUY, SELL or ADJUST transaction instead'
+          });
+          return;
+        }
+      }
+
+      const currentStock = await StockService.getStockById(id);
+      if (!currentStock) {
+        res.status(404).json({
+          success: false,
+          message: 'Stock not found'
+        });
+        return;
+      }
+
+      // A new symbol, ISIN or exchange points the holding at a different instrument
+      if (updateData.symbol !== undefined || updateData.isin !== undefined || updateData.stockExchangeCode) {
+        if (updateData.isin !== undefined) {
+          const isinError = InstrumentService.validateIsin(updateData.isin);
+          if (isinError) {
+            res.status(400).json({
+              success: false,
+              message: isinError
+            });
+            return;
+          }
+        }
+
+        const exchange = updateData.stockExchangeCode || currentStock.stockExchangeCode;
+        const instrument = await InstrumentService.resolve({
+          stockName: updateData.stockName || currentStock.stockName,
+          exchange,
+          symbol: updateData.symbol || (updateData.isin ? undefined : currentStock.symbol),
+          isin: updateData.isin,
+          sector: updateData.sector || currentStock.sector
+        });
+        if (!instrument) {
+          res.status(400).json({
+            success: false,
+            message: `Could not find a ticker for ${updateData.stockName || currentStock.stockName} on ${exchange}; pass symbol or isin`
+          });
+          return;
+        }
+
+        updateData.symbol = instrument.ticker;
+        updateData.instrumentId = instrument.id;
+      }
+      delete updateData.isin;
+
+      // If the listing changed, fetch live data for it
+      if (updateData.symbol || updateData.stockExchangeCode) {
         try {
-          const symbol = updateData.stockName || (await StockService.getStockById(id))?.stockName;
-          const exchange = updateData.stockExchangeCode || (await StockService.getStockById(id))?.stockExchangeCode || 'NSE';
+          const symbol = updateData.symbol || currentStock.symbol;
+          const exchange = updateData.stockExchangeCode || currentStock.stockExchangeCode || 'NSE';
           
           if (symbol) {
             const marketData = await marketDataService.getMarketData(symbol, exchange);
@@ -442,20 +516,16 @@ class StockController {
    */
   private static async recalculatePortfolioPercentages(): Promise<void> {
     try {
-      // Get total investment
-      const totalResult = await Database.query('SELECT SUM(investment) as total FROM stocks');
-      const totalInvestment = parseFloat(totalResult.rows[0]?.total || '0');
+      // Weight each stock against the total investment of its own portfolio
+      await Database.query(`
+        UPDATE stocks s
+        SET portfolio_percentage = ROUND((s.investment / t.total * 100)::numeric, 2),
+            updated_at = NOW()
+        FROM (SELECT portfolio_id, SUM(investment) as total FROM stocks GROUP BY portfolio_id) t
+        WHERE t.portfolio_id = s.portfolio_id AND t.total > 0
+      `);
       
-      if (totalInvestment > 0) {
-        // Update each stock's portfolio percentage
-        await Database.query(`
-          UPDATE stocks 
-          SET portfolio_percentage = ROUND((investment / $1 * 100)::numeric, 2),
-              updated_at = NOW()
-        `, [totalInvestment]);
-        
-        logger.info('Recalculated portfolio percentages after stock deletion');
-      }
+      logger.info('Recalculated portfolio percentages after stock deletion');
     } catch (error) {
       logger.error('Error recalculating portfolio percentages:', error);
     }
@@ -547,7 +617,7 @@ class StockController {
 
       // Get stock from database
       const result = await Database.query(`
-        SELECT id, stock_name as "stockName", stock_exchange_code as "stockExchangeCode"
+        SELECT id, stock_name as "stockName", symbol, stock_exchange_code as "stockExchangeCode"
         FROM stocks WHERE id = $1
       `, [id]);
       
@@ -560,7 +630,14 @@ class StockController {
       }
 
       const row = result.rows[0];
-      const symbol = StockController.extractStockSymbol(row.stockName);
+      const symbol = row.symbol;
+      if (!symbol) {
+        res.status(404).json({
+          success: false,
+          message: `No ticker is recorded for ${row.stockName}; set its symbol first`
+        });
+        return;
+      }
       
       // Force refresh market data
       const marketData = await marketDataService.refreshSymbol(symbol, row.stockExchangeCode);
@@ -602,6 +679,386 @@ class StockController {
       });
     }
   }
+
+  /**
+   * Get the transactions ledger for a stock
+   */
+  static async getTransactions(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const stock = await PortfolioService.getStockById(id);
+      if (!stock) {
+        res.status(404).json({
+          success: false,
+          message: `Stock with ID ${id} not found`
+        });
+        return;
+      }
+
+      const [transactions, method] = await Promise.all([
+        TransactionService.getTransactionsByStock(id),
+        LotService.getLotMethod(stock.portfolioId)
+      ]);
+
+      res.json({
+        success: true,
+        data: {
+          stockId: id,
+          stockName: stock.stockName,
+          position: TransactionService.calculatePosition(transactions, method),
+          transactions
+        }
+      });
+    } catch (error) {
+      logger.error(`Error fetching transactions for stock ${req.params.id}:`, error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to fetch transactions',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Record a BUY, SELL or ADJUST transaction against a stock
+   */
+  static async addTransaction(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const transactionData: TransactionCreateRequest = req.body;
+
+      const validationError = TransactionService.validateTransaction(transactionData);
+      if (validationError) {
+        res.status(400).json({
+          success: false,
+          message: validationError
+        });
+        return;
+      }
+
+      const stock = await PortfolioService.getStockById(id);
+      if (!stock) {
+        res.status(404).json({
+          success: false,
+          message: `Stock with ID ${id} not found`
+        });
+        return;
+      }
+
+      // Reject transactions that would sell more than is held at that date
+      const existing = await TransactionService.getTransactionsByStock(id);
+      const candidate: Transaction = {
+        id: 'pending',
+        stockId: id,
+        type: transactionData.type,
+        transactionDate: transactionData.transactionDate || new Date().toISOString().split('T')[0],
+        price: transactionData.price || 0,
+        quantity: transactionData.quantity,
+        fees: transactionData.fees || 0,
+        createdAt: new Date().toISOString()
+      };
+      const shortfall = TransactionService.findShortfall([...existing, candidate]);
+      if (shortfall) {
+        res.status(400).json({
+          success: false,
+          message: `Transaction on ${shortfall.transactionDate} would reduce ${stock.stockName} below zero shares`
+        });
+        return;
+      }
+
+      // Named lots must be open at the time of the sale
+      if (transactionData.lotSelections && transactionData.lotSelections.length > 0) {
+        const priorTransactions = existing.filter(transaction => transaction.transactionDate <= candidate.transactionDate);
+        const { openLots } = LotService.buildLots(priorTransactions, 'SPECIFIC_ID');
+        const selectionError = LotService.validateSelections(openLots, transactionData.lotSelections);
+        if (selectionError) {
+          res.status(400).json({
+            success: false,
+            message: selectionError
+          });
+          return;
+        }
+      }
+
+      const transaction = await TransactionService.recordTransaction(id, transactionData);
+      await StockController.recalculatePortfolioPercentages();
+
+      logger.info(`Recorded ${transaction.type} of ${transaction.quantity} ${stock.stockName} @ ${transaction.price}`);
+
+      res.status(201).json({
+        success: true,
+        data: transaction,
+        message: 'Transaction recorded successfully'
+      });
+    } catch (error) {
+      logger.error(`Error recording transaction for stock ${req.params.id}:`, error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to record transaction',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Delete a transaction from a stock's ledger
+   */
+  static async deleteTransaction(req: Request, res: Response): Promise<void> {
+    try {
+      const { id, transactionId } = req.params;
+
+      const existing = await TransactionService.getTransactionsByStock(id);
+      const remaining = existing.filter(transaction => transaction.id !== transactionId);
+
+      if (remaining.length === existing.length) {
+        res.status(404).json({
+          success: false,
+          message: `Transaction ${transactionId} not found for stock ${id}`
+        });
+        return;
+      }
+
+      if (existing.find(transaction => transaction.id === transactionId)!.corporateActionId) {
+        res.status(409).json({
+          success: false,
+          message: 'This adjustment was written by a corporate action; revert the corporate action instead'
+        });
+        return;
+      }
+
+      // Removing a BUY must not leave a later SELL uncovered
+      const shortfall = TransactionService.findShortfall(remaining);
+      if (shortfall) {
+        res.status(400).json({
+          success: false,
+          message: `Deleting this transaction would leave the transaction on ${shortfall.transactionDate} below zero shares`
+        });
+        return;
+      }
+
+      await TransactionService.deleteTransaction(id, transactionId);
+      await StockController.recalculatePortfolioPercentages();
+
+      res.json({
+        success: true,
+        message: 'Transaction deleted successfully',
+        data: { id: transactionId, stockId: id }
+      });
+    } catch (error) {
+      logger.error(`Error deleting transaction ${req.params.transactionId}:`, error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to delete transaction',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Get dividend events for a stock with the income each paid on the ledger
+   */
+  static async getDividends(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const stock = await PortfolioService.getStockById(id);
+      if (!stock) {
+        res.status(404).json({
+          success: false,
+          message: `Stock with ID ${id} not found`
+        });
+        return;
+      }
+
+      const [transactions, dividends] = await Promise.all([
+        TransactionService.getTransactionsByStock(id),
+        DividendService.getDividendsByStock(id)
+      ]);
+
+      res.json({
+        success: true,
+        data: {
+          stockId: id,
+          stockName: stock.stockName,
+          payments: DividendService.calculatePayments(transactions, dividends)
+        }
+      });
+    } catch (error) {
+      logger.error(`Error fetching dividends for stock ${req.params.id}:`, error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to fetch dividends',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Record a dividend event (ex-date, pay-date, amount per share) for a stock
+   */
+  static async addDividend(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const dividendData: DividendCreateRequest = req.body;
+
+      const validationError = DividendService.validateDividend(dividendData);
+      if (validationError) {
+        res.status(400).json({
+          success: false,
+          message: validationError
+        });
+        return;
+      }
+
+      const stock = await PortfolioService.getStockById(id);
+      if (!stock) {
+        res.status(404).json({
+          success: false,
+          message: `Stock with ID ${id} not found`
+        });
+        return;
+      }
+
+      const dividend = await DividendService.recordDividend(id, dividendData);
+      if (!dividend) {
+        res.status(409).json({
+          success: false,
+          message: `A dividend with ex-date ${dividendData.exDate} is already recorded for ${stock.stockName}`
+        });
+        return;
+      }
+
+      logger.info(`Recorded dividend of ${dividend.amountPerShare}/share for ${stock.stockName} (ex ${dividend.exDate})`);
+
+      res.status(201).json({
+        success: true,
+        data: dividend,
+        message: 'Dividend recorded successfully'
+      });
+    } catch (error) {
+      logger.error(`Error recording dividend for stock ${req.params.id}:`, error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to record dividend',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Delete a dividend event
+   */
+  static async deleteDividend(req: Request, res: Response): Promise<void> {
+    try {
+      const { id, dividendId } = req.params;
+
+      const deleted = await DividendService.deleteDividend(id, dividendId);
+      if (!deleted) {
+        res.status(404).json({
+          success: false,
+          message: `Dividend ${dividendId} not found for stock ${id}`
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Dividend deleted successfully',
+        data: { id: dividendId, stockId: id }
+      });
+    } catch (error) {
+      logger.error(`Error deleting dividend ${req.params.dividendId}:`, error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to delete dividend',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Get open tax lots for a stock with holding period and unrealized P&L
+   */
+  static async getStockLots(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { method } = req.query;
+
+      if (method !== undefined && !LotService.isLotMethod(method)) {
+        res.status(400).json({
+          success: false,
+          message: `Lot method must be one of: ${LOT_METHODS.join(', ')}`
+        });
+        return;
+      }
+
+      const report = await PortfolioService.getStockLots(id, LotService.isLotMethod(method) ? method : undefined);
+
+      if (!report) {
+        res.status(404).json({
+          success: false,
+          message: `Stock with ID ${id} not found`
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: report
+      });
+    } catch (error) {
+      logger.error(`Error fetching lots for stock ${req.params.id}:`, error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to fetch tax lots',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Set the 31-Jan-2018 fair market value used to grandfather long-term gains
+   */
+  static async setGrandfatheringPrice(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { fairMarketValue } = req.body;
+
+      if (typeof fairMarketValue !== 'number' || !(fairMarketValue > 0)) {
+        res.status(400).json({
+          success: false,
+          message: 'fairMarketValue must be a positive number'
+        });
+        return;
+      }
+
+      const stock = await PortfolioService.getStockById(id);
+
+      if (!stock) {
+        res.status(404).json({
+          success: false,
+          message: `Stock with ID ${id} not found`
+        });
+        return;
+      }
+
+      await TaxReportService.setGrandfatheringPrice(id, fairMarketValue);
+
+      res.json({
+        success: true,
+        data: { stockId: id, fairMarketValue },
+        message: `Grandfathering price set for ${stock.stockName}`
+      });
+    } catch (error) {
+      logger.error(`Error setting grandfathering price for stock ${req.params.id}:`, error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to set grandfathering price',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
 }
 
 export default StockController;
\ No newline at end of file
@@ -22,6 +22,139 @@ CREATE TABLE IF NOT EXISTS stocks (
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Transactions ledger (source of truth for holdings; stocks columns are a derived cache)
+CREATE TABLE IF NOT EXISTS transactions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    stock_id UUID NOT NULL REFERENCES stocks(id) ON DELETE CASCADE,
+    transaction_type VARCHAR(10) NOT NULL CHECK (transaction_type IN ('BUY', 'SELL', 'ADJUST')),
+    transaction_date DATE NOT NULL DEFAULT CURRENT_DATE,
+    price DECIMAL(10, 2) NOT NULL DEFAULT 0,
+    quantity INTEGER NOT NULL,
+    fees DECIMAL(10, 2) NOT NULL DEFAULT 0,
+    notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- SELLs may name the lots they close (specific identification)
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS lot_selections JSONB;
+
+-- Corporate actions (splits, bonus issues, consolidations, symbol changes)
+CREATE TABLE IF NOT EXISTS corporate_actions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    stock_id UUID NOT NULL REFERENCES stocks(id) ON DELETE CASCADE,
+    action_type VARCHAR(20) NOT NULL CHECK (action_type IN ('SPLIT', 'BONUS', 'CONSOLIDATION', 'SYMBOL_CHANGE')),
+    ex_date DATE NOT NULL,
+    ratio_from INTEGER NOT NULL DEFAULT 1 CHECK (ratio_from > 0),
+    ratio_to INTEGER NOT NULL DEFAULT 1 CHECK (ratio_to > 0),
+    previous_stock_name VARCHAR(255),
+    new_stock_name VARCHAR(255),
+    notes TEXT,
+    applied_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (stock_id, action_type, ex_date)
+);
+
+-- ADJUSTs written by a corporate action; split_ratio rescales open lots instead of opening or closing one
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS corporate_action_id UUID REFERENCES corporate_actions(id) ON DELETE CASCADE;
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS split_ratio DECIMAL(12, 6);
+
+-- Backfill an opening BUY for holdings created before the ledger existed
+INSERT INTO transactions (stock_id, transaction_type, transaction_date, price, quantity)
+SELECT s.id, 'BUY', s.created_at::date, s.purchase_price, s.quantity
+FROM stocks s
+WHERE s.quantity > 0
+  AND NOT EXISTS (SELECT 1 FROM transactions t WHERE t.stock_id = s.id);
+
+-- Portfolio settings (single row) - lot matching method for cost basis
+CREATE TABLE IF NOT EXISTS portfolio_settings (
+    id INTEGER PRIMARY KEY DEFAULT 1 CHECK (id = 1),
+    lot_method VARCHAR(20) NOT NULL DEFAULT 'FIFO' CHECK (lot_method IN ('FIFO', 'LIFO', 'SPECIFIC_ID', 'AVERAGE')),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+INSERT INTO portfolio_settings (id) VALUES (1) ON CONFLICT (id) DO NOTHING;
+
+-- Portfolios; each owns its stocks (and through them their transactions) and its own lot method
+CREATE TABLE IF NOT EXISTS portfolios (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name VARCHAR(255) NOT NULL,
+    description TEXT,
+    lot_method VARCHAR(20) NOT NULL DEFAULT 'FIFO' CHECK (lot_method IN ('FIFO', 'LIFO', 'SPECIFIC_ID', 'AVERAGE')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- The default portfolio adopts holdings created before portfolios existed, and the old single-row lot method
+INSERT INTO portfolios (id, name, lot_method)
+SELECT '00000000-0000-0000-0000-000000000001', 'Default', COALESCE((SELECT lot_method FROM portfolio_settings WHERE id = 1), 'FIFO')
+ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE stocks ADD COLUMN IF NOT EXISTS portfolio_id UUID REFERENCES portfolios(id) ON DELETE CASCADE;
+UPDATE stocks SET portfolio_id = '00000000-0000-0000-0000-000000000001' WHERE portfolio_id IS NULL;
+ALTER TABLE stocks ALTER COLUMN portfolio_id SET DEFAULT '00000000-0000-0000-0000-000000000001';
+ALTER TABLE stocks ALTER COLUMN portfolio_id SET NOT NULL;
+
+-- User accounts; passwords are stored as scrypt hashes
+CREATE TABLE IF NOT EXISTS users (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    email VARCHAR(255) NOT NULL UNIQUE,
+    password_hash TEXT NOT NULL,
+    name VARCHAR(255),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Administrators manage server-wide operations such as the price scheduler.
+-- Registration never grants it; an operator does:
+--   UPDATE users SET is_admin = true WHERE email = 'ops@example.com';
+ALTER TABLE users ADD COLUMN IF NOT EXISTS is_admin BOOLEAN NOT NULL DEFAULT false;
+
+-- Issued refresh tokens by JWT ID, so they can be rotated and revoked
+CREATE TABLE IF NOT EXISTS refresh_tokens (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    revoked_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- API keys for machine clients. Only a SHA-256 hash of each key is stored;
+-- the prefix identifies a key in listings without revealing it.
+CREATE TABLE IF NOT EXISTS api_keys (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL,
+    prefix VARCHAR(16) NOT NULL,
+    key_hash CHAR(64) NOT NULL UNIQUE,
+    scopes TEXT[] NOT NULL,
+    rate_limit INTEGER NOT NULL DEFAULT 1000 CHECK (rate_limit > 0),
+    last_used_at TIMESTAMP WITH TIME ZONE,
+    revoked_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Portfolios belong to a user; those created before accounts existed are adopted by the first user to register
+ALTER TABLE portfolios ADD COLUMN IF NOT EXISTS user_id UUID REFERENCES users(id) ON DELETE CASCADE;
+ALTER TABLE portfolios DROP CONSTRAINT IF EXISTS portfolios_name_key;
+
+-- Users a portfolio is shared with. The owner (portfolios.user_id) is not listed here.
+CREATE TABLE IF NOT EXISTS portfolio_members (
+    portfolio_id UUID NOT NULL REFERENCES portfolios(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    role VARCHAR(10) NOT NULL CHECK (role IN ('EDITOR', 'VIEWER')),
+    invited_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (portfolio_id, user_id)
+);
+
+-- Fair market value on 31-Jan-2018 for grandfathering long-term gains (Section 112A)
+CREATE TABLE IF NOT EXISTS grandfathered_prices (
+    stock_id UUID PRIMARY KEY REFERENCES stocks(id) ON DELETE CASCADE,
+    fair_market_value DECIMAL(12,2) NOT NULL CHECK (fair_market_value > 0),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
 -- Portfolio snapshots table (for historical tracking)
 CREATE TABLE IF NOT EXISTS portfolio_snapshots (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -32,6 +165,118 @@ CREATE TABLE IF NOT EXISTS portfolio_snapshots (
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- EOD rows hold the last valuation of each day; INTRADAY rows are optional per-update captures
+ALTER TABLE portfolio_snapshots ADD COLUMN IF NOT EXISTS snapshot_type VARCHAR(10) NOT NULL DEFAULT 'INTRADAY' CHECK (snapshot_type IN ('INTRADAY', 'EOD'));
+ALTER TABLE portfolio_snapshots ADD COLUMN IF NOT EXISTS snapshot_day DATE;
+UPDATE portfolio_snapshots SET snapshot_day = snapshot_date::date WHERE snapshot_day IS NULL;
+ALTER TABLE portfolio_snapshots ALTER COLUMN snapshot_day SET DEFAULT CURRENT_DATE;
+
+-- Snapshots are recorded per portfolio; the consolidated history sums them by day
+ALTER TABLE portfolio_snapshots ADD COLUMN IF NOT EXISTS portfolio_id UUID REFERENCES portfolios(id) ON DELETE CASCADE;
+UPDATE portfolio_snapshots SET portfolio_id = '00000000-0000-0000-0000-000000000001' WHERE portfolio_id IS NULL;
+ALTER TABLE portfolio_snapshots ALTER COLUMN portfolio_id SET NOT NULL;
+DROP INDEX IF EXISTS idx_portfolio_snapshots_eod_day;
+
+-- Backfill an EOD row from the last snapshot of each portfolio's day recorded before EOD rows existed
+INSERT INTO portfolio_snapshots (portfolio_id, total_investment, total_present_value, total_gain_loss, snapshot_date, snapshot_type, snapshot_day)
+SELECT DISTINCT ON (p.portfolio_id, p.snapshot_day) p.portfolio_id, p.total_investment, p.total_present_value, p.total_gain_loss, p.snapshot_date, 'EOD', p.snapshot_day
+FROM portfolio_snapshots p
+WHERE p.snapshot_type = 'INTRADAY'
+  AND NOT EXISTS (
+    SELECT 1 FROM portfolio_snapshots e
+    WHERE e.snapshot_type = 'EOD' AND e.portfolio_id = p.portfolio_id AND e.snapshot_day = p.snapshot_day
+  )
+ORDER BY p.portfolio_id, p.snapshot_day, p.snapshot_date DESC;
+
+-- Dividend events; income is derived from the ledger quantity held before the ex-date
+CREATE TABLE IF NOT EXISTS dividends (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    stock_id UUID NOT NULL REFERENCES stocks(id) ON DELETE CASCADE,
+    ex_date DATE NOT NULL,
+    pay_date DATE,
+    amount_per_share DECIMAL(12, 4) NOT NULL CHECK (amount_per_share > 0),
+    notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (stock_id, ex_date)
+);
+
+-- Trailing annual dividend yield (percent) from the market data provider
+ALTER TABLE stocks ADD COLUMN IF NOT EXISTS dividend_yield DECIMAL(8, 4);
+
+-- Daily closing price per holding, used to value positions between transactions
+CREATE TABLE IF NOT EXISTS stock_snapshots (
+    stock_id UUID NOT NULL REFERENCES stocks(id) ON DELETE CASCADE,
+    snapshot_day DATE NOT NULL DEFAULT CURRENT_DATE,
+    price DECIMAL(10, 2) NOT NULL,
+    quantity INTEGER NOT NULL,
+    market_value DECIMAL(12, 2) NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (stock_id, snapshot_day)
+);
+
+-- Instrument master: one row per listing, keyed by exchange + ticker (and ISIN where known)
+CREATE TABLE IF NOT EXISTS instruments (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    exchange VARCHAR(10) NOT NULL,
+    ticker VARCHAR(32) NOT NULL,
+    isin CHAR(12),
+    name VARCHAR(255) NOT NULL,
+    sector VARCHAR(100),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (exchange, ticker)
+);
+
+-- Exchange ticker of each holding (bare, e.g. RELIANCE); NULL until resolved against the instrument master
+ALTER TABLE stocks ADD COLUMN IF NOT EXISTS symbol VARCHAR(32);
+ALTER TABLE stocks ADD COLUMN IF NOT EXISTS instrument_id UUID REFERENCES instruments(id) ON DELETE SET NULL;
+
+-- Failed lookups for a holding still without a symbol; each failure doubles the wait before the next attempt
+ALTER TABLE stocks ADD COLUMN IF NOT EXISTS symbol_lookup_attempts INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE stocks ADD COLUMN IF NOT EXISTS symbol_lookup_failed_at TIMESTAMP WITH TIME ZONE;
+
+-- Ticker before and after a symbol change
+ALTER TABLE corporate_actions ADD COLUMN IF NOT EXISTS previous_symbol VARCHAR(32);
+ALTER TABLE corporate_actions ADD COLUMN IF NOT EXISTS new_symbol VARCHAR(32);
+
+-- Last quote fetched per canonical symbol (NSE:RELIANCE); second-level market data cache that survives restarts
+CREATE TABLE IF NOT EXISTS market_quotes (
+    symbol VARCHAR(48) PRIMARY KEY,
+    data JSONB NOT NULL,
+    source VARCHAR(32) NOT NULL,
+    fetched_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Price alert rules on holdings. One-shot alerts deactivate when they trigger; recurring ones wait out their cooldown.
+CREATE TABLE IF NOT EXISTS price_alerts (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    stock_id UUID NOT NULL REFERENCES stocks(id) ON DELETE CASCADE,
+    alert_type VARCHAR(10) NOT NULL CHECK (alert_type IN ('PRICE', 'DAY_CHANGE', 'GAIN_LOSS')),
+    direction VARCHAR(5) NOT NULL CHECK (direction IN ('ABOVE', 'BELOW')),
+    threshold DECIMAL(14, 4) NOT NULL,
+    recurring BOOLEAN NOT NULL DEFAULT FALSE,
+    cooldown_minutes INTEGER NOT NULL DEFAULT 60 CHECK (cooldown_minutes >= 0),
+    active BOOLEAN NOT NULL DEFAULT TRUE,
+    note TEXT,
+    trigger_count INTEGER NOT NULL DEFAULT 0,
+    last_triggered_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Each time an alert triggered, with the value that crossed its threshold
+CREATE TABLE IF NOT EXISTS alert_triggers (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    alert_id UUID NOT NULL REFERENCES price_alerts(id) ON DELETE CASCADE,
+    price DECIMAL(12, 4) NOT NULL,
+    value DECIMAL(14, 4) NOT NULL,
+    threshold DECIMAL(14, 4) NOT NULL,
+    message TEXT NOT NULL,
+    triggered_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
 -- Sectors reference table
 CREATE TABLE IF NOT EXISTS sectors (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -45,6 +290,19 @@ CREATE INDEX IF NOT EXISTS idx_stocks_sector ON stocks(sector);
 CREATE INDEX IF NOT EXISTS idx_stocks_stock_name ON stocks(stock_name);
 CREATE INDEX IF NOT EXISTS idx_stocks_created_at ON stocks(created_at);
 CREATE INDEX IF NOT EXISTS idx_portfolio_snapshots_date ON portfolio_snapshots(snapshot_date);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_portfolio_snapshots_portfolio_eod_day ON portfolio_snapshots(portfolio_id, snapshot_day) WHERE snapshot_type = 'EOD';
+CREATE INDEX IF NOT EXISTS idx_stocks_portfolio_id ON stocks(portfolio_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_portfolios_user_name ON portfolios(user_id, name);
+CREATE INDEX IF NOT EXISTS idx_refresh_tokens_user_id ON refresh_tokens(user_id);
+CREATE INDEX IF NOT EXISTS idx_portfolio_members_user_id ON portfolio_members(user_id);
+CREATE INDEX IF NOT EXISTS idx_api_keys_user_id ON api_keys(user_id);
+CREATE INDEX IF NOT EXISTS idx_transactions_stock_date ON transactions(stock_id, transaction_date);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_instruments_exchange_isin ON instruments(exchange, isin) WHERE isin IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_instruments_name ON instruments(LOWER(name));
+CREATE INDEX IF NOT EXISTS idx_stocks_symbol ON stocks(stock_exchange_code, symbol);
+CREATE INDEX IF NOT EXISTS idx_price_alerts_user_id ON price_alerts(user_id);
+CREATE INDEX IF NOT EXISTS idx_price_alerts_active_stock ON price_alerts(stock_id) WHERE active;
+CREATE INDEX IF NOT EXISTS idx_alert_triggers_alert_triggered ON alert_triggers(alert_id, triggered_at DESC);
 
 -- Trigger to update updated_at column
 CREATE OR REPLACE FUNCTION update_updated_at_column()
@@ -55,10 +313,53 @@ BEGIN
 END;
 $$ language 'plpgsql';
 
+DROP TRIGGER IF EXISTS update_stocks_updated_at ON stocks;
 CREATE TRIGGER update_stocks_updated_at 
     BEFORE UPDATE ON stocks 
     FOR EACH ROW 
     EXECUTE FUNCTION update_updated_at_column();
 
+DROP TRIGGER IF EXISTS update_users_updated_at ON users;
+CREATE TRIGGER update_users_updated_at
+    BEFORE UPDATE ON users
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_portfolios_updated_at ON portfolios;
+CREATE TRIGGER update_portfolios_updated_at
+    BEFORE UPDATE ON portfolios
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_portfolio_members_updated_at ON portfolio_members;
+CREATE TRIGGER update_portfolio_members_updated_at
+    BEFORE UPDATE ON portfolio_members
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_instruments_updated_at ON instruments;
+CREATE TRIGGER update_instruments_updated_at
+    BEFORE UPDATE ON instruments
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_price_alerts_updated_at ON price_alerts;
+CREATE TRIGGER update_price_alerts_updated_at
+    BEFORE UPDATE ON price_alerts
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_dividends_updated_at ON dividends;
+CREATE TRIGGER update_dividends_updated_at 
+    BEFORE UPDATE ON dividends 
+    FOR EACH ROW 
+    EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_transactions_updated_at ON transactions;
+CREATE TRIGGER update_transactions_updated_at 
+    BEFORE UPDATE ON transactions 
+    FOR EACH ROW 
+    EXECUTE FUNCTION update_updated_at_column();
+
 -- Sectors will be dynamically populated when stocks are added
 -- No hardcoded sector insertions - sectors are created dynamically based on stock data
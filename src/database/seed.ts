@@ -1,5 +1,7 @@
 import Database from '../config/database';
 import { realTimeDataService } from '../services/realTimeDataService';
+import { SnapshotService } from '../services/snapshotService';
+import { InstrumentService } from '../services/instrumentService';
 import { logger } from '../utils/logger';
 
 // Dynamic sample stocks - completely dynamic, market data and purchase prices fetched live
@@ -45,7 +47,7 @@ async function seedDatabase() {
   try {
     console.log('Starting database seeding with live market data...');
 
-    // Clear existing data
+    // Clear existing data (transactions cascade with their stocks)
     await Database.query('DELETE FROM stocks');
     await Database.query('DELETE FROM portfolio_snapshots');
 
@@ -121,13 +123,20 @@ async function seedDatabase() {
     // Insert stocks with live data and calculated portfolio percentages
     for (const stock of stocksWithLiveData) {
       const portfolioPercentage = totalInvestment > 0 ? (stock.investment / totalInvestment) * 100 : 0;
+      const instrument = await InstrumentService.upsert({
+        exchange: stock.stockExchangeCode,
+        ticker: stock.symbol,
+        name: stock.stockName,
+        sector: stock.sector
+      });
       
-      await Database.query(`
+      const inserted = await Database.query(`
         INSERT INTO stocks (
           stock_name, purchase_price, quantity, investment, portfolio_percentage,
           stock_exchange_code, current_market_price, present_value, gain_loss,
-          pe_ratio, latest_earnings, sector
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+          pe_ratio, latest_earnings, sector, symbol, instrument_id
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+        RETURNING id
       `, [
         stock.stockName,
         stock.purchasePrice,
@@ -140,15 +149,20 @@ async function seedDatabase() {
         stock.gainLoss,
         stock.peRatio,
         stock.latestEarnings,
-        stock.sector
+        stock.sector,
+        instrument.ticker,
+        instrument.id
       ]);
+
+      // Opening BUY in the ledger, which holdings are derived from
+      await Database.query(`
+        INSERT INTO transactions (stock_id, transaction_type, transaction_date, price, quantity)
+        VALUES ($1, 'BUY', $2, $3, $4)
+      `, [inserted.rows[0].id, stock.purchaseDate, stock.purchasePrice, stock.quantity]);
     }
 
     // Create initial portfolio snapshot
-    await Database.query(`
-      INSERT INTO portfolio_snapshots (total_investment, total_present_value, total_gain_loss)
-      VALUES ($1, $2, $3)
-    `, [totalInvestment, totalPresentValue, totalGainLoss]);
+    await SnapshotService.recordSnapshot({ totalInvestment, totalPresentValue, totalGainLoss });
 
     // Generate real-time portfolio statistics
     const portfolioStats = realTimeDataService.getPortfolioStatistics(
@@ -1,5 +1,7 @@
 import app from './app';
 import Database from './config/database';
+import { priceUpdateService } from './services/priceUpdateService';
+import { QuoteSocketController } from './controllers/quoteSocketController';
 
 const PORT = process.env.PORT || 3001;
 
@@ -15,12 +17,15 @@ async function startServer() {
     }
 
     // Start the server
-    app.listen(PORT, () => {
+    const server = app.listen(PORT, () => {
       console.log(`🚀 Portfolio Dashboard API server running on port ${PORT}`);
       console.log(`📊 Health check: http://localhost:${PORT}/health`);
       console.log(`📈 API endpoints: http://localhost:${PORT}/api`);
       console.log(`🔗 CORS enabled for: ${process.env.CORS_ORIGIN || 'http://localhost:3000'}`);
     });
+
+    QuoteSocketController.attach(server);
+    priceUpdateService.start();
   } catch (error) {
     console.error('Failed to start server:', error);
     process.exit(1);
@@ -30,11 +35,13 @@ async function startServer() {
 // Handle graceful shutdown
 process.on('SIGTERM', () => {
   console.log('SIGTERM received, shutting down gracefully...');
+  priceUpdateService.stop();
   process.exit(0);
 });
 
 process.on('SIGINT', () => {
   console.log('SIGINT received, shutting down gracefully...');
+  priceUpdateService.stop();
   process.exit(0);
 });
 
@@ -0,0 +1,168 @@
+import { Request, Response, NextFunction } from 'express';
+import { AuthService, AuthenticationError } from '../services/authService';
+import { PortfolioService } from '../services/portfolioService';
+import { MembershipService } from '../services/membershipService';
+import { ApiKeyService } from '../services/apiKeyService';
+import { ApiKeyScope } from '../types/stock';
+import { logger } from '../utils/logger';
+
+/**
+ * Identify requests carrying an "X-API-Key" header, attaching the key to
+ * req.apiKey and its owner to req.user. Requests without one pass through
+ * untouched; an unknown or revoked key is rejected.
+ */
+export const identifyApiKey = async (req: Request, res: Response, next: NextFunction) => {
+  const key = req.headers['x-api-key'];
+  if (!key || req.apiKey) {
+    next();
+    return;
+  }
+
+  try {
+    const principal = await ApiKeyService.authenticate(key);
+    if (!principal) {
+      res.status(401).json({
+        success: false,
+        message: 'Invalid or revoked API key'
+      });
+      return;
+    }
+
+    req.apiKey = { id: principal.id, scopes: principal.scopes, rateLimit: principal.rateLimit };
+    req.user = { id: principal.userId, email: principal.email };
+    next();
+  } catch (error) {
+    logger.error('Error authenticating API key:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to authenticate API key',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
+
+/**
+ * Require a valid "Authorization: Bearer <access token>" header, or an
+ * "X-API-Key" header, and attach the signed-in user to req.user
+ */
+export const authenticate = (req: Request, res: Response, next: NextFunction) => {
+  if (req.apiKey || req.headers['x-api-key']) {
+    identifyApiKey(req, res, next);
+    return;
+  }
+
+  const [scheme, token] = (req.headers.authorization || '').split(' ');
+
+  if (scheme !== 'Bearer' || !token) {
+    res.status(401).json({
+      success: false,
+      message: 'Authentication required'
+    });
+    return;
+  }
+
+  try {
+    req.user = AuthService.authenticate(token);
+    next();
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      res.status(401).json({
+        success: false,
+        message: error.message
+      });
+      return;
+    }
+    next(error);
+  }
+};
+
+/**
+ * Restrict server-wide operations to administrators (users.is_admin, set by
+ * an operator). An administrator's API key also needs the given scope.
+ */
+export const requireAdmin = (scope: ApiKeyScope) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user || !(await AuthService.isAdmin(req.user.id))) {
+        res.status(403).json({
+          success: false,
+          message: 'Administrator access required'
+        });
+        return;
+      }
+
+      if (req.apiKey && !req.apiKey.scopes.includes(scope)) {
+        res.status(403).json({
+          success: false,
+          message: `This API key does not have the ${scope} scope`
+        });
+        return;
+      }
+      next();
+    } catch (error) {
+      logger.error('Error checking administrator access:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to check administrator access',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  };
+};
+
+/**
+ * Limit API key requests to the key's scopes: readScope for GET and HEAD,
+ * writeScope for everything else. User sessions are not limited by scope.
+ */
+export const requireScope = (readScope: ApiKeyScope, writeScope: ApiKeyScope = readScope) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.apiKey) {
+      next();
+      return;
+    }
+
+    const scope = req.method === 'GET' || req.method === 'HEAD' ? readScope : writeScope;
+    if (!req.apiKey.scopes.includes(scope)) {
+      res.status(403).json({
+        success: false,
+        message: `This API key does not have the ${scope} scope`
+      });
+      return;
+    }
+    next();
+  };
+};
+
+/**
+ * Route param handler that 404s stock IDs outside the signed-in user's
+ * portfolios, so other users' holdings are indistinguishable from missing
+ * ones, and 403s anything but reads for viewers of the stock's portfolio
+ */
+export const authorizeStock = async (req: Request, res: Response, next: NextFunction, stockId: string) => {
+  try {
+    const role = await PortfolioService.getStockRole(stockId, req.user.id);
+    if (!role) {
+      res.status(404).json({
+        success: false,
+        message: `Stock with ID ${stockId} not found`
+      });
+      return;
+    }
+
+    if (req.method !== 'GET' && req.method !== 'HEAD' && !MembershipService.hasRole(role, 'EDITOR')) {
+      res.status(403).json({
+        success: false,
+        message: 'You have read-only access to this portfolio'
+      });
+      return;
+    }
+    next();
+  } catch (error) {
+    logger.error(`Error checking ownership of stock ${stockId}:`, error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch stock',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
@@ -0,0 +1,41 @@
+import { Request } from 'express';
+import rateLimit from 'express-rate-limit';
+
+const WINDOW_MS = 15 * 60 * 1000; // 15 minutes
+const FAILED_API_KEY_LIMIT = 20;
+
+/**
+ * Limit requests carrying an X-API-Key per IP, counting only those rejected
+ * as unknown or revoked, so keys cannot be guessed without throttling.
+ * Runs before identifyApiKey, which looks each key up in the database.
+ */
+export const createApiKeyLookupLimiter = (failedLimit: number = FAILED_API_KEY_LIMIT) => rateLimit({
+  windowMs: WINDOW_MS,
+  max: failedLimit,
+  keyGenerator: (req: Request) => rateLimit.ipKeyGenerator(req.ip),
+  skip: (req: Request) => !req.headers['x-api-key'],
+  skipSuccessfulRequests: true,
+  requestWasSuccessful: (req: Request, res: any) => res.statusCode !== 401,
+  message: {
+    success: false,
+    error: 'Too many invalid API keys from this IP, please try again later.'
+  }
+});
+
+/**
+ * Rate limit API key requests by key, each to its own limit per window.
+ * Other requests are limited per IP to ipLimit, or not at all without one.
+ * Runs after identifyApiKey so req.apiKey is known.
+ */
+export const createRateLimiter = (ipLimit?: number) => rateLimit({
+  windowMs: WINDOW_MS,
+  max: (req: Request) => (req.apiKey ? req.apiKey.rateLimit : ipLimit),
+  keyGenerator: (req: Request) => (req.apiKey ? `api-key:${req.apiKey.id}` : rateLimit.ipKeyGenerator(req.ip)),
+  skip: (req: Request) => !req.apiKey && ipLimit === undefined,
+  message: (req: Request) => ({
+    success: false,
+    error: req.apiKey
+      ? 'Rate limit exceeded for this API key, please try again later.'
+      : 'Too many requests from this IP, please try again later.'
+  })
+});
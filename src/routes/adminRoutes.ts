@@ -0,0 +1,27 @@
+const express = require('express');
+import CorporateActionController from '../controllers/corporateActionController';
+import { MarketController } from '../controllers/marketController';
+import { requireAdmin, requireScope } from '../middleware/auth';
+
+const router = express.Router();
+const portfolioScope = requireScope('read:portfolio', 'write:stocks');
+const corporateActionAdmin = requireAdmin('admin:corporate-actions');
+const schedulerAdmin = requireAdmin('admin:scheduler');
+
+// Corporate actions (splits, bonus issues, consolidations, symbol changes)
+router.get('/corporate-actions', portfolioScope, CorporateActionController.getActions);
+
+// Apply a corporate action (?dryRun=true previews the adjustment without writing); administrators only, on stocks they can edit
+router.post('/corporate-actions', corporateActionAdmin, CorporateActionController.applyAction);
+
+// Revert a corporate action
+router.delete('/corporate-actions/:actionId', corporateActionAdmin, CorporateActionController.revertAction);
+
+// Price update scheduler (polls held symbols while their exchange is open); it serves every user, so administrators only
+router.get('/price-scheduler', schedulerAdmin, MarketController.getSchedulerStatus);
+
+// Pause or resume scheduled price updates
+router.post('/price-scheduler/pause', schedulerAdmin, MarketController.pauseScheduler);
+router.post('/price-scheduler/resume', schedulerAdmin, MarketController.resumeScheduler);
+
+export default router;
\ No newline at end of file
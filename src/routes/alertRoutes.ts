@@ -0,0 +1,23 @@
+const express = require('express');
+import AlertController from '../controllers/alertController';
+
+const router = express.Router();
+
+// List alerts (?stockId=, ?active=true|false)
+router.get('/', AlertController.getAlerts);
+
+// Create an alert on a holding
+router.post('/', AlertController.createAlert);
+
+// Trigger history across all alerts (?limit=)
+router.get('/triggers', AlertController.getTriggers);
+
+// Get, update or delete an alert
+router.get('/:alertId', AlertController.getAlert);
+router.put('/:alertId', AlertController.updateAlert);
+router.delete('/:alertId', AlertController.deleteAlert);
+
+// Trigger history for one alert (?limit=)
+router.get('/:alertId/triggers', AlertController.getTriggers);
+
+export default router;
\ No newline at end of file
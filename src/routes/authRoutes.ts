@@ -0,0 +1,28 @@
+const express = require('express');
+import AuthController from '../controllers/authController';
+import ApiKeyController from '../controllers/apiKeyController';
+import { authenticate } from '../middleware/auth';
+
+const router = express.Router();
+
+// Create an account
+router.post('/register', AuthController.register);
+
+// Sign in with email and password
+router.post('/login', AuthController.login);
+
+// Exchange a refresh token for a new token pair
+router.post('/refresh', AuthController.refresh);
+
+// Revoke a refresh token
+router.post('/logout', AuthController.logout);
+
+// Signed-in user
+router.get('/me', authenticate, AuthController.getCurrentUser);
+
+// API keys for machine clients (sent as X-API-Key)
+router.get('/api-keys', authenticate, ApiKeyController.getKeys);
+router.post('/api-keys', authenticate, ApiKeyController.createKey);
+router.delete('/api-keys/:keyId', authenticate, ApiKeyController.revokeKey);
+
+export default router;
\ No newline at end of file
@@ -1,5 +1,6 @@
 const express = require('express');
 import { MarketController } from '../controllers/marketController';
+import { authenticate, requireScope } from '../middleware/auth';
 
 const router = express.Router();
 
@@ -17,9 +18,12 @@ router.get('/suggestions', MarketController.getPopularStocks);
 // GET /api/market/info - Get all exchanges, sectors, and market stats
 router.get('/info', MarketController.getMarketInfo);
 
-// GET /api/market/status - Get market service status
+// GET /api/market/status - Get market service status and whether each exchange is open
 router.get('/status', MarketController.getServiceStatus);
 
+// GET /api/market/calendar?exchange=NSE&from=2026-01-01&to=2026-01-31 - Trading days, sessions and holidays
+router.get('/calendar', MarketController.getCalendar);
+
 // Live Market Data
 // GET /api/market/price/:symbol - Get current price for symbol
 router.get('/price/:symbol', MarketController.getCurrentPrice);
@@ -27,12 +31,15 @@ router.get('/price/:symbol', MarketController.getCurrentPrice);
 // GET /api/market/data/:symbol - Get detailed market data for symbol
 router.get('/data/:symbol', MarketController.getMarketData);
 
+// POST /api/market/batch - Get market data for up to 50 symbols ({ "symbols": [...], "exchange": "NSE" })
+router.post('/batch', MarketController.getBatchMarketData);
+
 // Price Updates
 // POST /api/market/update - Update all stock prices
-router.post('/update', MarketController.updateAllPrices);
+router.post('/update', authenticate, requireScope('write:stocks'), MarketController.updateAllPrices);
 
 // POST /api/market/update/:stockId - Update specific stock price
-router.post('/update/:stockId', MarketController.updateStockPrice);
+router.post('/update/:stockId', authenticate, requireScope('write:stocks'), MarketController.updateStockPrice);
 
 // Legacy endpoint (for backward compatibility)
 router.get('/popular', MarketController.getPopularStocks);
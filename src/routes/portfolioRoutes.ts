@@ -9,12 +9,37 @@ router.get('/', PortfolioController.getPortfolioSummary);
 // Portfolio summary endpoint
 router.get('/summary', PortfolioController.getPortfolioSummary);
 
+// Live valuation stream (Server-Sent Events; resumes from Last-Event-ID)
+router.get('/stream', PortfolioController.streamPortfolio);
+
 // Sector summary endpoint
 router.get('/sectors', PortfolioController.getSectorSummary);
 
 // Portfolio metrics endpoint
 router.get('/metrics', PortfolioController.getPortfolioMetrics);
 
+// Portfolio value history endpoint (?from=&to=&interval=day|week|month)
+router.get('/history', PortfolioController.getPortfolioHistory);
+
+// TWR and XIRR returns endpoint (?period=1M|3M|YTD|1Y|SINCE_INCEPTION, default all)
+router.get('/performance', PortfolioController.getPerformance);
+
+// Dividend income and forward yield endpoint
+router.get('/dividends', PortfolioController.getDividends);
+
+// Open tax lots endpoint (optional ?method= preview)
+router.get('/lots', PortfolioController.getLots);
+
+// Realized gain/loss report endpoint (?from=YYYY-MM-DD&to=YYYY-MM-DD)
+router.get('/realized', PortfolioController.getRealizedGains);
+
+// Indian capital gains tax report (?financialYear=2023-24&format=json|csv)
+router.get('/tax/capital-gains', PortfolioController.getCapitalGainsTaxReport);
+
+// Portfolio settings (lot matching method)
+router.get('/settings', PortfolioController.getSettings);
+router.put('/settings', PortfolioController.updateSettings);
+
 // Update stock prices endpoint
 router.put('/prices', PortfolioController.updateAllStockPrices);
 
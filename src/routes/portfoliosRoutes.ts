@@ -0,0 +1,56 @@
+const express = require('express');
+import PortfolioController from '../controllers/portfolioController';
+import StockController from '../controllers/stockController';
+
+const router = express.Router();
+
+// Portfolio management endpoints
+router.get('/', PortfolioController.getPortfolios);
+router.post('/', PortfolioController.createPortfolio);
+router.get('/:portfolioId', PortfolioController.getPortfolio);
+router.put('/:portfolioId', PortfolioController.updatePortfolio);
+router.delete('/:portfolioId', PortfolioController.deletePortfolio);
+
+// Per-portfolio views; use "all" as :portfolioId for the consolidated view
+
+// Portfolio summary endpoint (consolidated view adds a per-portfolio breakdown)
+router.get('/:portfolioId/summary', PortfolioController.getPortfolioSummary);
+
+// Live valuation stream (Server-Sent Events; resumes from Last-Event-ID)
+router.get('/:portfolioId/stream', PortfolioController.streamPortfolio);
+
+// Sector summary endpoint
+router.get('/:portfolioId/sectors', PortfolioController.getSectorSummary);
+
+// Portfolio metrics endpoint
+router.get('/:portfolioId/metrics', PortfolioController.getPortfolioMetrics);
+
+// Portfolio value history endpoint (?from=&to=&interval=day|week|month)
+router.get('/:portfolioId/history', PortfolioController.getPortfolioHistory);
+
+// TWR and XIRR returns endpoint (?period=1M|3M|YTD|1Y|SINCE_INCEPTION, default all)
+router.get('/:portfolioId/performance', PortfolioController.getPerformance);
+
+// Dividend income and forward yield endpoint
+router.get('/:portfolioId/dividends', PortfolioController.getDividends);
+
+// Open tax lots endpoint (optional ?method= preview)
+router.get('/:portfolioId/lots', PortfolioController.getLots);
+
+// Realized gain/loss report endpoint (?from=YYYY-MM-DD&to=YYYY-MM-DD)
+router.get('/:portfolioId/realized', PortfolioController.getRealizedGains);
+
+// Portfolio settings (lot matching method)
+router.get('/:portfolioId/settings', PortfolioController.getSettings);
+router.put('/:portfolioId/settings', PortfolioController.updateSettings);
+
+// Stocks held in the portfolio
+router.get('/:portfolioId/stocks', StockController.getAllStocks);
+router.post('/:portfolioId/stocks', StockController.createStock);
+
+// Sharing: list members, invite or change a member's role (owner), revoke access (owner, or a member leaving)
+router.get('/:portfolioId/members', PortfolioController.getMembers);
+router.post('/:portfolioId/members', PortfolioController.addMember);
+router.delete('/:portfolioId/members/:userId', PortfolioController.removeMember);
+
+export default router;
\ No newline at end of file
@@ -1,8 +1,12 @@
 const express = require('express');
 import StockController from '../controllers/stockController';
+import { authorizeStock } from '../middleware/auth';
 
 const router = express.Router();
 
+// Stock IDs outside the signed-in user's portfolios are not found
+router.param('id', authorizeStock);
+
 // Get all stocks
 router.get('/', StockController.getAllStocks);
 
@@ -24,4 +28,20 @@ router.delete('/:id', StockController.deleteStock);
 // Refresh stock market data
 router.post('/:id/refresh', StockController.refreshStockData);
 
+// Transactions ledger
+router.get('/:id/transactions', StockController.getTransactions);
+router.post('/:id/transactions', StockController.addTransaction);
+router.delete('/:id/transactions/:transactionId', StockController.deleteTransaction);
+
+// Dividend events
+router.get('/:id/dividends', StockController.getDividends);
+router.post('/:id/dividends', StockController.addDividend);
+router.delete('/:id/dividends/:dividendId', StockController.deleteDividend);
+
+// Open tax lots (optional ?method= to preview another matching rule)
+router.get('/:id/lots', StockController.getStockLots);
+
+// 31-Jan-2018 fair market value for LTCG grandfathering
+router.put('/:id/grandfathering', StockController.setGrandfatheringPrice);
+
 export default router;
\ No newline at end of file
@@ -5,8 +5,18 @@ import morgan from 'morgan';
 import dotenv from 'dotenv';
 import { logger, logRequest } from './utils/logger';
 import marketDataService from './services/marketDataService';
+import { priceUpdateService } from './services/priceUpdateService';
+import { portfolioStreamService } from './services/portfolioStreamService';
+import { QuoteSocketController } from './controllers/quoteSocketController';
 import portfolioRoutes from './routes/portfolioRoutes';
 import stockRoutes from './routes/stockRoutes';
+import portfoliosRoutes from './routes/portfoliosRoutes';
+import adminRoutes from './routes/adminRoutes';
+import alertRoutes from './routes/alertRoutes';
+import marketRoutes from './routes/marketRoutes';
+import authRoutes from './routes/authRoutes';
+import { authenticate, identifyApiKey, requireAdmin, requireScope } from './middleware/auth';
+import { createApiKeyLookupLimiter, createRateLimiter } from './middleware/rateLimit';
 import Database from './config/database';
 
 // Load environment variables
@@ -39,6 +49,9 @@ if (process.env.NODE_ENV === 'development') {
   app.use(morgan('dev'));
 }
 
+// Throttle invalid API keys per IP, then identify API key clients and hold each key to its own rate limit
+app.use('/api', createApiKeyLookupLimiter(), identifyApiKey, createRateLimiter());
+
 // Health check endpoint
 app.get('/api/health', async (req, res) => {
   try {
@@ -67,157 +80,20 @@ app.get('/api/health', async (req, res) => {
 });
 
 // API Routes
-app.use('/api/portfolio', portfolioRoutes);
-app.use('/api/stocks', stockRoutes);
-
-// Market data endpoints
-app.get('/api/market/price/:symbol', async (req, res): Promise<void> => {
-  try {
-    const { symbol } = req.params;
-    const { exchange = 'NSE' } = req.query;
-    
-    if (!symbol) {
-      res.status(400).json({
-        success: false,
-        message: 'Symbol is required'
-      });
-      return;
-    }
-
-    logger.info(`Fetching current price for ${symbol}`);
-    
-    const price = await marketDataService.getCurrentPrice(symbol, exchange as string);
-    
-    if (price === null) {
-      res.status(404).json({
-        success: false,
-        message: `Price data not found for symbol: ${symbol}`
-      });
-      return;
-    }
-
-    res.json({
-      success: true,
-      data: {
-        symbol,
-        price,
-        exchange,
-        timestamp: new Date().toISOString()
-      }
-    });
-  } catch (error) {
-    logger.error(`Error fetching price for ${req.params.symbol}:`, error);
-    res.status(500).json({
-      success: false,
-      message: 'Failed to fetch price data',
-      error: error instanceof Error ? error.message : 'Unknown error'
-    });
-  }
-});
-
-app.get('/api/market/data/:symbol', async (req, res): Promise<void> => {
-  try {
-    const { symbol } = req.params;
-    const { exchange = 'NSE', forceRefresh = 'false' } = req.query;
-    
-    if (!symbol) {
-      res.status(400).json({
-        success: false,
-        message: 'Symbol is required'
-      });
-      return;
-    }
-
-    logger.info(`Fetching market data for ${symbol}`);
-    
-    const marketData = await marketDataService.getMarketData(
-      symbol, 
-      exchange as string, 
-      forceRefresh === 'true'
-    );
-    
-    if (!marketData) {
-      res.status(404).json({
-        success: false,
-        message: `Market data not found for symbol: ${symbol}`
-      });
-      return;
-    }
-
-    res.json({
-      success: true,
-      data: marketData
-    });
-  } catch (error) {
-    logger.error(`Error fetching market data for ${req.params.symbol}:`, error);
-    res.status(500).json({
-      success: false,
-      message: 'Failed to fetch market data',
-      error: error instanceof Error ? error.message : 'Unknown error'
-    });
-  }
-});
-
-app.post('/api/market/batch', async (req, res): Promise<void> => {
-  try {
-    const { symbols, exchange = 'NSE' } = req.body;
-    
-    if (!symbols || !Array.isArray(symbols) || symbols.length === 0) {
-      res.status(400).json({
-        success: false,
-        message: 'Symbols array is required and must not be empty'
-      });
-      return;
-    }
-
-    if (symbols.length > 50) {
-      res.status(400).json({
-        success: false,
-        message: 'Maximum 50 symbols allowed per batch request'
-      });
-      return;
-    }
-
-    logger.info(`Fetching batch market data for ${symbols.length} symbols`);
-    
-    const batchData = await marketDataService.getBatchMarketData(symbols, exchange);
-    
-    // Transform the data to include success/failure status for each symbol
-    const results = Object.entries(batchData).map(([symbol, data]) => ({
-      symbol,
-      success: data !== null,
-      data: data || undefined,
-      error: data === null ? 'Market data not available' : undefined
-    }));
-
-    const successCount = results.filter(r => r.success).length;
-    
-    res.json({
-      success: true,
-      data: {
-        results,
-        summary: {
-          total: symbols.length,
-          successful: successCount,
-          failed: symbols.length - successCount,
-          successRate: `${((successCount / symbols.length) * 100).toFixed(1)}%`
-        }
-      }
-    });
-  } catch (error) {
-    logger.error('Error in batch market data request:', error);
-    res.status(500).json({
-      success: false,
-      message: 'Failed to fetch batch market data',
-      error: error instanceof Error ? error.message : 'Unknown error'
-    });
-  }
-});
+app.use('/api/auth', authRoutes);
+app.use('/api/portfolio', authenticate, requireScope('read:portfolio', 'write:stocks'), portfolioRoutes);
+app.use('/api/stocks', authenticate, requireScope('read:portfolio', 'write:stocks'), stockRoutes);
+app.use('/api/portfolios', authenticate, requireScope('read:portfolio', 'write:stocks'), portfoliosRoutes);
+app.use('/api/admin', authenticate, adminRoutes);
+app.use('/api/alerts', authenticate, requireScope('read:portfolio', 'write:stocks'), alertRoutes);
+app.use('/api/market', marketRoutes);
 
 // Cache management endpoints
+app.use('/api/cache', authenticate, requireAdmin('admin:cache'));
+
 app.get('/api/cache/stats', async (req, res): Promise<void> => {
   try {
-    const stats = marketDataService.getCacheStats();
+    const stats = await marketDataService.getCacheStats();
     res.json({
       success: true,
       data: stats
@@ -234,7 +110,7 @@ app.get('/api/cache/stats', async (req, res): Promise<void> => {
 
 app.post('/api/cache/clear', async (req, res): Promise<void> => {
   try {
-    marketDataService.clearCache();
+    await marketDataService.clearCache();
     logger.info('Cache cleared manually');
     res.json({
       success: true,
@@ -315,6 +191,9 @@ const gracefulShutdown = async (signal: string) => {
   logger.info(`Received ${signal}. Starting graceful shutdown...`);
   
   try {
+    priceUpdateService.stop();
+    portfolioStreamService.closeAll();
+    QuoteSocketController.closeAll();
     const serverInstance = await server;
     serverInstance.close(() => {
       logger.info('HTTP server closed');
@@ -367,6 +246,13 @@ const startServer = async () => {
     logger.info(`Health check: http://localhost:${PORT}/api/health`);
     logger.info(`Database status: ${dbInitialized ? 'Connected' : 'Disconnected'}`);
   });
+
+  QuoteSocketController.attach(server);
+
+  // Scheduled price updates need the database for holdings
+  if (dbInitialized) {
+    priceUpdateService.start();
+  }
   
   return server;
 };
@@ -0,0 +1,446 @@
+import Database from '../config/database';
+import {
+  AlertDirection,
+  AlertReading,
+  AlertTrigger,
+  AlertType,
+  PriceAlert,
+  PriceAlertCreateRequest,
+  PriceAlertUpdateRequest
+} from '../types/stock';
+import { logger } from '../utils/logger';
+import { isUuid } from '../utils/uuid';
+import { currencyForExchange, toCanonicalSymbol } from '../utils/symbols';
+
+export const ALERT_TYPES: AlertType[] = ['PRICE', 'DAY_CHANGE', 'GAIN_LOSS'];
+export const ALERT_DIRECTIONS: AlertDirection[] = ['ABOVE', 'BELOW'];
+
+const DEFAULT_COOLDOWN_MINUTES = 60;
+const MAX_COOLDOWN_MINUTES = 30 * 24 * 60; // 30 days
+const MAX_NOTE_LENGTH = 500;
+const DEFAULT_TRIGGER_LIMIT = 50;
+const MAX_TRIGGER_LIMIT = 500;
+
+const ALERT_COLUMNS = `
+  a.id,
+  a.stock_id,
+  s.stock_name,
+  s.symbol,
+  s.stock_exchange_code,
+  a.alert_type,
+  a.direction,
+  a.threshold,
+  a.recurring,
+  a.cooldown_minutes,
+  a.active,
+  a.note,
+  a.trigger_count,
+  a.last_triggered_at,
+  a.created_at,
+  a.updated_at
+`;
+
+const TRIGGER_COLUMNS = `
+  t.id,
+  t.alert_id,
+  a.stock_id,
+  s.stock_name,
+  a.alert_type,
+  a.direction,
+  t.threshold,
+  t.value,
+  t.price,
+  t.message,
+  t.triggered_at
+`;
+
+const UPDATABLE_COLUMNS: Record<keyof PriceAlertUpdateRequest, string> = {
+  type: 'alert_type',
+  direction: 'direction',
+  threshold: 'threshold',
+  recurring: 'recurring',
+  cooldownMinutes: 'cooldown_minutes',
+  active: 'active',
+  note: 'note'
+};
+
+/**
+ * Price alert rules on holdings, evaluated after every price update. An
+ * alert compares the holding's price, the day's % move or its % gain on
+ * cost basis against a threshold. A one-shot alert triggers once and is
+ * deactivated; a recurring alert triggers on every update its condition
+ * holds, at most once per cooldown.
+ */
+export class AlertService {
+  /**
+   * Create an alert for a user. Access to the stock is checked by the caller.
+   */
+  static async createAlert(userId: string, data: PriceAlertCreateRequest): Promise<PriceAlert> {
+    try {
+      const result = await Database.query(`
+        INSERT INTO price_alerts (user_id, stock_id, alert_type, direction, threshold, recurring, cooldown_minutes, note)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+        RETURNING id
+      `, [
+        userId,
+        data.stockId,
+        data.type,
+        data.direction,
+        data.threshold,
+        data.recurring || false,
+        data.cooldownMinutes ?? DEFAULT_COOLDOWN_MINUTES,
+        data.note?.trim() || null
+      ]);
+
+      const alert = await this.getAlert(result.rows[0].id, userId);
+      logger.info(`Price alert ${alert!.id} created for user ${userId}: ${alert!.type} ${alert!.direction} ${alert!.threshold}`);
+      return alert!;
+    } catch (error) {
+      logger.error('Error creating price alert:', error);
+      throw new Error('Failed to create price alert');
+    }
+  }
+
+  /**
+   * Get a user's alerts, newest first, optionally for one stock or only active ones
+   */
+  static async getAlerts(userId: string, filters: { stockId?: string; active?: boolean } = {}): Promise<PriceAlert[]> {
+    if (filters.stockId && !isUuid(filters.stockId)) {
+      return [];
+    }
+
+    try {
+      const result = await Database.query(`
+        SELECT ${ALERT_COLUMNS}
+        FROM price_alerts a
+        JOIN stocks s ON s.id = a.stock_id
+        WHERE a.user_id = $1
+          AND ($2::uuid IS NULL OR a.stock_id = $2::uuid)
+          AND ($3::boolean IS NULL OR a.active = $3::boolean)
+        ORDER BY a.created_at DESC
+      `, [userId, filters.stockId || null, filters.active ?? null]);
+
+      return result.rows.map((row: any) => this.mapAlertRow(row));
+    } catch (error) {
+      logger.error(`Error fetching price alerts for user ${userId}:`, error);
+      throw new Error('Failed to fetch price alerts');
+    }
+  }
+
+  /**
+   * Get one of a user's alerts, or null if they have no such alert
+   */
+  static async getAlert(id: string, userId: string): Promise<PriceAlert | null> {
+    if (!isUuid(id)) {
+      return null;
+    }
+
+    try {
+      const result = await Database.query(`
+        SELECT ${ALERT_COLUMNS}
+        FROM price_alerts a
+        JOIN stocks s ON s.id = a.stock_id
+        WHERE a.id = $1 AND a.user_id = $2
+      `, [id, userId]);
+
+      return result.rows.length > 0 ? this.mapAlertRow(result.rows[0]) : null;
+    } catch (error) {
+      logger.error(`Error fetching price alert ${id}:`, error);
+      throw new Error('Failed to fetch price alert');
+    }
+  }
+
+  /**
+   * Change an alert's rule, cooldown or note, or (re)activate it. Returns
+   * null if the user has no such alert.
+   */
+  static async updateAlert(id: string, userId: string, data: PriceAlertUpdateRequest): Promise<PriceAlert | null> {
+    if (!isUuid(id)) {
+      return null;
+    }
+
+    const fields = (Object.keys(UPDATABLE_COLUMNS) as Array<keyof PriceAlertUpdateRequest>).filter(field => data[field] !== undefined);
+    if (fields.length === 0) {
+      return this.getAlert(id, userId);
+    }
+
+    try {
+      const assignments = fields.map((field, index) => `${UPDATABLE_COLUMNS[field]} = $${index + 3}`);
+      const values = fields.map(field => (field === 'note' ? (data.note as string).trim() || null : data[field]));
+
+      const result = await Database.query(
+        `UPDATE price_alerts SET ${assignments.join(', ')} WHERE id = $1 AND user_id = $2`,
+        [id, userId, ...values]
+      );
+
+      return result.rowCount > 0 ? this.getAlert(id, userId) : null;
+    } catch (error) {
+      logger.error(`Error updating price alert ${id}:`, error);
+      throw new Error('Failed to update price alert');
+    }
+  }
+
+  /**
+   * Delete an alert with its trigger history
+   */
+  static async deleteAlert(id: string, userId: string): Promise<boolean> {
+    if (!isUuid(id)) {
+      return false;
+    }
+
+    try {
+      const result = await Database.query(
+        'DELETE FROM price_alerts WHERE id = $1 AND user_id = $2',
+        [id, userId]
+      );
+
+      return result.rowCount > 0;
+    } catch (error) {
+      logger.error(`Error deleting price alert ${id}:`, error);
+      throw new Error('Failed to delete price alert');
+    }
+  }
+
+  /**
+   * Get a user's trigger history, newest first, optionally for one alert
+   */
+  static async getTriggers(userId: string, alertId?: string, limit: number = DEFAULT_TRIGGER_LIMIT): Promise<AlertTrigger[]> {
+    try {
+      const result = await Database.query(`
+        SELECT ${TRIGGER_COLUMNS}
+        FROM alert_triggers t
+        JOIN price_alerts a ON a.id = t.alert_id
+        JOIN stocks s ON s.id = a.stock_id
+        WHERE a.user_id = $1 AND ($2::uuid IS NULL OR t.alert_id = $2::uuid)
+        ORDER BY t.triggered_at DESC
+        LIMIT $3
+      `, [userId, alertId || null, limit]);
+
+      return result.rows.map((row: any) => this.mapTriggerRow(row));
+    } catch (error) {
+      logger.error(`Error fetching alert triggers for user ${userId}:`, error);
+      throw new Error('Failed to fetch alert triggers');
+    }
+  }
+
+  /**
+   * Evaluate active alerts on the stocks just priced and record the ones
+   * that trigger. Alerts on stocks their owner can no longer see are skipped.
+   */
+  static async evaluateAlerts(readings: AlertReading[]): Promise<Array<{ userId: string; trigger: AlertTrigger }>> {
+    if (readings.length === 0) {
+      return [];
+    }
+
+    const readingsByStock = new Map(readings.map(reading => [reading.stockId, reading]));
+
+    try {
+      const triggered = await Database.transaction(async (client) => {
+        // Lock the alerts so overlapping updates cannot trigger one twice
+        const result = await client.query(`
+          SELECT a.user_id, ${ALERT_COLUMNS}
+          FROM price_alerts a
+          JOIN stocks s ON s.id = a.stock_id
+          JOIN portfolios p ON p.id = s.portfolio_id
+          LEFT JOIN portfolio_members m ON m.portfolio_id = p.id AND m.user_id = a.user_id
+          WHERE a.active AND a.stock_id = ANY($1::uuid[]) AND (p.user_id = a.user_id OR m.user_id IS NOT NULL)
+          FOR UPDATE OF a
+        `, [Array.from(readingsByStock.keys())]);
+
+        const now = Date.now();
+        const fired: Array<{ userId: string; trigger: AlertTrigger }> = [];
+
+        for (const row of result.rows) {
+          const alert = this.mapAlertRow(row);
+          const reading = readingsByStock.get(alert.stockId)!;
+          const value = this.readingValue(alert.type, reading);
+
+          if (value === undefined || !this.isMet(alert, value) || this.isCoolingDown(alert, now)) {
+            continue;
+          }
+
+          const message = this.describeTrigger(alert, value, reading.price);
+          const inserted = await client.query(`
+            INSERT INTO alert_triggers (alert_id, price, value, threshold, message)
+            VALUES ($1, $2, $3, $4, $5)
+            RETURNING id, triggered_at
+          `, [alert.id, reading.price, value, alert.threshold, message]);
+
+          // One-shot alerts are done once they trigger
+          await client.query(`
+            UPDATE price_alerts
+            SET trigger_count = trigger_count + 1, last_triggered_at = $2, active = recurring
+            WHERE id = $1
+          `, [alert.id, inserted.rows[0].triggered_at]);
+
+          fired.push({
+            userId: row.user_id,
+            trigger: {
+              id: inserted.rows[0].id,
+              alertId: alert.id,
+              stockId: alert.stockId,
+              stockName: alert.stockName,
+              type: alert.type,
+              direction: alert.direction,
+              threshold: alert.threshold,
+              value,
+              price: reading.price,
+              message,
+              triggeredAt: inserted.rows[0].triggered_at.toISOString()
+            }
+          });
+        }
+
+        return fired;
+      });
+
+      triggered.forEach(({ userId, trigger }) => logger.info(`🔔 Alert ${trigger.alertId} for user ${userId}: ${trigger.message}`));
+      return triggered;
+    } catch (error) {
+      logger.error('Error evaluating price alerts:', error);
+      throw new Error('Failed to evaluate price alerts');
+    }
+  }
+
+  /**
+   * Validate a new alert, returning an error message if invalid
+   */
+  static validateAlert(data: Partial<PriceAlertCreateRequest>): string | null {
+    if (!data || typeof data.stockId !== 'string' || !isUuid(data.stockId)) {
+      return 'stockId must be the ID of one of your stocks';
+    }
+
+    if (data.type === undefined || data.direction === undefined || data.threshold === undefined) {
+      return 'type, direction and threshold are required';
+    }
+
+    return this.validateUpdate(data);
+  }
+
+  /**
+   * Validate changes to an alert, returning an error message if invalid
+   */
+  static validateUpdate(data: Partial<PriceAlertUpdateRequest>): string | null {
+    if (!data || typeof data !== 'object') {
+      return 'Request body must be an object';
+    }
+
+    if (data.type !== undefined && !ALERT_TYPES.includes(data.type)) {
+      return `type must be one of: ${ALERT_TYPES.join(', ')}`;
+    }
+
+    if (data.direction !== undefined && !ALERT_DIRECTIONS.includes(data.direction)) {
+      return `direction must be one of: ${ALERT_DIRECTIONS.join(', ')}`;
+    }
+
+    if (data.threshold !== undefined && (typeof data.threshold !== 'number' || !Number.isFinite(data.threshold))) {
+      return 'threshold must be a number';
+    }
+
+    if (data.type === 'PRICE' && !(data.threshold > 0)) {
+      return 'A PRICE threshold must be a positive price';
+    }
+
+    if (data.recurring !== undefined && typeof data.recurring !== 'boolean') {
+      return 'recurring must be true or false';
+    }
+
+    if (data.active !== undefined && typeof data.active !== 'boolean') {
+      return 'active must be true or false';
+    }
+
+    if (data.cooldownMinutes !== undefined
+      && (!Number.isInteger(data.cooldownMinutes) || data.cooldownMinutes < 0 || data.cooldownMinutes > MAX_COOLDOWN_MINUTES)) {
+      return `cooldownMinutes must be an integer between 0 and ${MAX_COOLDOWN_MINUTES}`;
+    }
+
+    if (data.note !== undefined && (typeof data.note !== 'string' || data.note.length > MAX_NOTE_LENGTH)) {
+      return `note must be text of at most ${MAX_NOTE_LENGTH} characters`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Clamp a requested history size to what the API serves
+   */
+  static triggerLimit(value?: string): number {
+    const limit = parseInt(value || '', 10);
+    return Number.isInteger(limit) && limit > 0 ? Math.min(limit, MAX_TRIGGER_LIMIT) : DEFAULT_TRIGGER_LIMIT;
+  }
+
+  private static readingValue(type: AlertType, reading: AlertReading): number | undefined {
+    switch (type) {
+      case 'PRICE':
+        return reading.price;
+      case 'DAY_CHANGE':
+        return reading.changePercent;
+      case 'GAIN_LOSS':
+        return reading.gainLossPercent;
+    }
+  }
+
+  private static isMet(alert: PriceAlert, value: number): boolean {
+    return alert.direction === 'ABOVE' ? value >= alert.threshold : value <= alert.threshold;
+  }
+
+  private static isCoolingDown(alert: PriceAlert, now: number): boolean {
+    return alert.lastTriggeredAt !== undefined
+      && now - new Date(alert.lastTriggeredAt).getTime() < alert.cooldownMinutes * 60 * 1000;
+  }
+
+  private static describeTrigger(alert: PriceAlert, value: number, price: number): string {
+    const currency = currencyForExchange(alert.exchange);
+    const name = alert.symbol ? `${alert.stockName} (${toCanonicalSymbol({ exchange: alert.exchange, ticker: alert.symbol })})` : alert.stockName;
+    const direction = alert.direction === 'ABOVE' ? 'at or above' : 'at or below';
+    const percent = (amount: number) => `${amount > 0 ? '+' : ''}${amount.toFixed(2)}%`;
+
+    switch (alert.type) {
+      case 'PRICE':
+        return `${name} is trading at ${currency}${price.toFixed(2)}, ${direction} ${currency}${alert.threshold.toFixed(2)}`;
+      case 'DAY_CHANGE':
+        return `${name} has moved ${percent(value)} today to ${currency}${price.toFixed(2)}, ${direction} ${percent(alert.threshold)}`;
+      case 'GAIN_LOSS':
+        return `${name} is ${percent(value)} on cost basis at ${currency}${price.toFixed(2)}, ${direction} ${percent(alert.threshold)}`;
+    }
+  }
+
+  private static mapAlertRow(row: any): PriceAlert {
+    return {
+      id: row.id,
+      stockId: row.stock_id,
+      stockName: row.stock_name,
+      symbol: row.symbol || undefined,
+      exchange: row.stock_exchange_code,
+      type: row.alert_type,
+      direction: row.direction,
+      threshold: parseFloat(row.threshold),
+      recurring: row.recurring,
+      cooldownMinutes: parseInt(row.cooldown_minutes),
+      active: row.active,
+      note: row.note || undefined,
+      triggerCount: parseInt(row.trigger_count),
+      lastTriggeredAt: row.last_triggered_at?.toISOString() || undefined,
+      createdAt: row.created_at?.toISOString() || new Date().toISOString(),
+      updatedAt: row.updated_at?.toISOString() || new Date().toISOString()
+    };
+  }
+
+  private static mapTriggerRow(row: any): AlertTrigger {
+    return {
+      id: row.id,
+      alertId: row.alert_id,
+      stockId: row.stock_id,
+      stockName: row.stock_name,
+      type: row.alert_type,
+      direction: row.direction,
+      threshold: parseFloat(row.threshold),
+      value: parseFloat(row.value),
+      price: parseFloat(row.price),
+      message: row.message,
+      triggeredAt: row.triggered_at?.toISOString() || new Date().toISOString()
+    };
+  }
+}
+
+export default AlertService;
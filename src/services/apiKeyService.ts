@@ -0,0 +1,179 @@
+import { createHash, randomBytes } from 'crypto';
+import Database from '../config/database';
+import { ApiKey, ApiKeyCreated, ApiKeyCreateRequest, ApiKeyScope } from '../types/stock';
+import { logger } from '../utils/logger';
+import { isUuid } from '../utils/uuid';
+
+/**
+ * read:portfolio covers reading stocks and portfolios, write:stocks covers
+ * changing them, admin:cache covers the market data cache endpoints,
+ * admin:scheduler the price update scheduler and admin:corporate-actions
+ * applying or reverting corporate actions (for administrators' keys)
+ */
+export const API_KEY_SCOPES: ApiKeyScope[] = ['read:portfolio', 'write:stocks', 'admin:cache', 'admin:scheduler', 'admin:corporate-actions'];
+
+const KEY_PREFIX = 'pfk_';
+const DEFAULT_RATE_LIMIT = 1000; // requests per 15 minutes
+const MAX_RATE_LIMIT = 100000;
+
+const API_KEY_COLUMNS = 'id, name, prefix, scopes, rate_limit, last_used_at, revoked_at, created_at';
+
+export interface ApiKeyPrincipal {
+  id: string;
+  userId: string;
+  email: string;
+  scopes: ApiKeyScope[];
+  rateLimit: number;
+}
+
+export class ApiKeyService {
+  /**
+   * Issue a key for a user. The plaintext key is only returned here; just
+   * its hash is stored.
+   */
+  static async createKey(userId: string, data: ApiKeyCreateRequest): Promise<ApiKeyCreated> {
+    const key = KEY_PREFIX + randomBytes(24).toString('base64url');
+
+    try {
+      const result = await Database.query(`
+        INSERT INTO api_keys (user_id, name, prefix, key_hash, scopes, rate_limit)
+        VALUES ($1, $2, $3, $4, $5, $6)
+        RETURNING ${API_KEY_COLUMNS}
+      `, [
+        userId,
+        data.name.trim(),
+        key.slice(0, KEY_PREFIX.length + 8),
+        this.hashKey(key),
+        Array.from(new Set(data.scopes)),
+        data.rateLimit || DEFAULT_RATE_LIMIT
+      ]);
+
+      const apiKey = this.mapApiKeyRow(result.rows[0]);
+      logger.info(`API key ${apiKey.prefix} issued to user ${userId} with scopes ${apiKey.scopes.join(', ')}`);
+      return { apiKey, key };
+    } catch (error) {
+      logger.error('Error creating API key:', error);
+      throw new Error('Failed to create API key');
+    }
+  }
+
+  /**
+   * Get a user's keys, including revoked ones, newest first
+   */
+  static async getKeys(userId: string): Promise<ApiKey[]> {
+    try {
+      const result = await Database.query(
+        `SELECT ${API_KEY_COLUMNS} FROM api_keys WHERE user_id = $1 ORDER BY created_at DESC`,
+        [userId]
+      );
+
+      return result.rows.map((row: any) => this.mapApiKeyRow(row));
+    } catch (error) {
+      logger.error(`Error fetching API keys for user ${userId}:`, error);
+      throw new Error('Failed to fetch API keys');
+    }
+  }
+
+  /**
+   * Revoke one of a user's keys. Returns false if they have no such active key.
+   */
+  static async revokeKey(id: string, userId: string): Promise<boolean> {
+    if (!isUuid(id)) {
+      return false;
+    }
+
+    try {
+      const result = await Database.query(
+        'UPDATE api_keys SET revoked_at = NOW() WHERE id = $1 AND user_id = $2 AND revoked_at IS NULL',
+        [id, userId]
+      );
+
+      return result.rowCount > 0;
+    } catch (error) {
+      logger.error(`Error revoking API key ${id}:`, error);
+      throw new Error('Failed to revoke API key');
+    }
+  }
+
+  /**
+   * Look up an active key and record that it was used. Returns null for
+   * unknown or revoked keys.
+   */
+  static async authenticate(key: string): Promise<ApiKeyPrincipal | null> {
+    if (typeof key !== 'string' || !key.startsWith(KEY_PREFIX)) {
+      return null;
+    }
+
+    try {
+      const result = await Database.query(`
+        UPDATE api_keys k
+        SET last_used_at = NOW()
+        FROM users u
+        WHERE k.key_hash = $1 AND k.revoked_at IS NULL AND u.id = k.user_id
+        RETURNING k.id, k.user_id, u.email, k.scopes, k.rate_limit
+      `, [this.hashKey(key)]);
+
+      if (result.rows.length === 0) {
+        return null;
+      }
+
+      const row = result.rows[0];
+      return {
+        id: row.id,
+        userId: row.user_id,
+        email: row.email,
+        scopes: row.scopes,
+        rateLimit: parseInt(row.rate_limit)
+      };
+    } catch (error) {
+      logger.error('Error authenticating API key:', error);
+      throw new Error('Failed to authenticate API key');
+    }
+  }
+
+  /**
+   * Validate a key request, returning an error message if invalid
+   */
+  static validateKey(data: Partial<ApiKeyCreateRequest>): string | null {
+    if (!data || typeof data.name !== 'string' || data.name.trim().length === 0) {
+      return 'name is required';
+    }
+
+    if (data.name.trim().length > 255) {
+      return 'name must be at most 255 characters';
+    }
+
+    if (!Array.isArray(data.scopes) || data.scopes.length === 0 || data.scopes.some(scope => !API_KEY_SCOPES.includes(scope))) {
+      return `scopes must be a non-empty list of: ${API_KEY_SCOPES.join(', ')}`;
+    }
+
+    if (data.rateLimit !== undefined && (!Number.isInteger(data.rateLimit) || data.rateLimit <= 0 || data.rateLimit > MAX_RATE_LIMIT)) {
+      return `rateLimit must be an integer between 1 and ${MAX_RATE_LIMIT}`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Keys are long random strings, so an unsalted SHA-256 is enough to keep
+   * them unusable if the table leaks while still allowing a direct lookup
+   */
+  private static hashKey(key: string): string {
+    return createHash('sha256').update(key).digest('hex');
+  }
+
+  private static mapApiKeyRow(row: any): ApiKey {
+    return {
+      id: row.id,
+      name: row.name,
+      prefix: row.prefix,
+      scopes: row.scopes,
+      rateLimit: parseInt(row.rate_limit),
+      lastUsedAt: row.last_used_at?.toISOString() || undefined,
+      revokedAt: row.revoked_at?.toISOString() || undefined,
+      createdAt: row.created_at?.toISOString() || new Date().toISOString()
+    };
+  }
+}
+
+export default ApiKeyService;
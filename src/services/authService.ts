@@ -0,0 +1,312 @@
+import { createHmac, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import Database from '../config/database';
+import { AuthSession, AuthTokens, RegisterRequest, User } from '../types/stock';
+import { logger } from '../utils/logger';
+
+const ACCESS_TOKEN_TTL = parseInt(process.env.JWT_ACCESS_TTL || '900', 10); // 15 minutes
+const REFRESH_TOKEN_TTL = parseInt(process.env.JWT_REFRESH_TTL || String(30 * 24 * 60 * 60), 10); // 30 days
+const MIN_PASSWORD_LENGTH = 8;
+const SCRYPT_KEY_LENGTH = 64;
+
+type TokenType = 'access' | 'refresh';
+
+interface TokenPayload {
+  sub: string;
+  email?: string;
+  type: TokenType;
+  jti?: string;
+  iat: number;
+  exp: number;
+}
+
+export class AuthenticationError extends Error {}
+
+export class AuthService {
+  private static secret: string | null = null;
+
+  /**
+   * Create an account and sign it in. The first account registered adopts
+   * portfolios created before accounts existed; any other account starts
+   * with an empty default portfolio. Returns null if the email is taken.
+   */
+  static async register(data: RegisterRequest): Promise<AuthSession | null> {
+    const email = this.normalizeEmail(data.email);
+    const passwordHash = await this.hashPassword(data.password);
+
+    try {
+      const user = await Database.transaction(async (client) => {
+        const result = await client.query(`
+          INSERT INTO users (email, password_hash, name)
+          VALUES ($1, $2, $3)
+          ON CONFLICT (email) DO NOTHING
+          RETURNING id, email, name, created_at, updated_at
+        `, [email, passwordHash, data.name?.trim() || null]);
+
+        if (result.rows.length === 0) {
+          return null;
+        }
+
+        const user = this.mapUserRow(result.rows[0]);
+        const adopted = await client.query('UPDATE portfolios SET user_id = $1 WHERE user_id IS NULL', [user.id]);
+        if (adopted.rowCount === 0) {
+          await client.query("INSERT INTO portfolios (user_id, name) VALUES ($1, 'Default')", [user.id]);
+        } else {
+          logger.info(`User ${user.email} adopted ${adopted.rowCount} existing portfolio(s)`);
+        }
+
+        return user;
+      });
+
+      return user ? { user, tokens: await this.issueTokens(user) } : null;
+    } catch (error) {
+      logger.error('Error registering user:', error);
+      throw new Error('Failed to register user');
+    }
+  }
+
+  /**
+   * Sign in with email and password. Returns null if the credentials are wrong.
+   */
+  static async login(email: string, password: string): Promise<AuthSession | null> {
+    let row: any;
+    try {
+      const result = await Database.query(
+        'SELECT id, email, name, password_hash, created_at, updated_at FROM users WHERE email = $1',
+        [this.normalizeEmail(email)]
+      );
+      row = result.rows[0];
+    } catch (error) {
+      logger.error('Error looking up user:', error);
+      throw new Error('Failed to sign in');
+    }
+
+    // Hash even for unknown emails so response time does not reveal which accounts exist
+    const valid = await this.verifyPassword(password, row?.password_hash || 'scrypt:00:00');
+    if (!row || !valid) {
+      return null;
+    }
+
+    const user = this.mapUserRow(row);
+    return { user, tokens: await this.issueTokens(user) };
+  }
+
+  /**
+   * Exchange a refresh token for a new token pair. The old refresh token is
+   * revoked so each one can only be used once.
+   */
+  static async refresh(refreshToken: string): Promise<AuthTokens> {
+    const payload = this.verifyToken(refreshToken, 'refresh');
+
+    const result = await Database.query(`
+      UPDATE refresh_tokens SET revoked_at = NOW()
+      WHERE id = $1 AND user_id = $2 AND revoked_at IS NULL AND expires_at > NOW()
+      RETURNING user_id
+    `, [payload.jti, payload.sub]);
+
+    if (result.rows.length === 0) {
+      throw new AuthenticationError('Refresh token has been revoked or has expired');
+    }
+
+    const user = await this.getUserById(payload.sub);
+    if (!user) {
+      throw new AuthenticationError('Account no longer exists');
+    }
+
+    return this.issueTokens(user);
+  }
+
+  /**
+   * Revoke a refresh token. Unknown or already revoked tokens are ignored.
+   */
+  static async logout(refreshToken: string): Promise<void> {
+    const payload = this.verifyToken(refreshToken, 'refresh');
+
+    await Database.query(
+      'UPDATE refresh_tokens SET revoked_at = NOW() WHERE id = $1 AND user_id = $2 AND revoked_at IS NULL',
+      [payload.jti, payload.sub]
+    );
+  }
+
+  /**
+   * Verify an access token and return the user it was issued to
+   */
+  static authenticate(accessToken: string): { id: string; email: string } {
+    const payload = this.verifyToken(accessToken, 'access');
+    return { id: payload.sub, email: payload.email };
+  }
+
+  static async getUserById(id: string): Promise<User | null> {
+    try {
+      const result = await Database.query(
+        'SELECT id, email, name, created_at, updated_at FROM users WHERE id = $1',
+        [id]
+      );
+
+      return result.rows.length > 0 ? this.mapUserRow(result.rows[0]) : null;
+    } catch (error) {
+      logger.error(`Error fetching user ${id}:`, error);
+      throw new Error('Failed to fetch user');
+    }
+  }
+
+  /**
+   * Whether an operator has made the user an administrator
+   */
+  static async isAdmin(userId: string): Promise<boolean> {
+    try {
+      const result = await Database.query('SELECT is_admin FROM users WHERE id = $1', [userId]);
+      return result.rows.length > 0 && result.rows[0].is_admin === true;
+    } catch (error) {
+      logger.error(`Error checking administrator rights for user ${userId}:`, error);
+      throw new Error('Failed to check administrator rights');
+    }
+  }
+
+  /**
+   * Validate a registration request, returning an error message if invalid
+   */
+  static validateRegistration(data: Partial<RegisterRequest>): string | null {
+    if (!data || typeof data.email !== 'string' || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(data.email.trim())) {
+      return 'A valid email is required';
+    }
+
+    if (typeof data.password !== 'string' || data.password.length < MIN_PASSWORD_LENGTH) {
+      return `password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+    }
+
+    if (data.name !== undefined && typeof data.name !== 'string') {
+      return 'name must be a string';
+    }
+
+    return null;
+  }
+
+  private static async issueTokens(user: User): Promise<AuthTokens> {
+    const result = await Database.query(`
+      INSERT INTO refresh_tokens (user_id, expires_at)
+      VALUES ($1, NOW() + make_interval(secs => $2))
+      RETURNING id
+    `, [user.id, REFRESH_TOKEN_TTL]);
+
+    return {
+      accessToken: this.signToken({ sub: user.id, email: user.email, type: 'access' }, ACCESS_TOKEN_TTL),
+      refreshToken: this.signToken({ sub: user.id, type: 'refresh', jti: result.rows[0].id }, REFRESH_TOKEN_TTL),
+      tokenType: 'Bearer',
+      expiresIn: ACCESS_TOKEN_TTL
+    };
+  }
+
+  /**
+   * Sign an HS256 JSON Web Token
+   */
+  private static signToken(claims: Omit<TokenPayload, 'iat' | 'exp'>, ttlSeconds: number): string {
+    const now = Math.floor(Date.now() / 1000);
+    const header = this.encode({ alg: 'HS256', typ: 'JWT' });
+    const payload = this.encode({ ...claims, iat: now, exp: now + ttlSeconds });
+
+    return `${header}.${payload}.${this.sign(`${header}.${payload}`)}`;
+  }
+
+  /**
+   * Check a token's signature, expiry and type, throwing AuthenticationError if any fail
+   */
+  private static verifyToken(token: string, type: TokenType): TokenPayload {
+    const parts = typeof token === 'string' ? token.split('.') : [];
+    if (parts.length !== 3) {
+      throw new AuthenticationError('Malformed token');
+    }
+
+    const [header, payload, signature] = parts;
+    const expected = Buffer.from(this.sign(`${header}.${payload}`));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      throw new AuthenticationError('Invalid token signature');
+    }
+
+    let claims: TokenPayload;
+    try {
+      claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    } catch {
+      throw new AuthenticationError('Malformed token');
+    }
+
+    if (claims.type !== type) {
+      throw new AuthenticationError(`Expected a ${type} token`);
+    }
+
+    if (typeof claims.exp !== 'number' || claims.exp <= Math.floor(Date.now() / 1000)) {
+      throw new AuthenticationError('Token has expired');
+    }
+
+    return claims;
+  }
+
+  private static sign(input: string): string {
+    return createHmac('sha256', this.getSecret()).update(input).digest('base64url');
+  }
+
+  private static encode(value: object): string {
+    return Buffer.from(JSON.stringify(value)).toString('base64url');
+  }
+
+  /**
+   * JWT_SECRET is required in production. Elsewhere a random secret is
+   * generated, so tokens stop working when the server restarts.
+   */
+  private static getSecret(): string {
+    if (!this.secret) {
+      if (process.env.JWT_SECRET) {
+        this.secret = process.env.JWT_SECRET;
+      } else if (process.env.NODE_ENV === 'production') {
+        throw new Error('JWT_SECRET must be set in production');
+      } else {
+        logger.warn('JWT_SECRET is not set; using a random secret for this process');
+        this.secret = randomBytes(32).toString('hex');
+      }
+    }
+
+    return this.secret;
+  }
+
+  /**
+   * Hash a password as scrypt:<salt>:<key>, both hex encoded
+   */
+  private static async hashPassword(password: string): Promise<string> {
+    const salt = randomBytes(16);
+    const key = await this.deriveKey(password, salt);
+    return `scrypt:${salt.toString('hex')}:${key.toString('hex')}`;
+  }
+
+  private static async verifyPassword(password: string, stored: string): Promise<boolean> {
+    const [scheme, saltHex, keyHex] = stored.split(':');
+    if (scheme !== 'scrypt' || !saltHex || !keyHex) {
+      return false;
+    }
+
+    const expected = Buffer.from(keyHex, 'hex');
+    const actual = await this.deriveKey(String(password), Buffer.from(saltHex, 'hex'));
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+  }
+
+  private static deriveKey(password: string, salt: Buffer): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      scrypt(password, salt, SCRYPT_KEY_LENGTH, (error, key) => (error ? reject(error) : resolve(key)));
+    });
+  }
+
+  private static normalizeEmail(email: string): string {
+    return String(email || '').trim().toLowerCase();
+  }
+
+  private static mapUserRow(row: any): User {
+    return {
+      id: row.id,
+      email: row.email,
+      name: row.name || undefined,
+      createdAt: row.created_at?.toISOString() || new Date().toISOString(),
+      updatedAt: row.updated_at?.toISOString() || new Date().toISOString()
+    };
+  }
+}
+
+export default AuthService;
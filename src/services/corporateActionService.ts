@@ -0,0 +1,394 @@
+import { PoolClient } from 'pg';
+import Database from '../config/database';
+import {
+  CorporateAction,
+  CorporateActionPreview,
+  CorporateActionRequest,
+  CorporateActionType,
+  LotMethod,
+  Stock,
+  Transaction
+} from '../types/stock';
+import { PortfolioService } from './portfolioService';
+import { TransactionService } from './transactionService';
+import { LotService } from './lotService';
+import { logger } from '../utils/logger';
+import { isUuid } from '../utils/uuid';
+import { parseSymbol } from '../utils/symbols';
+
+export const CORPORATE_ACTION_TYPES: CorporateActionType[] = ['SPLIT', 'BONUS', 'CONSOLIDATION', 'SYMBOL_CHANGE'];
+
+const CORPORATE_ACTION_COLUMNS = `
+  id,
+  stock_id,
+  action_type,
+  to_char(ex_date, 'YYYY-MM-DD') as ex_date,
+  ratio_from,
+  ratio_to,
+  previous_stock_name,
+  new_stock_name,
+  previous_symbol,
+  new_symbol,
+  notes,
+  applied_at
+`;
+
+export class CorporateActionService {
+  /**
+   * Get applied corporate actions, optionally for a single stock and
+   * limited to stocks held in the given portfolios
+   */
+  static async getActions(stockId?: string, portfolioIds?: string[]): Promise<CorporateAction[]> {
+    if (stockId && !isUuid(stockId)) {
+      return [];
+    }
+
+    try {
+      const result = await Database.query(`
+        SELECT ${CORPORATE_ACTION_COLUMNS}
+        FROM corporate_actions
+        WHERE ($1::uuid IS NULL OR stock_id = $1::uuid)
+          AND ($2::uuid[] IS NULL OR stock_id IN (SELECT id FROM stocks WHERE portfolio_id = ANY($2::uuid[])))
+        ORDER BY ex_date ASC, applied_at ASC
+      `, [stockId || null, portfolioIds || null]);
+
+      return result.rows.map((row: any) => this.mapActionRow(row));
+    } catch (error) {
+      logger.error('Error fetching corporate actions:', error);
+      throw new Error('Failed to fetch corporate actions');
+    }
+  }
+
+  static async getActionById(actionId: string): Promise<CorporateAction | null> {
+    if (!isUuid(actionId)) {
+      return null;
+    }
+
+    try {
+      const result = await Database.query(
+        `SELECT ${CORPORATE_ACTION_COLUMNS} FROM corporate_actions WHERE id = $1`,
+        [actionId]
+      );
+
+      return result.rows.length > 0 ? this.mapActionRow(result.rows[0]) : null;
+    } catch (error) {
+      logger.error(`Error fetching corporate action ${actionId}:`, error);
+      throw new Error('Failed to fetch corporate action');
+    }
+  }
+
+  /**
+   * Work out what a corporate action would do to a holding without writing
+   * anything. Returns null if the stock does not exist.
+   */
+  static async preview(request: CorporateActionRequest): Promise<CorporateActionPreview | null> {
+    const [stock, transactions, method] = await Promise.all([
+      PortfolioService.getStockById(request.stockId),
+      TransactionService.getTransactionsByStock(request.stockId),
+      LotService.getLotMethodForStock(request.stockId)
+    ]);
+
+    if (!stock) {
+      return null;
+    }
+
+    return this.buildPreview(stock, transactions, method, request);
+  }
+
+  /**
+   * Apply a corporate action: record it, write the ledger ADJUST that
+   * carries its share change, rename the stock or change its ticker if
+   * needed and resync the derived position, all in one database transaction
+   */
+  static async apply(request: CorporateActionRequest): Promise<{ action: CorporateAction; preview: CorporateActionPreview } | null> {
+    const preview = await this.preview(request);
+    if (!preview) {
+      return null;
+    }
+
+    try {
+      const action = await Database.transaction(async (client) => {
+        const result = await client.query(`
+          INSERT INTO corporate_actions (
+            stock_id, action_type, ex_date, ratio_from, ratio_to, previous_stock_name, new_stock_name,
+            previous_symbol, new_symbol, notes
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+          RETURNING ${CORPORATE_ACTION_COLUMNS}
+        `, [
+          request.stockId,
+          request.type,
+          request.exDate,
+          request.ratioFrom || 1,
+          request.ratioTo || 1,
+          preview.rename ? preview.rename.from : null,
+          preview.rename ? preview.rename.to : null,
+          preview.symbolChange ? preview.symbolChange.from : null,
+          preview.symbolChange ? preview.symbolChange.to : null,
+          request.notes || null
+        ]);
+        const action = this.mapActionRow(result.rows[0]);
+
+        if (preview.shareDelta !== 0) {
+          await client.query(`
+            INSERT INTO transactions (
+              stock_id, transaction_type, transaction_date, price, quantity, notes, corporate_action_id, split_ratio
+            ) VALUES ($1, 'ADJUST', $2, 0, $3, $4, $5, $6)
+          `, [
+            request.stockId,
+            request.exDate,
+            preview.shareDelta,
+            this.describe(action),
+            action.id,
+            request.type === 'BONUS' ? null : action.ratioTo / action.ratioFrom
+          ]);
+        }
+
+        if (preview.rename) {
+          await client.query(
+            'UPDATE stocks SET stock_name = $1, updated_at = NOW() WHERE id = $2',
+            [preview.rename.to, request.stockId]
+          );
+        }
+
+        if (preview.symbolChange) {
+          await this.setSymbol(client, request.stockId, preview.symbolChange.to, preview.rename ? preview.rename.to : preview.stockName);
+        }
+
+        await TransactionService.syncStockPosition(request.stockId, client);
+        return action;
+      });
+
+      logger.info(`Applied ${this.describe(action)} to ${preview.stockName}`);
+      return { action, preview };
+    } catch (error) {
+      logger.error(`Error applying ${request.type} to stock ${request.stockId}:`, error);
+      throw new Error('Failed to apply corporate action');
+    }
+  }
+
+  /**
+   * Undo a corporate action: its ledger ADJUST is removed with it and any
+   * rename or ticker change is reverted. Returns null if the action does not
+   * exist. If the ledger without the ADJUST would sell more shares than it
+   * holds (e.g. post-split shares were sold since), nothing is changed and
+   * the first transaction left short is returned as the shortfall.
+   */
+  static async revert(actionId: string): Promise<{ shortfall: Transaction | null } | null> {
+    if (!isUuid(actionId)) {
+      return null;
+    }
+
+    try {
+      return await Database.transaction(async (client) => {
+        const existing = await client.query(
+          `SELECT ${CORPORATE_ACTION_COLUMNS} FROM corporate_actions WHERE id = $1 FOR UPDATE`,
+          [actionId]
+        );
+
+        if (existing.rows.length === 0) {
+          return null;
+        }
+
+        const action = this.mapActionRow(existing.rows[0]);
+        const transactions = await TransactionService.getTransactionsByStock(action.stockId, client);
+        const shortfall = TransactionService.findShortfall(
+          transactions.filter(transaction => transaction.corporateActionId !== actionId)
+        );
+        if (shortfall) {
+          return { shortfall };
+        }
+
+        await client.query('DELETE FROM corporate_actions WHERE id = $1', [actionId]);
+
+        if (action.previousStockName) {
+          await client.query(
+            'UPDATE stocks SET stock_name = $1, updated_at = NOW() WHERE id = $2',
+            [action.previousStockName, action.stockId]
+          );
+        }
+
+        if (action.newSymbol) {
+          await this.setSymbol(client, action.stockId, action.previousSymbol || null, action.previousStockName);
+        }
+
+        await TransactionService.syncStockPosition(action.stockId, client);
+        return { shortfall: null };
+      });
+    } catch (error) {
+      logger.error(`Error reverting corporate action ${actionId}:`, error);
+      throw new Error('Failed to revert corporate action');
+    }
+  }
+
+  /**
+   * Validate a corporate action request, returning an error message if invalid
+   */
+  static validateAction(data: Partial<CorporateActionRequest>): string | null {
+    if (!data || typeof data.stockId !== 'string' || data.stockId.length === 0) {
+      return 'stockId is required';
+    }
+
+    if (!CORPORATE_ACTION_TYPES.includes(data.type)) {
+      return `type must be one of: ${CORPORATE_ACTION_TYPES.join(', ')}`;
+    }
+
+    if (typeof data.exDate !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(data.exDate) || isNaN(new Date(data.exDate).getTime())) {
+      return 'exDate must be a date in YYYY-MM-DD format';
+    }
+
+    for (const [name, value] of [['ratioFrom', data.ratioFrom], ['ratioTo', data.ratioTo]] as Array<[string, any]>) {
+      if (value !== undefined && (!Number.isInteger(value) || value <= 0)) {
+        return `${name} must be a positive integer`;
+      }
+    }
+
+    const ratioFrom = data.ratioFrom || 1;
+    const ratioTo = data.ratioTo || 1;
+
+    switch (data.type) {
+      case 'SPLIT':
+        if (ratioTo <= ratioFrom) return 'A split needs ratioTo greater than ratioFrom (e.g. 1 -> 5)';
+        break;
+      case 'CONSOLIDATION':
+        if (ratioTo >= ratioFrom) return 'A consolidation needs ratioTo less than ratioFrom (e.g. 10 -> 1)';
+        break;
+      case 'BONUS':
+        if (data.ratioFrom === undefined || data.ratioTo === undefined) {
+          return 'A bonus issue needs ratioTo bonus shares for every ratioFrom held';
+        }
+        break;
+      case 'SYMBOL_CHANGE':
+        if (data.newStockName !== undefined && (typeof data.newStockName !== 'string' || data.newStockName.trim().length === 0)) {
+          return 'newStockName must be a non-empty string';
+        }
+        if (data.newSymbol !== undefined && (typeof data.newSymbol !== 'string' || !/^[A-Za-z0-9&.\-]{1,32}$/.test(data.newSymbol.trim()))) {
+          return 'newSymbol must be a ticker of up to 32 letters, digits, &, . or -';
+        }
+        if (!data.newStockName && !data.newSymbol) {
+          return 'newStockName or newSymbol is required for a symbol change';
+        }
+        break;
+    }
+
+    return null;
+  }
+
+  /**
+   * Share change is measured on the quantity held at the close before the
+   * ex-date. Fractional entitlements are dropped (settled as cash in lieu).
+   */
+  private static buildPreview(
+    stock: Stock,
+    transactions: Transaction[],
+    method: LotMethod,
+    request: CorporateActionRequest
+  ): CorporateActionPreview {
+    const ratioFrom = request.ratioFrom || 1;
+    const ratioTo = request.ratioTo || 1;
+
+    const quantityBefore = transactions
+      .filter(transaction => transaction.transactionDate < request.exDate)
+      .reduce((sum, transaction) => sum + (transaction.type === 'SELL' ? -transaction.quantity : transaction.quantity), 0);
+
+    const entitlement = request.type === 'BONUS'
+      ? quantityBefore * ratioTo / ratioFrom
+      : quantityBefore * ratioTo / ratioFrom - quantityBefore;
+    const shareDelta = Math.floor(entitlement + 1e-9);
+
+    const adjustment: Transaction = {
+      id: 'pending',
+      stockId: stock.id,
+      type: 'ADJUST',
+      transactionDate: request.exDate,
+      price: 0,
+      quantity: shareDelta,
+      fees: 0,
+      corporateActionId: 'pending',
+      splitRatio: request.type === 'BONUS' ? undefined : ratioTo / ratioFrom,
+      createdAt: new Date().toISOString()
+    };
+    const after = shareDelta !== 0 ? [...transactions, adjustment] : transactions;
+    const shortfall = TransactionService.findShortfall(after);
+
+    return {
+      stockId: stock.id,
+      stockName: stock.stockName,
+      type: request.type,
+      exDate: request.exDate,
+      quantityBefore,
+      quantityAfter: quantityBefore + shareDelta,
+      shareDelta,
+      fractionalShares: Math.max(entitlement - shareDelta, 0),
+      conflict: shortfall
+        ? `The transaction on ${shortfall.transactionDate} would take ${stock.stockName} below zero shares after this action`
+        : null,
+      rename: request.type === 'SYMBOL_CHANGE' && request.newStockName && request.newStockName.trim() !== stock.stockName
+        ? { from: stock.stockName, to: request.newStockName.trim() }
+        : null,
+      symbolChange: request.type === 'SYMBOL_CHANGE' && request.newSymbol
+        && parseSymbol(request.newSymbol, stock.stockExchangeCode).ticker !== stock.symbol
+        ? { from: stock.symbol || null, to: parseSymbol(request.newSymbol, stock.stockExchangeCode).ticker }
+        : null,
+      position: {
+        before: TransactionService.calculatePosition(transactions, method),
+        after: TransactionService.calculatePosition(after, method)
+      },
+      lots: {
+        before: LotService.buildLots(transactions, method).openLots,
+        after: LotService.buildLots(after, method).openLots
+      }
+    };
+  }
+
+  /**
+   * Point a stock at a ticker on its exchange, adding the ticker to the
+   * instrument master if it is new
+   */
+  private static async setSymbol(client: PoolClient, stockId: string, ticker: string | null, name?: string): Promise<void> {
+    if (ticker) {
+      await client.query(`
+        INSERT INTO instruments (exchange, ticker, name)
+        SELECT stock_exchange_code, $2, COALESCE($3, stock_name) FROM stocks WHERE id = $1
+        ON CONFLICT (exchange, ticker) DO NOTHING
+      `, [stockId, ticker, name || null]);
+    }
+
+    await client.query(`
+      UPDATE stocks s SET
+        symbol = $2,
+        instrument_id = (SELECT i.id FROM instruments i WHERE i.exchange = s.stock_exchange_code AND i.ticker = $2),
+        updated_at = NOW()
+      WHERE s.id = $1
+    `, [stockId, ticker]);
+  }
+
+  private static describe(action: CorporateAction): string {
+    switch (action.type) {
+      case 'BONUS':
+        return `Bonus ${action.ratioTo}:${action.ratioFrom} (ex ${action.exDate})`;
+      case 'SYMBOL_CHANGE':
+        return `Symbol change to ${[action.newStockName, action.newSymbol].filter(Boolean).join(' / ')} ${action.ratioFrom}->${action.ratioTo} (ex ${action.exDate})`;
+      default:
+        return `${action.type === 'SPLIT' ? 'Split' : 'Consolidation'} ${action.ratioFrom}->${action.ratioTo} (ex ${action.exDate})`;
+    }
+  }
+
+  private static mapActionRow(row: any): CorporateAction {
+    return {
+      id: row.id,
+      stockId: row.stock_id,
+      type: row.action_type,
+      exDate: row.ex_date,
+      ratioFrom: parseInt(row.ratio_from),
+      ratioTo: parseInt(row.ratio_to),
+      previousStockName: row.previous_stock_name || undefined,
+      newStockName: row.new_stock_name || undefined,
+      previousSymbol: row.previous_symbol || undefined,
+      newSymbol: row.new_symbol || undefined,
+      notes: row.notes || undefined,
+      appliedAt: row.applied_at?.toISOString() || new Date().toISOString()
+    };
+  }
+}
+
+export default CorporateActionService;
@@ -0,0 +1,249 @@
+import Database from '../config/database';
+import {
+  Dividend,
+  DividendCreateRequest,
+  DividendPayment,
+  DividendReport,
+  HoldingDividendSummary,
+  Stock,
+  Transaction
+} from '../types/stock';
+import { PortfolioService } from './portfolioService';
+import { TransactionService } from './transactionService';
+import { logger } from '../utils/logger';
+import { isUuid } from '../utils/uuid';
+
+const DIVIDEND_COLUMNS = `
+  id,
+  stock_id,
+  to_char(ex_date, 'YYYY-MM-DD') as ex_date,
+  to_char(pay_date, 'YYYY-MM-DD') as pay_date,
+  amount_per_share,
+  notes,
+  created_at
+`;
+
+export class DividendService {
+  /**
+   * Get dividend events for a stock, oldest ex-date first
+   */
+  static async getDividendsByStock(stockId: string): Promise<Dividend[]> {
+    try {
+      const result = await Database.query(`
+        SELECT ${DIVIDEND_COLUMNS}
+        FROM dividends
+        WHERE stock_id = $1
+        ORDER BY ex_date ASC
+      `, [stockId]);
+
+      return result.rows.map((row: any) => this.mapDividendRow(row));
+    } catch (error) {
+      logger.error(`Error fetching dividends for stock ${stockId}:`, error);
+      throw new Error('Failed to fetch dividends');
+    }
+  }
+
+  /**
+   * Get all dividend events grouped by stock ID, optionally limited to the
+   * stocks of the given portfolios
+   */
+  static async getDividendsGroupedByStock(portfolioIds?: string[]): Promise<Map<string, Dividend[]>> {
+    try {
+      const result = await Database.query(`
+        SELECT ${DIVIDEND_COLUMNS}
+        FROM dividends
+        WHERE ($1::uuid[] IS NULL OR stock_id IN (SELECT id FROM stocks WHERE portfolio_id = ANY($1::uuid[])))
+        ORDER BY ex_date ASC
+      `, [portfolioIds || null]);
+
+      const grouped = new Map<string, Dividend[]>();
+      result.rows.forEach((row: any) => {
+        const dividend = this.mapDividendRow(row);
+        if (!grouped.has(dividend.stockId)) {
+          grouped.set(dividend.stockId, []);
+        }
+        grouped.get(dividend.stockId)!.push(dividend);
+      });
+
+      return grouped;
+    } catch (error) {
+      logger.error('Error fetching dividends:', error);
+      throw new Error('Failed to fetch dividends');
+    }
+  }
+
+  /**
+   * Record a dividend event. Returns null if one already exists for the ex-date.
+   */
+  static async recordDividend(stockId: string, data: DividendCreateRequest): Promise<Dividend | null> {
+    try {
+      const result = await Database.query(`
+        INSERT INTO dividends (stock_id, ex_date, pay_date, amount_per_share, notes)
+        VALUES ($1, $2, $3, $4, $5)
+        ON CONFLICT (stock_id, ex_date) DO NOTHING
+        RETURNING ${DIVIDEND_COLUMNS}
+      `, [stockId, data.exDate, data.payDate || null, data.amountPerShare, data.notes || null]);
+
+      return result.rows.length > 0 ? this.mapDividendRow(result.rows[0]) : null;
+    } catch (error) {
+      logger.error(`Error recording dividend for stock ${stockId}:`, error);
+      throw new Error('Failed to record dividend');
+    }
+  }
+
+  /**
+   * Delete a dividend event
+   */
+  static async deleteDividend(stockId: string, dividendId: string): Promise<boolean> {
+    if (!isUuid(dividendId)) {
+      return false;
+    }
+
+    try {
+      const result = await Database.query(
+        'DELETE FROM dividends WHERE id = $1 AND stock_id = $2',
+        [dividendId, stockId]
+      );
+
+      return result.rowCount > 0;
+    } catch (error) {
+      logger.error(`Error deleting dividend ${dividendId}:`, error);
+      throw new Error('Failed to delete dividend');
+    }
+  }
+
+  /**
+   * Received and pending dividend income plus forward yield for every stock
+   * that is held or has paid out, across every portfolio unless some are given
+   */
+  static async getDividendReport(portfolioIds?: string[]): Promise<DividendReport> {
+    try {
+      const [stocks, ledger, dividends] = await Promise.all([
+        PortfolioService.getAllStocks(portfolioIds),
+        TransactionService.getTransactionsGroupedByStock(portfolioIds),
+        this.getDividendsGroupedByStock(portfolioIds)
+      ]);
+
+      const holdings = stocks
+        .map(stock => this.summarizeHolding(stock, ledger.get(stock.id) || [], dividends.get(stock.id) || []))
+        .filter(summary => summary.quantity > 0 || summary.receivedIncome > 0 || summary.pendingIncome > 0);
+
+      const presentValue = stocks.reduce((sum, stock) => sum + stock.presentValue, 0);
+      const forwardAnnualIncome = holdings.reduce((sum, holding) => sum + holding.forwardAnnualIncome, 0);
+
+      return {
+        totals: {
+          receivedIncome: holdings.reduce((sum, holding) => sum + holding.receivedIncome, 0),
+          pendingIncome: holdings.reduce((sum, holding) => sum + holding.pendingIncome, 0),
+          forwardAnnualIncome,
+          forwardYield: presentValue > 0 ? (forwardAnnualIncome / presentValue) * 100 : 0
+        },
+        holdings
+      };
+    } catch (error) {
+      logger.error('Error building dividend report:', error);
+      throw new Error('Failed to build dividend report');
+    }
+  }
+
+  /**
+   * Entitle each dividend to the shares held at the close before its ex-date
+   */
+  static calculatePayments(transactions: Transaction[], dividends: Dividend[], asOf: string = this.today()): DividendPayment[] {
+    return dividends.map(dividend => {
+      const eligibleQuantity = transactions
+        .filter(transaction => transaction.transactionDate < dividend.exDate)
+        .reduce((sum, transaction) => sum + (transaction.type === 'SELL' ? -transaction.quantity : transaction.quantity), 0);
+      const quantity = Math.max(eligibleQuantity, 0);
+
+      return {
+        ...dividend,
+        eligibleQuantity: quantity,
+        amount: quantity * dividend.amountPerShare,
+        status: (dividend.payDate || dividend.exDate) <= asOf ? 'PAID' : 'PENDING'
+      };
+    });
+  }
+
+  /**
+   * Validate a dividend request, returning an error message if invalid
+   */
+  static validateDividend(data: Partial<DividendCreateRequest>): string | null {
+    const isDate = (value: any) => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(new Date(value).getTime());
+
+    if (!data || !isDate(data.exDate)) {
+      return 'exDate must be a date in YYYY-MM-DD format';
+    }
+
+    if (data.payDate !== undefined && !isDate(data.payDate)) {
+      return 'payDate must be a date in YYYY-MM-DD format';
+    }
+
+    if (data.payDate && data.payDate < data.exDate!) {
+      return 'payDate cannot be before exDate';
+    }
+
+    if (typeof data.amountPerShare !== 'number' || !(data.amountPerShare > 0)) {
+      return 'amountPerShare must be a positive number';
+    }
+
+    return null;
+  }
+
+  /**
+   * Forward yield uses dividends recorded over the trailing 12 months,
+   * falling back to the provider's trailing yield when none are recorded
+   */
+  private static summarizeHolding(stock: Stock, transactions: Transaction[], dividends: Dividend[]): HoldingDividendSummary {
+    const asOf = this.today();
+    const payments = this.calculatePayments(transactions, dividends, asOf);
+
+    const yearAgo = new Date(`${asOf}T00:00:00Z`);
+    yearAgo.setUTCFullYear(yearAgo.getUTCFullYear() - 1);
+    const trailingFrom = yearAgo.toISOString().split('T')[0];
+    const recorded = dividends.filter(dividend => dividend.exDate > trailingFrom && dividend.exDate <= asOf);
+
+    let annualDividendPerShare = 0;
+    let yieldSource: HoldingDividendSummary['yieldSource'] = 'NONE';
+    if (recorded.length > 0) {
+      annualDividendPerShare = recorded.reduce((sum, dividend) => sum + dividend.amountPerShare, 0);
+      yieldSource = 'RECORDED';
+    } else if (stock.dividendYield && stock.dividendYield > 0) {
+      annualDividendPerShare = stock.currentMarketPrice * stock.dividendYield / 100;
+      yieldSource = 'MARKET';
+    }
+
+    return {
+      stockId: stock.id,
+      stockName: stock.stockName,
+      symbol: stock.symbol,
+      sector: stock.sector,
+      quantity: stock.quantity,
+      receivedIncome: payments.filter(payment => payment.status === 'PAID').reduce((sum, payment) => sum + payment.amount, 0),
+      pendingIncome: payments.filter(payment => payment.status === 'PENDING').reduce((sum, payment) => sum + payment.amount, 0),
+      annualDividendPerShare,
+      forwardAnnualIncome: annualDividendPerShare * stock.quantity,
+      forwardYield: stock.currentMarketPrice > 0 ? (annualDividendPerShare / stock.currentMarketPrice) * 100 : 0,
+      yieldSource,
+      payments
+    };
+  }
+
+  private static today(): string {
+    return new Date().toISOString().split('T')[0];
+  }
+
+  private static mapDividendRow(row: any): Dividend {
+    return {
+      id: row.id,
+      stockId: row.stock_id,
+      exDate: row.ex_date,
+      payDate: row.pay_date || null,
+      amountPerShare: parseFloat(row.amount_per_share),
+      notes: row.notes || undefined,
+      createdAt: row.created_at?.toISOString() || new Date().toISOString()
+    };
+  }
+}
+
+export default DividendService;
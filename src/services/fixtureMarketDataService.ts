@@ -0,0 +1,289 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { MarketData, PriceBar } from '../types/stock';
+import { MarketDataProvider } from './marketDataProvider';
+import { logger } from '../utils/logger';
+import { parseSymbol } from '../utils/symbols';
+
+interface FixtureQuote {
+  name?: string;
+  exchange?: string;
+  currentPrice: number;
+  previousClose?: number;
+  peRatio?: number;
+  latestEarnings?: number;
+  dividendYield?: number;
+}
+
+interface WalkState {
+  price: number;
+  random: () => number;
+}
+
+const DEFAULT_FIXTURES_DIR = 'fixtures/market-data';
+const DAILY_VOLATILITY = 0.015; // largest move per random-walk step
+
+/**
+ * Serves market data from local fixture files so the API runs without
+ * internet access:
+ * - quotes.json maps symbols to a quote ({ name, exchange, currentPrice, ... })
+ * - history/<SYMBOL>.csv holds daily bars (date,open,high,low,close,volume)
+ *
+ * History outside a symbol's CSV (or with no CSV) is generated from the
+ * quote. Prices are static unless MARKET_DATA_FIXTURE_SEED is set, in which
+ * case every quote takes a step of a random walk and generated history is a
+ * random walk too. The same seed always gives the same prices.
+ */
+class FixtureMarketDataService implements MarketDataProvider {
+  readonly name = 'fixture';
+  readonly symbolFormat = 'ticker';
+  private quotes: Record<string, FixtureQuote> | null = null;
+  private histories = new Map<string, PriceBar[]>();
+  private walks = new Map<string, WalkState>();
+
+  async getQuote(symbol: string, exchange: string): Promise<MarketData | null> {
+    const key = this.normalizeSymbol(symbol);
+    const quote = this.loadQuotes()[key];
+    if (!quote) {
+      return null;
+    }
+
+    const previousClose = quote.previousClose || quote.currentPrice;
+    const currentPrice = this.nextPrice(key, quote.currentPrice);
+    const change = currentPrice - previousClose;
+
+    return {
+      symbol,
+      currentPrice,
+      change: this.round(change),
+      changePercent: this.round((change / previousClose) * 100),
+      dividendYield: quote.dividendYield,
+      peRatio: quote.peRatio,
+      latestEarnings: quote.latestEarnings,
+      lastUpdated: new Date().toISOString(),
+      source: this.name
+    };
+  }
+
+  async getBatchQuotes(symbols: string[], exchange: string): Promise<Record<string, MarketData | null>> {
+    const results: Record<string, MarketData | null> = {};
+    for (const symbol of symbols) {
+      results[symbol] = await this.getQuote(symbol, exchange);
+    }
+    return results;
+  }
+
+  async getHistory(symbol: string, from: Date, to: Date): Promise<PriceBar[]> {
+    const key = this.normalizeSymbol(symbol);
+    const fromDate = from.toISOString().split('T')[0];
+    const toDate = to.toISOString().split('T')[0];
+
+    const history = this.loadHistory(key).filter(bar => bar.date >= fromDate && bar.date <= toDate);
+    if (history.length > 0) {
+      return history;
+    }
+
+    const quote = this.loadQuotes()[key];
+    return quote ? this.generateHistory(key, quote.currentPrice, from, to) : [];
+  }
+
+  async search(query: string): Promise<string[]> {
+    const needle = query.trim().toUpperCase();
+    if (!needle) {
+      return [];
+    }
+
+    return Object.entries(this.loadQuotes())
+      .filter(([symbol, quote]) => symbol.includes(needle) || (quote.name || '').toUpperCase().includes(needle))
+      .map(([symbol]) => symbol)
+      .slice(0, 5);
+  }
+
+  async isHealthy(): Promise<boolean> {
+    return Object.keys(this.loadQuotes()).length > 0;
+  }
+
+  /**
+   * Forget loaded fixtures and walk positions, e.g. after editing the files
+   */
+  reset(): void {
+    this.quotes = null;
+    this.histories.clear();
+    this.walks.clear();
+  }
+
+  private loadQuotes(): Record<string, FixtureQuote> {
+    if (this.quotes) {
+      return this.quotes;
+    }
+
+    const file = path.join(this.fixturesDir(), 'quotes.json');
+    this.quotes = {};
+
+    try {
+      if (!fs.existsSync(file)) {
+        logger.warn(`No market data fixtures found at ${file}`);
+        return this.quotes;
+      }
+
+      const fixtures = JSON.parse(fs.readFileSync(file, 'utf8'));
+      for (const [symbol, quote] of Object.entries(fixtures) as Array<[string, FixtureQuote]>) {
+        if (quote && typeof quote.currentPrice === 'number' && quote.currentPrice > 0) {
+          this.quotes[this.normalizeSymbol(symbol)] = quote;
+        } else {
+          logger.warn(`Skipping fixture quote for ${symbol}: currentPrice must be a positive number`);
+        }
+      }
+
+      logger.info(`Loaded ${Object.keys(this.quotes).length} fixture quotes from ${file}`);
+    } catch (error) {
+      logger.error(`Error loading market data fixtures from ${file}:`, error);
+    }
+
+    return this.quotes;
+  }
+
+  private loadHistory(symbol: string): PriceBar[] {
+    if (this.histories.has(symbol)) {
+      return this.histories.get(symbol);
+    }
+
+    const file = path.join(this.fixturesDir(), 'history', `${symbol}.csv`);
+    let bars: PriceBar[] = [];
+
+    try {
+      if (fs.existsSync(file)) {
+        bars = this.parseHistoryCsv(fs.readFileSync(file, 'utf8'));
+      }
+    } catch (error) {
+      logger.error(`Error loading price history fixture ${file}:`, error);
+    }
+
+    this.histories.set(symbol, bars);
+    return bars;
+  }
+
+  /**
+   * Parse date,open,high,low,close,volume rows (header required, any column
+   * order; only date and close are mandatory)
+   */
+  private parseHistoryCsv(csv: string): PriceBar[] {
+    const [header, ...rows] = csv.split(/\r?\n/).filter(line => line.trim().length > 0);
+    if (!header) {
+      return [];
+    }
+
+    const columns = header.split(',').map(column => column.trim().toLowerCase());
+    const value = (cells: string[], column: string): number | undefined => {
+      const index = columns.indexOf(column);
+      const parsed = index >= 0 ? parseFloat(cells[index]) : NaN;
+      return isNaN(parsed) ? undefined : parsed;
+    };
+
+    return rows
+      .map(row => {
+        const cells = row.split(',').map(cell => cell.trim());
+        return {
+          date: cells[columns.indexOf('date')],
+          open: value(cells, 'open'),
+          high: value(cells, 'high'),
+          low: value(cells, 'low'),
+          close: value(cells, 'close'),
+          volume: value(cells, 'volume')
+        };
+      })
+      .filter(bar => /^\d{4}-\d{2}-\d{2}$/.test(bar.date || '') && bar.close !== undefined)
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  /**
+   * Weekday bars between from and to. Flat at the fixture price without a
+   * seed; otherwise a random walk that ends at the fixture price.
+   */
+  private generateHistory(symbol: string, price: number, from: Date, to: Date): PriceBar[] {
+    const random = this.seed() !== null ? this.createRandom(`${this.seed()}:${symbol}:history`) : null;
+    const bars: PriceBar[] = [];
+    let close = price;
+
+    const day = new Date(to);
+    while (day >= from) {
+      if (day.getUTCDay() !== 0 && day.getUTCDay() !== 6) {
+        const open = random ? close * (1 + this.step(random)) : close;
+        bars.push({
+          date: day.toISOString().split('T')[0],
+          open: this.round(open),
+          high: this.round(Math.max(open, close)),
+          low: this.round(Math.min(open, close)),
+          close: this.round(close)
+        });
+        close = open;
+      }
+      day.setUTCDate(day.getUTCDate() - 1);
+    }
+
+    return bars.reverse();
+  }
+
+  /**
+   * The fixture price, or the next step of the symbol's random walk when seeded
+   */
+  private nextPrice(symbol: string, price: number): number {
+    const seed = this.seed();
+    if (seed === null) {
+      return price;
+    }
+
+    let walk = this.walks.get(symbol);
+    if (!walk) {
+      walk = { price, random: this.createRandom(`${seed}:${symbol}`) };
+      this.walks.set(symbol, walk);
+    }
+
+    walk.price = this.round(walk.price * (1 + this.step(walk.random)));
+    return walk.price;
+  }
+
+  private step(random: () => number): number {
+    return (random() * 2 - 1) * DAILY_VOLATILITY;
+  }
+
+  /**
+   * mulberry32 seeded from a string hash, so walks are reproducible per seed and symbol
+   */
+  private createRandom(seed: string): () => number {
+    let state = 0;
+    for (let i = 0; i < seed.length; i++) {
+      state = (Math.imul(31, state) + seed.charCodeAt(i)) | 0;
+    }
+
+    return () => {
+      state = (state + 0x6D2B79F5) | 0;
+      let t = Math.imul(state ^ (state >>> 15), 1 | state);
+      t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+  }
+
+  private seed(): string | null {
+    const seed = process.env.MARKET_DATA_FIXTURE_SEED;
+    return seed !== undefined && seed !== '' ? String(seed) : null;
+  }
+
+  private fixturesDir(): string {
+    return path.resolve(process.env.MARKET_DATA_FIXTURES_DIR || DEFAULT_FIXTURES_DIR);
+  }
+
+  /**
+   * Fixtures are keyed by bare ticker: RELIANCE.NS and RELIANCE:BOM both read RELIANCE
+   */
+  private normalizeSymbol(symbol: string): string {
+    return parseSymbol(symbol).ticker;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
+
+export const fixtureMarketDataService = new FixtureMarketDataService();
+export default fixtureMarketDataService;
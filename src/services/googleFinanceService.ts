@@ -1,8 +1,11 @@
 
 import axios from 'axios';
 import * as cheerio from 'cheerio';
-import { MarketData } from '../types/stock';
+import { MarketData, PriceBar } from '../types/stock';
+import { MarketDataProvider } from './marketDataProvider';
+import { CassetteReplayError, withCassette } from '../utils/httpCassette';
 import { logger } from '../utils/logger';
+import { parseSymbol, toProviderSymbol } from '../utils/symbols';
 
 interface GoogleFinanceData {
   symbol: string;
@@ -12,7 +15,9 @@ interface GoogleFinanceData {
   marketCap?: string;
 }
 
-class GoogleFinanceService {
+class GoogleFinanceService implements MarketDataProvider {
+  readonly name = 'google';
+  readonly symbolFormat = 'google';
   private readonly baseUrl = 'https://www.google.com/finance/quote';
   private readonly maxRetries = 3;
   private readonly retryDelay = 2000; // 2 seconds
@@ -126,25 +131,54 @@ class GoogleFinanceService {
     return results;
   }
 
+  /**
+   * MarketDataProvider implementation. The quote page has no price history
+   * or search, so those always come back empty.
+   */
+  async getQuote(symbol: string, exchange = 'NSE'): Promise<MarketData | null> {
+    return this.getMarketData(symbol, exchange);
+  }
+
+  async getBatchQuotes(symbols: string[], exchange = 'NSE'): Promise<Record<string, MarketData | null>> {
+    return this.getBatchMarketData(symbols, exchange);
+  }
+
+  async getHistory(symbol: string, from: Date, to: Date): Promise<PriceBar[]> {
+    return [];
+  }
+
+  async search(query: string): Promise<string[]> {
+    return [];
+  }
+
+  async isHealthy(): Promise<boolean> {
+    return this.isServiceAvailable();
+  }
+
   /**
    * Scrape Google Finance page for stock data
    */
   private async scrapeGoogleFinance(symbol: string, exchange = 'NSE', attempt = 1): Promise<GoogleFinanceData | null> {
     try {
-      const url = `${this.baseUrl}/${symbol}:${exchange}`;
+      // Accepts RELIANCE:NSE as well as a bare ticker listed on the exchange
+      const quoteSymbol = toProviderSymbol(parseSymbol(symbol, exchange), 'google');
+      const url = `${this.baseUrl}/${quoteSymbol}`;
       
       logger.debug(`Scraping Google Finance URL: ${url} (attempt ${attempt})`);
       
-      const response = await axios.get(url, {
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-          'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
-          'Accept-Language': 'en-US,en;q=0.5',
-          'Accept-Encoding': 'gzip, deflate',
-          'Cache-Control': 'no-cache',
-          'Pragma': 'no-cache'
-        },
-        timeout: 10000
+      const response = await withCassette(`google/${quoteSymbol}`, async () => {
+        const { status, statusText, data } = await axios.get(url, {
+          headers: {
+            'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+            'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
+            'Accept-Language': 'en-US,en;q=0.5',
+            'Accept-Encoding': 'gzip, deflate',
+            'Cache-Control': 'no-cache',
+            'Pragma': 'no-cache'
+          },
+          timeout: 10000
+        });
+        return { status, statusText, data };
       });
 
       if (response.status !== 200) {
@@ -200,7 +234,7 @@ class GoogleFinanceService {
       return data.currentPrice ? data : null;
 
     } catch (error) {
-      if (attempt < this.maxRetries) {
+      if (attempt < this.maxRetries && !(error instanceof CassetteReplayError)) {
         logger.warn(`Attempt ${attempt} failed for ${symbol}, retrying in ${this.retryDelay}ms...`);
         await this.delay(this.retryDelay * attempt);
         return this.scrapeGoogleFinance(symbol, exchange, attempt + 1);
@@ -231,24 +265,6 @@ class GoogleFinanceService {
       return false;
     }
   }
-
-  /**
-   * Convert symbol format for different exchanges
-   */
-  private formatSymbolForExchange(symbol: string, exchange: string): string {
-    // Handle different symbol formats for different exchanges
-    switch (exchange.toUpperCase()) {
-      case 'NSE':
-        return symbol.toUpperCase();
-      case 'BSE':
-        return symbol.toUpperCase();
-      case 'NASDAQ':
-      case 'NYSE':
-        return symbol.toUpperCase();
-      default:
-        return symbol.toUpperCase();
-    }
-  }
 }
 
 export const googleFinanceService = new GoogleFinanceService();
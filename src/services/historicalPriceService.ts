@@ -1,5 +1,6 @@
-import { yahooFinanceService } from './yahooFinanceService';
+import { marketDataService } from './marketDataService';
 import { logger } from '../utils/logger';
+import { currencyForExchange, parseSymbol } from '../utils/symbols';
 
 export interface HistoricalPriceData {
   symbol: string;
@@ -15,7 +16,7 @@ class HistoricalPriceService {
   /**
    * Get realistic purchase price using historical data
    */
-  async getRealisticPurchasePrice(symbol: string): Promise<HistoricalPriceData | null> {
+  async getRealisticPurchasePrice(symbol: string, exchange = 'NSE'): Promise<HistoricalPriceData | null> {
     try {
       logger.info(`Getting realistic purchase price for ${symbol}`);
       
@@ -24,11 +25,11 @@ class HistoricalPriceService {
       
       for (const monthsAgo of timePeriodsToTry) {
         try {
-          const historicalPrice = await yahooFinanceService.getHistoricalPrice(symbol, monthsAgo);
+          const historicalPrice = await marketDataService.getHistoricalPrice(symbol, monthsAgo, exchange);
           
           if (historicalPrice && historicalPrice > 0) {
             // Also get current price for comparison
-            const currentPrice = await yahooFinanceService.getCurrentPrice(symbol);
+            const currentPrice = await marketDataService.getCurrentPrice(symbol, exchange);
             
             if (currentPrice) {
               const purchaseDate = new Date();
@@ -39,11 +40,11 @@ class HistoricalPriceService {
                 historicalPrice,
                 currentPrice,
                 purchaseDate: purchaseDate.toISOString().split('T')[0],
-                currency: this.detectCurrency(symbol),
-                source: 'yahoo-historical'
+                currency: this.detectCurrency(symbol, exchange),
+                source: 'historical'
               };
               
-              logger.info(`Found realistic purchase price for ${symbol}: ${this.detectCurrency(symbol)}${historicalPrice} (${monthsAgo} months ago)`);
+              logger.info(`Found realistic purchase price for ${symbol}: ${this.detectCurrency(symbol, exchange)}${historicalPrice} (${monthsAgo} months ago)`);
               return result;
             }
           }
@@ -55,7 +56,7 @@ class HistoricalPriceService {
       
       // Fallback: Use a more realistic calculation if historical data fails
       logger.warn(`No historical data available for ${symbol}, using fallback calculation`);
-      return await this.getFallbackPurchasePrice(symbol);
+      return await this.getFallbackPurchasePrice(symbol, exchange);
       
     } catch (error) {
       logger.error(`Error getting realistic purchase price for ${symbol}:`, error);
@@ -66,9 +67,9 @@ class HistoricalPriceService {
   /**
    * Fallback method when historical data is not available
    */
-  private async getFallbackPurchasePrice(symbol: string): Promise<HistoricalPriceData | null> {
+  private async getFallbackPurchasePrice(symbol: string, exchange: string): Promise<HistoricalPriceData | null> {
     try {
-      const currentPrice = await yahooFinanceService.getCurrentPrice(symbol);
+      const currentPrice = await marketDataService.getCurrentPrice(symbol, exchange);
       
       if (!currentPrice) {
         return null;
@@ -89,11 +90,11 @@ class HistoricalPriceService {
         historicalPrice,
         currentPrice,
         purchaseDate: purchaseDate.toISOString().split('T')[0],
-        currency: this.detectCurrency(symbol),
+        currency: this.detectCurrency(symbol, exchange),
         source: 'calculated-realistic'
       };
       
-      logger.info(`Generated realistic fallback price for ${symbol}: ${this.detectCurrency(symbol)}${historicalPrice.toFixed(2)}`);
+      logger.info(`Generated realistic fallback price for ${symbol}: ${this.detectCurrency(symbol, exchange)}${historicalPrice.toFixed(2)}`);
       return result;
       
     } catch (error) {
@@ -103,26 +104,10 @@ class HistoricalPriceService {
   }
 
   /**
-   * Detect currency based on symbol and exchange
+   * Detect currency from the exchange the symbol is listed on
    */
-  private detectCurrency(symbol: string): string {
-    // Indian stocks (NSE/BSE) use INR
-    if (symbol.includes('.NS') || symbol.includes('.BO')) {
-      return '₹';
-    }
-    
-    // Check if it's an Indian stock symbol
-    const indianStockSymbols = [
-      'RELIANCE', 'TCS', 'HDFCBANK', 'INFY', 'ITC', 'SBIN', 
-      'BHARTIARTL', 'ICICIBANK', 'HINDUNILVR', 'KOTAKBANK'
-    ];
-    
-    if (indianStockSymbols.includes(symbol)) {
-      return '₹';
-    }
-    
-    // Default to USD for international stocks
-    return '$';
+  private detectCurrency(symbol: string, exchange: string): string {
+    return currencyForExchange(parseSymbol(symbol, exchange).exchange);
   }
 
   /**
@@ -142,8 +127,8 @@ class HistoricalPriceService {
   /**
    * Ensure price consistency for Indian stocks
    */
-  async ensureCurrencyConsistency(symbol: string, price: number): Promise<number> {
-    const currency = this.detectCurrency(symbol);
+  async ensureCurrencyConsistency(symbol: string, price: number, exchange = 'NSE'): Promise<number> {
+    const currency = this.detectCurrency(symbol, exchange);
     
     // If it's an Indian stock but price seems to be in USD (< 100), convert it
     if (currency === '₹' && price < 100) {
@@ -157,7 +142,7 @@ class HistoricalPriceService {
   /**
    * Get batch historical prices for multiple symbols
    */
-  async getBatchHistoricalPrices(symbols: string[]): Promise<Record<string, HistoricalPriceData | null>> {
+  async getBatchHistoricalPrices(symbols: string[], exchange = 'NSE'): Promise<Record<string, HistoricalPriceData | null>> {
     logger.info(`Fetching historical prices for ${symbols.length} symbols`);
     
     const results: Record<string, HistoricalPriceData | null> = {};
@@ -165,7 +150,7 @@ class HistoricalPriceService {
     // Process sequentially to avoid overwhelming the API
     for (const symbol of symbols) {
       try {
-        const historicalData = await this.getRealisticPurchasePrice(symbol);
+        const historicalData = await this.getRealisticPurchasePrice(symbol, exchange);
         results[symbol] = historicalData;
         
         // Add delay between requests
@@ -0,0 +1,219 @@
+import Database from '../config/database';
+import { Instrument } from '../types/stock';
+import { stockExchangeService } from './stockExchangeService';
+import { marketDataService } from './marketDataService';
+import { logger } from '../utils/logger';
+import { parseSymbol, toProviderSymbol } from '../utils/symbols';
+
+const INSTRUMENT_COLUMNS = 'id, exchange, ticker, isin, name, sector, created_at, updated_at';
+const SYMBOL_RETRY_HOURS = 1; // wait after the first failed lookup, doubled per failure
+const SYMBOL_RETRY_MAX_DOUBLINGS = 8; // about 10 days
+
+export interface InstrumentLookup {
+  stockName: string;
+  exchange: string;
+  symbol?: string;
+  isin?: string;
+  sector?: string;
+}
+
+export class InstrumentService {
+  /**
+   * Find or create the instrument for a holding. An explicit symbol or ISIN
+   * wins; otherwise the name is matched against the instrument master, then
+   * the exchange listings, then a market data provider search. Returns null
+   * when no ticker can be found for the name.
+   */
+  static async resolve(lookup: InstrumentLookup): Promise<Instrument | null> {
+    const exchange = lookup.exchange.toUpperCase();
+
+    try {
+      if (lookup.symbol) {
+        const ticker = parseSymbol(lookup.symbol, exchange).ticker;
+        return await this.findByTicker(exchange, ticker)
+          || await this.upsert({ exchange, ticker, isin: lookup.isin, name: lookup.stockName, sector: lookup.sector });
+      }
+
+      if (lookup.isin) {
+        const byIsin = await this.findByIsin(exchange, lookup.isin.toUpperCase());
+        if (byIsin) {
+          return byIsin;
+        }
+      }
+
+      const byName = await this.findByName(exchange, lookup.stockName);
+      if (byName) {
+        return byName;
+      }
+
+      const listing = await this.lookupListing(lookup.stockName, exchange);
+      if (!listing) {
+        logger.warn(`Could not resolve a ticker for ${lookup.stockName} on ${exchange}`);
+        return null;
+      }
+
+      return await this.upsert({
+        exchange,
+        ticker: listing.ticker,
+        isin: lookup.isin || listing.isin,
+        name: listing.name || lookup.stockName,
+        sector: lookup.sector || listing.sector
+      });
+    } catch (error) {
+      logger.error(`Error resolving instrument for ${lookup.stockName}:`, error);
+      throw new Error('Failed to resolve instrument');
+    }
+  }
+
+  static async findByTicker(exchange: string, ticker: string): Promise<Instrument | null> {
+    const result = await Database.query(
+      `SELECT ${INSTRUMENT_COLUMNS} FROM instruments WHERE exchange = $1 AND ticker = $2`,
+      [exchange.toUpperCase(), ticker.toUpperCase()]
+    );
+    return result.rows.length > 0 ? this.mapInstrumentRow(result.rows[0]) : null;
+  }
+
+  static async findByIsin(exchange: string, isin: string): Promise<Instrument | null> {
+    const result = await Database.query(
+      `SELECT ${INSTRUMENT_COLUMNS} FROM instruments WHERE exchange = $1 AND isin = $2`,
+      [exchange.toUpperCase(), isin.toUpperCase()]
+    );
+    return result.rows.length > 0 ? this.mapInstrumentRow(result.rows[0]) : null;
+  }
+
+  /**
+   * Insert an instrument, or fill in the ISIN and sector of an existing one
+   */
+  static async upsert(data: { exchange: string; ticker: string; name: string; isin?: string; sector?: string }): Promise<Instrument> {
+    const result = await Database.query(`
+      INSERT INTO instruments (exchange, ticker, isin, name, sector)
+      VALUES ($1, $2, $3, $4, $5)
+      ON CONFLICT (exchange, ticker) DO UPDATE SET
+        isin = COALESCE(instruments.isin, EXCLUDED.isin),
+        sector = COALESCE(instruments.sector, EXCLUDED.sector)
+      RETURNING ${INSTRUMENT_COLUMNS}
+    `, [
+      data.exchange.toUpperCase(),
+      data.ticker.toUpperCase(),
+      data.isin ? data.isin.toUpperCase() : null,
+      data.name,
+      data.sector || null
+    ]);
+
+    return this.mapInstrumentRow(result.rows[0]);
+  }
+
+  /**
+   * Resolve symbols for holdings created before the symbol column existed.
+   * Returns how many were resolved; the rest stay NULL, and a failed
+   * holding is skipped until its backoff has passed.
+   */
+  static async assignMissingSymbols(): Promise<number> {
+    try {
+      const result = await Database.query(`
+        SELECT id, stock_name, stock_exchange_code, sector
+        FROM stocks
+        WHERE symbol IS NULL
+          AND (symbol_lookup_failed_at IS NULL
+            OR symbol_lookup_failed_at + INTERVAL '1 hour' * $1 * POWER(2, LEAST(symbol_lookup_attempts - 1, $2)) <= NOW())
+      `, [SYMBOL_RETRY_HOURS, SYMBOL_RETRY_MAX_DOUBLINGS]);
+
+      let resolved = 0;
+      for (const row of result.rows) {
+        let instrument: Instrument | null = null;
+        try {
+          instrument = await this.resolve({
+            stockName: row.stock_name,
+            exchange: row.stock_exchange_code,
+            sector: row.sector
+          });
+        } catch (error) {
+          logger.warn(`Could not resolve a symbol for ${row.stock_name}:`, error);
+        }
+
+        if (instrument) {
+          await Database.query(
+            'UPDATE stocks SET symbol = $1, instrument_id = $2, updated_at = NOW() WHERE id = $3',
+            [instrument.ticker, instrument.id, row.id]
+          );
+          resolved++;
+        } else {
+          await Database.query(
+            'UPDATE stocks SET symbol_lookup_attempts = symbol_lookup_attempts + 1, symbol_lookup_failed_at = NOW() WHERE id = $1',
+            [row.id]
+          );
+        }
+      }
+
+      if (result.rows.length > 0) {
+        logger.info(`Resolved symbols for ${resolved}/${result.rows.length} holdings without one`);
+      }
+      return resolved;
+    } catch (error) {
+      logger.error('Error assigning missing symbols:', error);
+      throw new Error('Failed to assign missing symbols');
+    }
+  }
+
+  /**
+   * Validate an ISIN's shape (country code, 9 alphanumerics, check digit)
+   */
+  static validateIsin(isin: string): string | null {
+    if (typeof isin !== 'string' || !/^[A-Z]{2}[A-Z0-9]{9}[0-9]$/.test(isin.toUpperCase())) {
+      return 'isin must be a 12-character ISIN (e.g. INE002A01018)';
+    }
+    return null;
+  }
+
+  private static async findByName(exchange: string, name: string): Promise<Instrument | null> {
+    const result = await Database.query(
+      `SELECT ${INSTRUMENT_COLUMNS} FROM instruments WHERE exchange = $1 AND LOWER(name) = LOWER($2) ORDER BY created_at LIMIT 1`,
+      [exchange, name.trim()]
+    );
+    return result.rows.length > 0 ? this.mapInstrumentRow(result.rows[0]) : null;
+  }
+
+  /**
+   * Look a company name up in the exchange listings, then fall back to a
+   * market data provider search restricted to tickers listed on the exchange.
+   * A listing is taken on an exact name or ticker match, or when it is the
+   * only one whose name starts with the given one; an ambiguous name
+   * resolves to nothing rather than to the wrong company.
+   */
+  private static async lookupListing(
+    stockName: string,
+    exchange: string
+  ): Promise<{ ticker: string; name?: string; isin?: string; sector?: string } | null> {
+    const name = stockName.trim().toLowerCase();
+    const listings = (await stockExchangeService.searchStocks(stockName, 10))
+      .filter(stock => stock.exchange.toUpperCase() === exchange);
+    const prefixed = listings.filter(stock => stock.name.toLowerCase().startsWith(name));
+    const listing = listings.find(stock => stock.name.toLowerCase() === name || stock.symbol.toLowerCase() === name)
+      || (new Set(prefixed.map(stock => stock.symbol.toUpperCase())).size === 1 ? prefixed[0] : undefined);
+    if (listing) {
+      return { ticker: listing.symbol.toUpperCase(), name: listing.name, sector: listing.sector };
+    }
+
+    // Search results are Yahoo-style, so only a symbol in the exchange's Yahoo format is listed there
+    const tickers = new Set((await marketDataService.searchSymbols(stockName, exchange))
+      .map(symbol => ({ symbol: symbol.trim().toUpperCase(), id: parseSymbol(symbol, exchange) }))
+      .filter(({ symbol, id }) => id.exchange === exchange && toProviderSymbol(id, 'yahoo') === symbol)
+      .map(({ id }) => id.ticker));
+    return tickers.size === 1 ? { ticker: Array.from(tickers)[0] } : null;
+  }
+
+  private static mapInstrumentRow(row: any): Instrument {
+    return {
+      id: row.id,
+      exchange: row.exchange,
+      ticker: row.ticker,
+      isin: row.isin || undefined,
+      name: row.name,
+      sector: row.sector || undefined,
+      createdAt: row.created_at?.toISOString() || new Date().toISOString(),
+      updatedAt: row.updated_at?.toISOString() || new Date().toISOString()
+    };
+  }
+}
+
+export default InstrumentService;
@@ -0,0 +1,312 @@
+import { PoolClient } from 'pg';
+import Database from '../config/database';
+import {
+  LotLedger,
+  LotMatch,
+  LotMethod,
+  LotSelection,
+  OpenLotView,
+  Stock,
+  TaxLot,
+  Transaction
+} from '../types/stock';
+import { logger } from '../utils/logger';
+
+export const LOT_METHODS: LotMethod[] = ['FIFO', 'LIFO', 'SPECIFIC_ID', 'AVERAGE'];
+
+const DEFAULT_LOT_METHOD: LotMethod = 'FIFO';
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+type Queryable = Pick<PoolClient, 'query'> | typeof Database;
+
+export class LotService {
+  /**
+   * Get the lot matching method configured for a portfolio
+   */
+  static async getLotMethod(portfolioId: string, executor: Queryable = Database): Promise<LotMethod> {
+    try {
+      const result = await executor.query('SELECT lot_method FROM portfolios WHERE id = $1', [portfolioId]);
+      const method = result.rows[0]?.lot_method;
+      return this.isLotMethod(method) ? method : DEFAULT_LOT_METHOD;
+    } catch (error) {
+      logger.warn('Failed to read lot method, defaulting to FIFO:', error);
+      return DEFAULT_LOT_METHOD;
+    }
+  }
+
+  /**
+   * Get the lot matching method of the portfolio that holds a stock
+   */
+  static async getLotMethodForStock(stockId: string, executor: Queryable = Database): Promise<LotMethod> {
+    try {
+      const result = await executor.query(`
+        SELECT p.lot_method
+        FROM stocks s
+        JOIN portfolios p ON p.id = s.portfolio_id
+        WHERE s.id = $1
+      `, [stockId]);
+      const method = result.rows[0]?.lot_method;
+      return this.isLotMethod(method) ? method : DEFAULT_LOT_METHOD;
+    } catch (error) {
+      logger.warn(`Failed to read lot method for stock ${stockId}, defaulting to FIFO:`, error);
+      return DEFAULT_LOT_METHOD;
+    }
+  }
+
+  /**
+   * Get the lot matching method of every portfolio, keyed by portfolio ID
+   */
+  static async getLotMethods(): Promise<Map<string, LotMethod>> {
+    const methods = new Map<string, LotMethod>();
+    try {
+      const result = await Database.query('SELECT id, lot_method FROM portfolios');
+      result.rows.forEach((row: any) => {
+        methods.set(row.id, this.isLotMethod(row.lot_method) ? row.lot_method : DEFAULT_LOT_METHOD);
+      });
+    } catch (error) {
+      logger.warn('Failed to read lot methods, defaulting to FIFO:', error);
+    }
+    return methods;
+  }
+
+  /**
+   * Persist the lot matching method for a portfolio
+   */
+  static async setLotMethod(method: LotMethod, portfolioId: string): Promise<LotMethod> {
+    await Database.query(
+      'UPDATE portfolios SET lot_method = $1, updated_at = NOW() WHERE id = $2',
+      [method, portfolioId]
+    );
+
+    return method;
+  }
+
+  /**
+   * Resolve the method for a stock from a map built by getLotMethods
+   */
+  static methodFor(methods: Map<string, LotMethod>, portfolioId?: string): LotMethod {
+    return (portfolioId && methods.get(portfolioId)) || DEFAULT_LOT_METHOD;
+  }
+
+  static isLotMethod(value: any): value is LotMethod {
+    return LOT_METHODS.includes(value);
+  }
+
+  /**
+   * Replay a stock's ledger into tax lots. Every BUY (and positive ADJUST)
+   * opens a lot; every SELL (and negative ADJUST) closes lots in the order
+   * dictated by the method. SPECIFIC_ID consumes the sell's lot selections
+   * first and falls back to FIFO for any unselected remainder. AVERAGE keeps
+   * every open lot at the pooled cost per share and consumes them FIFO so
+   * holding periods stay meaningful. Corporate-action ADJUSTs that carry a
+   * split ratio rescale the open lots rather than opening or closing one.
+   */
+  static buildLots(transactions: Transaction[], method: LotMethod): LotLedger {
+    const openLots: TaxLot[] = [];
+    const matches: LotMatch[] = [];
+
+    const ordered = [...transactions].sort((a, b) =>
+      a.transactionDate.localeCompare(b.transactionDate) || a.createdAt.localeCompare(b.createdAt)
+    );
+
+    for (const transaction of ordered) {
+      const delta = transaction.type === 'SELL' ? -transaction.quantity : transaction.quantity;
+
+      if (transaction.splitRatio) {
+        this.rescaleLots(openLots, delta);
+        if (method === 'AVERAGE') {
+          this.poolCost(openLots);
+        }
+        continue;
+      }
+
+      if (delta > 0) {
+        const fees = transaction.type === 'BUY' ? transaction.fees : 0;
+        const costPerShare = (transaction.price * delta + fees) / delta;
+
+        openLots.push({
+          lotId: transaction.id,
+          stockId: transaction.stockId,
+          acquiredDate: transaction.transactionDate,
+          originalQuantity: delta,
+          remainingQuantity: delta,
+          costPerShare,
+          costBasis: costPerShare * delta
+        });
+
+        if (method === 'AVERAGE') {
+          this.poolCost(openLots);
+        }
+        continue;
+      }
+
+      const disposed = Math.abs(delta);
+      let remaining = disposed;
+
+      for (const lot of this.consumptionOrder(openLots, method, transaction.lotSelections)) {
+        if (remaining <= 0) break;
+
+        const available = lot.selectedQuantity !== undefined
+          ? Math.min(lot.selectedQuantity, lot.lot.remainingQuantity)
+          : lot.lot.remainingQuantity;
+        const quantity = Math.min(available, remaining);
+        if (quantity <= 0) continue;
+
+        const costBasis = lot.lot.costPerShare * quantity;
+        const proceeds = transaction.type === 'SELL'
+          ? transaction.price * quantity - transaction.fees * (quantity / disposed)
+          : 0;
+
+        matches.push({
+          lotId: lot.lot.lotId,
+          stockId: transaction.stockId,
+          disposalTransactionId: transaction.id,
+          disposalType: transaction.type === 'SELL' ? 'SELL' : 'ADJUST',
+          acquiredDate: lot.lot.acquiredDate,
+          disposedDate: transaction.transactionDate,
+          quantity,
+          costPerShare: lot.lot.costPerShare,
+          costBasis,
+          proceeds,
+          gainLoss: transaction.type === 'SELL' ? proceeds - costBasis : 0
+        });
+
+        lot.lot.remainingQuantity -= quantity;
+        lot.lot.costBasis = lot.lot.costPerShare * lot.lot.remainingQuantity;
+        remaining -= quantity;
+      }
+
+      for (let i = openLots.length - 1; i >= 0; i--) {
+        if (openLots[i].remainingQuantity <= 0) {
+          openLots.splice(i, 1);
+        }
+      }
+    }
+
+    return { method, openLots, matches };
+  }
+
+  /**
+   * Check SPECIFIC_ID selections against the lots open at the time of the sale
+   */
+  static validateSelections(openLots: TaxLot[], selections: LotSelection[]): string | null {
+    for (const selection of selections) {
+      const lot = openLots.find(open => open.lotId === selection.lotId);
+      if (!lot) {
+        return `Lot ${selection.lotId} is not open at the time of this transaction`;
+      }
+      if (selection.quantity > lot.remainingQuantity) {
+        return `Lot ${selection.lotId} only has ${lot.remainingQuantity} shares remaining`;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Value open lots against the stock's current market price
+   */
+  static describeOpenLots(stock: Stock, lots: TaxLot[], asOf: Date = new Date()): OpenLotView[] {
+    return lots.map(lot => {
+      const marketValue = stock.currentMarketPrice * lot.remainingQuantity;
+      const unrealizedGainLoss = marketValue - lot.costBasis;
+
+      return {
+        ...lot,
+        stockName: stock.stockName,
+        symbol: stock.symbol,
+        sector: stock.sector,
+        currentMarketPrice: stock.currentMarketPrice,
+        marketValue,
+        unrealizedGainLoss,
+        unrealizedGainLossPercentage: lot.costBasis > 0 ? (unrealizedGainLoss / lot.costBasis) * 100 : 0,
+        holdingPeriodDays: this.daysBetween(lot.acquiredDate, asOf)
+      };
+    });
+  }
+
+  /**
+   * Whole days from an ISO date (YYYY-MM-DD) to a point in time
+   */
+  static daysBetween(fromDate: string, to: Date | string): number {
+    const from = new Date(`${fromDate}T00:00:00Z`).getTime();
+    const end = typeof to === 'string' ? new Date(`${to}T00:00:00Z`).getTime() : to.getTime();
+    return Math.max(0, Math.floor((end - from) / MS_PER_DAY));
+  }
+
+  private static consumptionOrder(
+    openLots: TaxLot[],
+    method: LotMethod,
+    selections?: LotSelection[]
+  ): Array<{ lot: TaxLot; selectedQuantity?: number }> {
+    if (method === 'LIFO') {
+      return [...openLots].reverse().map(lot => ({ lot }));
+    }
+
+    if (method === 'SPECIFIC_ID' && selections && selections.length > 0) {
+      const selected = selections
+        .map(selection => ({
+          lot: openLots.find(lot => lot.lotId === selection.lotId)!,
+          selectedQuantity: selection.quantity
+        }))
+        .filter(entry => entry.lot);
+
+      return [...selected, ...openLots.map(lot => ({ lot }))];
+    }
+
+    return openLots.map(lot => ({ lot }));
+  }
+
+  /**
+   * Spread a split or consolidation across open lots in proportion to their
+   * size. Cost basis and acquisition dates carry over; rounding remainders go
+   * to the oldest lots, and a lot rounded away hands its cost to a neighbour.
+   */
+  private static rescaleLots(openLots: TaxLot[], delta: number): void {
+    const total = openLots.reduce((sum, lot) => sum + lot.remainingQuantity, 0);
+    if (total <= 0) return;
+
+    const target = Math.max(total + delta, 0);
+    const scaled = openLots.map(lot => Math.floor(lot.remainingQuantity * target / total));
+    let remainder = target - scaled.reduce((sum, quantity) => sum + quantity, 0);
+    for (let i = 0; remainder > 0 && i < scaled.length; i++, remainder--) {
+      scaled[i]++;
+    }
+
+    let carriedCost = 0;
+    openLots.forEach((lot, i) => {
+      const costBasis = lot.costBasis + carriedCost;
+      carriedCost = scaled[i] === 0 ? costBasis : 0;
+
+      lot.originalQuantity = Math.round(lot.originalQuantity * target / total);
+      lot.remainingQuantity = scaled[i];
+      lot.costBasis = scaled[i] > 0 ? costBasis : 0;
+      lot.costPerShare = scaled[i] > 0 ? costBasis / scaled[i] : 0;
+    });
+
+    for (let i = openLots.length - 1; i >= 0; i--) {
+      if (openLots[i].remainingQuantity <= 0) {
+        openLots.splice(i, 1);
+      }
+    }
+
+    const last = openLots[openLots.length - 1];
+    if (last && carriedCost > 0) {
+      last.costBasis += carriedCost;
+      last.costPerShare = last.costBasis / last.remainingQuantity;
+    }
+  }
+
+  private static poolCost(openLots: TaxLot[]): void {
+    const totalQuantity = openLots.reduce((sum, lot) => sum + lot.remainingQuantity, 0);
+    const totalCost = openLots.reduce((sum, lot) => sum + lot.costBasis, 0);
+    const averageCost = totalQuantity > 0 ? totalCost / totalQuantity : 0;
+
+    openLots.forEach(lot => {
+      lot.costPerShare = averageCost;
+      lot.costBasis = averageCost * lot.remainingQuantity;
+    });
+  }
+}
+
+export default LotService;
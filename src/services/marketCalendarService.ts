@@ -0,0 +1,373 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CalendarDay, ExchangeCalendar, ExchangeStatus, MarketPhase, TradingSessions } from '../types/stock';
+import { logger } from '../utils/logger';
+
+interface ExchangeDefinition {
+  timeZone: string;
+  sessions: TradingSessions;
+}
+
+interface ExchangeHolidays {
+  holidays: Map<string, string>;
+  earlyCloses: Map<string, { close: string; name?: string }>;
+}
+
+const EXCHANGES: Record<string, ExchangeDefinition> = {
+  NSE: { timeZone: 'Asia/Kolkata', sessions: { preOpen: '09:00', open: '09:15', close: '15:30', postClose: '16:00' } },
+  BSE: { timeZone: 'Asia/Kolkata', sessions: { preOpen: '09:00', open: '09:15', close: '15:30', postClose: '16:00' } },
+  NYSE: { timeZone: 'America/New_York', sessions: { preOpen: '04:00', open: '09:30', close: '16:00', postClose: '20:00' } },
+  NASDAQ: { timeZone: 'America/New_York', sessions: { preOpen: '04:00', open: '09:30', close: '16:00', postClose: '20:00' } }
+};
+
+const DEFAULT_CALENDAR_DIR = 'calendars';
+const DEFAULT_CALENDAR_DAYS = 30;
+const MAX_CALENDAR_DAYS = 366;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * Trading calendars for NSE, BSE, NYSE and NASDAQ: each exchange's
+ * sessions in its own time zone, weekends, and the holidays and early
+ * closes listed in <MARKET_CALENDAR_DIR>/<EXCHANGE>.json:
+ *
+ *   { "holidays": [{ "date": "2026-01-26", "name": "Republic Day" }],
+ *     "earlyCloses": [{ "date": "2026-11-27", "close": "13:00", "name": "Day after Thanksgiving" }] }
+ *
+ * Exchanges publish their holiday lists yearly; any weekday not listed is
+ * a full trading day. On an early close the post-close session moves with
+ * the close.
+ */
+class MarketCalendarService {
+  private calendars = new Map<string, ExchangeHolidays>();
+  private formatters = new Map<string, Intl.DateTimeFormat>();
+
+  listExchanges(): string[] {
+    return Object.keys(EXCHANGES);
+  }
+
+  isKnownExchange(exchange: string): boolean {
+    return EXCHANGES[exchange.toUpperCase()] !== undefined;
+  }
+
+  /**
+   * Whether the exchange's regular session is in progress. Exchanges
+   * without a calendar are treated as always open.
+   */
+  isOpen(exchange: string, at: Date = new Date()): boolean {
+    const code = exchange.toUpperCase();
+    const definition = EXCHANGES[code];
+    if (!definition) {
+      return true;
+    }
+
+    const { date, time } = this.localTime(at, definition.timeZone);
+    return this.phaseOf(this.getDay(code, date), time) === 'OPEN';
+  }
+
+  /**
+   * The exchange's local date (YYYY-MM-DD) of the session in progress at
+   * the given time, or of the next one to open. Two times with the same
+   * next session have no session start between them.
+   */
+  nextSessionDate(exchange: string, at: Date = new Date()): string {
+    const code = exchange.toUpperCase();
+    const definition = EXCHANGES[code];
+    if (!definition) {
+      return at.toISOString().split('T')[0];
+    }
+
+    const { date, time } = this.localTime(at, definition.timeZone);
+    const day = this.findTradingDay(code, date, candidate => candidate.date > date || time < candidate.sessions.close);
+    return day ? day.date : date;
+  }
+
+  /**
+   * When the exchange's most recent regular session closed, as of the
+   * given time. Null for exchanges without a calendar.
+   */
+  lastClose(exchange: string, at: Date = new Date()): Date | null {
+    const code = exchange.toUpperCase();
+    const definition = EXCHANGES[code];
+    if (!definition) {
+      return null;
+    }
+
+    const { date, time } = this.localTime(at, definition.timeZone);
+    for (let i = 0, candidate = date; i < MAX_CALENDAR_DAYS; i++, candidate = this.addDays(candidate, -1)) {
+      const day = this.getDay(code, candidate);
+      if (day.status === 'TRADING' && (candidate < date || time >= day.sessions.close)) {
+        return this.toUtc(candidate, day.sessions.close, definition.timeZone);
+      }
+    }
+
+    logger.warn(`No trading day found for ${code} within ${MAX_CALENDAR_DAYS} days before ${date}`);
+    return null;
+  }
+
+  /**
+   * Where the exchange is in its trading day, with the next open (when not
+   * trading) or close (when trading) as UTC timestamps
+   */
+  getStatus(exchange: string, at: Date = new Date()): ExchangeStatus | null {
+    const code = exchange.toUpperCase();
+    const definition = EXCHANGES[code];
+    if (!definition) {
+      return null;
+    }
+
+    const { date, time } = this.localTime(at, definition.timeZone);
+    const today = this.getDay(code, date);
+    const phase = this.phaseOf(today, time);
+
+    let nextOpen: string | null = null;
+    let nextClose: string | null = null;
+    if (phase === 'OPEN') {
+      nextClose = this.toUtc(date, today.sessions.close, definition.timeZone).toISOString();
+    } else {
+      const next = this.findTradingDay(code, date, candidate => candidate.date > date || time < candidate.sessions.open);
+      nextOpen = next ? this.toUtc(next.date, next.sessions.open, definition.timeZone).toISOString() : null;
+    }
+
+    return {
+      exchange: code,
+      timeZone: definition.timeZone,
+      localTime: `${date} ${time}`,
+      phase,
+      isOpen: phase === 'OPEN',
+      holiday: today.holiday || null,
+      nextOpen,
+      nextClose
+    };
+  }
+
+  getStatuses(at: Date = new Date()): ExchangeStatus[] {
+    return this.listExchanges().map(exchange => this.getStatus(exchange, at));
+  }
+
+  /**
+   * Every day from `from` to `to` (inclusive, exchange-local dates) with
+   * its sessions or the reason it is closed. Defaults to the next 30 days.
+   */
+  getCalendar(exchange: string, from?: string, to?: string): ExchangeCalendar | null {
+    const code = exchange.toUpperCase();
+    const definition = EXCHANGES[code];
+    if (!definition) {
+      return null;
+    }
+
+    const range = this.resolveRange(from, to);
+    const days: CalendarDay[] = [];
+    for (let date = range.from; date <= range.to; date = this.addDays(date, 1)) {
+      days.push(this.getDay(code, date));
+    }
+
+    return {
+      exchange: code,
+      timeZone: definition.timeZone,
+      sessions: definition.sessions,
+      days
+    };
+  }
+
+  /**
+   * Validate calendar query dates (after applying the defaults)
+   */
+  validateRange(from?: string, to?: string): string | null {
+    if ((from !== undefined && !this.isValidDate(from)) || (to !== undefined && !this.isValidDate(to))) {
+      return 'from and to must be dates in YYYY-MM-DD format';
+    }
+
+    const range = this.resolveRange(from, to);
+    if (range.from > range.to) {
+      return 'from must not be after to';
+    }
+    if (this.daysBetween(range.from, range.to) >= MAX_CALENDAR_DAYS) {
+      return `A calendar covers at most ${MAX_CALENDAR_DAYS} days`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Forget loaded holiday files, e.g. after publishing next year's list
+   */
+  reload(): void {
+    this.calendars.clear();
+  }
+
+  private getDay(exchange: string, date: string): CalendarDay {
+    const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+    if (weekday === 0 || weekday === 6) {
+      return { date, status: 'WEEKEND' };
+    }
+
+    const calendar = this.loadCalendar(exchange);
+    const holiday = calendar.holidays.get(date);
+    if (holiday !== undefined) {
+      return { date, status: 'HOLIDAY', holiday };
+    }
+
+    const sessions = EXCHANGES[exchange].sessions;
+    const earlyClose = calendar.earlyCloses.get(date);
+    if (!earlyClose) {
+      return { date, status: 'TRADING', sessions };
+    }
+
+    const shift = this.minutes(earlyClose.close) - this.minutes(sessions.close);
+    return {
+      date,
+      status: 'TRADING',
+      holiday: earlyClose.name,
+      sessions: { ...sessions, close: earlyClose.close, postClose: this.formatMinutes(this.minutes(sessions.postClose) + shift) }
+    };
+  }
+
+  private phaseOf(day: CalendarDay, time: string): MarketPhase {
+    const sessions = day.sessions;
+    if (!sessions || time < sessions.preOpen || time >= sessions.postClose) {
+      return 'CLOSED';
+    }
+    if (time < sessions.open) {
+      return 'PRE_OPEN';
+    }
+    return time < sessions.close ? 'OPEN' : 'POST_CLOSE';
+  }
+
+  /**
+   * The first trading day on or after `from` that matches, within a year
+   */
+  private findTradingDay(
+    exchange: string,
+    from: string,
+    matches: (day: CalendarDay) => boolean
+  ): CalendarDay | null {
+    for (let i = 0, date = from; i < MAX_CALENDAR_DAYS; i++, date = this.addDays(date, 1)) {
+      const day = this.getDay(exchange, date);
+      if (day.status === 'TRADING' && matches(day)) {
+        return day;
+      }
+    }
+
+    logger.warn(`No trading day found for ${exchange} within ${MAX_CALENDAR_DAYS} days of ${from}`);
+    return null;
+  }
+
+  private loadCalendar(exchange: string): ExchangeHolidays {
+    const loaded = this.calendars.get(exchange);
+    if (loaded) {
+      return loaded;
+    }
+
+    const calendar: ExchangeHolidays = { holidays: new Map(), earlyCloses: new Map() };
+    this.calendars.set(exchange, calendar);
+
+    const file = path.join(path.resolve(process.env.MARKET_CALENDAR_DIR || DEFAULT_CALENDAR_DIR), `${exchange}.json`);
+    try {
+      if (!fs.existsSync(file)) {
+        logger.warn(`No holiday calendar found for ${exchange} at ${file}; only weekends are closed`);
+        return calendar;
+      }
+
+      const contents = JSON.parse(fs.readFileSync(file, 'utf8'));
+      for (const holiday of contents.holidays || []) {
+        if (holiday && this.isValidDate(holiday.date)) {
+          calendar.holidays.set(holiday.date, holiday.name || 'Holiday');
+        } else {
+          logger.warn(`Skipping ${exchange} holiday ${JSON.stringify(holiday)}: date must be YYYY-MM-DD`);
+        }
+      }
+      for (const earlyClose of contents.earlyCloses || []) {
+        if (earlyClose && this.isValidDate(earlyClose.date) && TIME_PATTERN.test(earlyClose.close || '')) {
+          calendar.earlyCloses.set(earlyClose.date, { close: earlyClose.close, name: earlyClose.name });
+        } else {
+          logger.warn(`Skipping ${exchange} early close ${JSON.stringify(earlyClose)}: needs a YYYY-MM-DD date and HH:mm close`);
+        }
+      }
+
+      logger.info(`Loaded ${calendar.holidays.size} holidays and ${calendar.earlyCloses.size} early closes for ${exchange}`);
+    } catch (error) {
+      logger.error(`Error loading holiday calendar ${file}:`, error);
+    }
+
+    return calendar;
+  }
+
+  /**
+   * The UTC instant of a wall-clock time in a time zone. The offset is
+   * taken twice so a time just after a DST change resolves correctly.
+   */
+  private toUtc(date: string, time: string, timeZone: string): Date {
+    const wallClock = Date.parse(`${date}T${time}:00Z`);
+    const offsetAt = (instant: number) => {
+      const local = this.localTime(new Date(instant), timeZone);
+      return Date.parse(`${local.date}T${local.time}:00Z`) - instant;
+    };
+
+    const guess = wallClock - offsetAt(wallClock);
+    return new Date(wallClock - offsetAt(guess));
+  }
+
+  /**
+   * YYYY-MM-DD date and HH:mm wall-clock time in a time zone
+   */
+  private localTime(at: Date, timeZone: string): { date: string; time: string } {
+    let formatter = this.formatters.get(timeZone);
+    if (!formatter) {
+      formatter = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+        hourCycle: 'h23'
+      });
+      this.formatters.set(timeZone, formatter);
+    }
+
+    const parts = formatter.formatToParts(at);
+    const part = (type: string) => parts.find(p => p.type === type)?.value || '';
+    return {
+      date: `${part('year')}-${part('month')}-${part('day')}`,
+      time: `${part('hour')}:${part('minute')}`
+    };
+  }
+
+  private resolveRange(from?: string, to?: string): { from: string; to: string } {
+    const start = from || new Date().toISOString().split('T')[0];
+    return { from: start, to: to || this.addDays(start, DEFAULT_CALENDAR_DAYS - 1) };
+  }
+
+  private isValidDate(value: any): boolean {
+    // Date.parse rolls 2026-02-30 over to March, so require the date to round-trip
+    if (typeof value !== 'string' || !DATE_PATTERN.test(value)) {
+      return false;
+    }
+    const parsed = new Date(`${value}T00:00:00Z`);
+    return !isNaN(parsed.getTime()) && parsed.toISOString().startsWith(value);
+  }
+
+  private addDays(date: string, days: number): string {
+    const day = new Date(`${date}T00:00:00Z`);
+    day.setUTCDate(day.getUTCDate() + days);
+    return day.toISOString().split('T')[0];
+  }
+
+  private daysBetween(from: string, to: string): number {
+    return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / (24 * 60 * 60 * 1000));
+  }
+
+  private minutes(time: string): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+  }
+
+  private formatMinutes(minutes: number): string {
+    const clamped = Math.max(0, Math.min(minutes, 23 * 60 + 59));
+    return `${String(Math.floor(clamped / 60)).padStart(2, '0')}:${String(clamped % 60).padStart(2, '0')}`;
+  }
+}
+
+export const marketCalendarService = new MarketCalendarService();
+export default marketCalendarService;
@@ -0,0 +1,149 @@
+import { MarketData, PriceBar } from '../types/stock';
+import { logger } from '../utils/logger';
+import { SymbolFormat } from '../utils/symbols';
+
+/**
+ * A source of market data. Implementations return null (or an empty
+ * result) when they have nothing for a symbol; MarketDataService then falls
+ * through to the next provider for the exchange. Symbols are passed in the
+ * provider's symbolFormat (see utils/symbols).
+ */
+export interface MarketDataProvider {
+  readonly name: string;
+  readonly symbolFormat: SymbolFormat;
+  getQuote(symbol: string, exchange: string): Promise<MarketData | null>;
+  getBatchQuotes(symbols: string[], exchange: string): Promise<Record<string, MarketData | null>>;
+  getHistory(symbol: string, from: Date, to: Date): Promise<PriceBar[]>;
+  search(query: string): Promise<string[]>;
+  isHealthy(): Promise<boolean>;
+}
+
+const DEFAULT_PRIORITY = 'default';
+// Serves every exchange from local files when MARKET_DATA_OFFLINE=true
+const OFFLINE_PROVIDER = 'fixture';
+
+/**
+ * Registered providers and the order they are tried in. The order can be
+ * set per exchange; exchanges without one use the default order, which is
+ * registration order until set. Providers left out of an order are never
+ * tried for that exchange. In offline mode a single provider serves every
+ * exchange and the configured orders are ignored.
+ */
+export class MarketDataProviderRegistry {
+  private providers = new Map<string, MarketDataProvider>();
+  private priorities = new Map<string, string[]>();
+  private offlineProvider: string | null = null;
+
+  register(provider: MarketDataProvider): void {
+    this.providers.set(provider.name, provider);
+  }
+
+  get(name: string): MarketDataProvider | undefined {
+    return this.providers.get(name);
+  }
+
+  list(): MarketDataProvider[] {
+    return Array.from(this.providers.values());
+  }
+
+  /**
+   * Set the order providers are tried in for an exchange, or for every
+   * exchange without its own order when exchange is omitted
+   */
+  setPriority(names: string[], exchange?: string): void {
+    const unknown = names.filter(name => !this.providers.has(name));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown market data provider(s): ${unknown.join(', ')}`);
+    }
+
+    this.priorities.set(exchange ? exchange.toUpperCase() : DEFAULT_PRIORITY, names);
+  }
+
+  /**
+   * Serve every exchange from one provider, whatever the configured orders
+   */
+  setOffline(name: string): void {
+    if (!this.providers.has(name)) {
+      throw new Error(`Unknown market data provider(s): ${name}`);
+    }
+
+    this.offlineProvider = name;
+  }
+
+  /**
+   * Whether market data must not leave the machine; code that calls
+   * upstream services outside a provider checks this too
+   */
+  isOffline(): boolean {
+    return this.offlineProvider !== null;
+  }
+
+  /**
+   * Providers to try for an exchange, in priority order
+   */
+  providersFor(exchange?: string): MarketDataProvider[] {
+    if (this.offlineProvider) {
+      return [this.providers.get(this.offlineProvider)];
+    }
+
+    const names = (exchange && this.priorities.get(exchange.toUpperCase()))
+      || this.priorities.get(DEFAULT_PRIORITY)
+      || Array.from(this.providers.keys());
+    return names.map(name => this.providers.get(name)).filter(Boolean);
+  }
+
+  /**
+   * Providers that appear in at least one exchange's order
+   */
+  inUse(): MarketDataProvider[] {
+    const names = new Set(Object.values(this.getPriorities()).flat());
+    return this.list().filter(provider => names.has(provider.name));
+  }
+
+  /**
+   * The configured orders, keyed by exchange ("default" for the fallback order)
+   */
+  getPriorities(): Record<string, string[]> {
+    if (this.offlineProvider) {
+      return { [DEFAULT_PRIORITY]: [this.offlineProvider] };
+    }
+
+    return {
+      [DEFAULT_PRIORITY]: Array.from(this.providers.keys()),
+      ...Object.fromEntries(this.priorities)
+    };
+  }
+
+  /**
+   * Read priorities from MARKET_DATA_PROVIDERS (the default order) and
+   * MARKET_DATA_PROVIDERS_<EXCHANGE>, each a comma-separated list of
+   * provider names. Invalid settings are logged and ignored, as are all of
+   * them when MARKET_DATA_OFFLINE=true selects the fixture provider.
+   */
+  configureFromEnv(env: Record<string, string | undefined>): void {
+    if (env.MARKET_DATA_OFFLINE === 'true') {
+      this.setOffline(OFFLINE_PROVIDER);
+      logger.info(`Market data offline: ${OFFLINE_PROVIDER} provider for all exchanges`);
+    }
+
+    for (const [variable, value] of Object.entries(env)) {
+      const match = /^MARKET_DATA_PROVIDERS(?:_([A-Z0-9]+))?$/.exec(variable);
+      if (!match || !value) {
+        continue;
+      }
+
+      if (this.offlineProvider) {
+        logger.warn(`Ignoring ${variable} in offline mode`);
+        continue;
+      }
+
+      const names = value.split(',').map(name => name.trim().toLowerCase()).filter(Boolean);
+      try {
+        this.setPriority(names, match[1]);
+        logger.info(`Market data providers for ${match[1] || 'all exchanges'}: ${names.join(' -> ')}`);
+      } catch (error) {
+        logger.error(`Ignoring ${variable}:`, error);
+      }
+    }
+  }
+}
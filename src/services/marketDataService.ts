@@ -1,71 +1,136 @@
 import { yahooFinanceService } from './yahooFinanceService';
 import { googleFinanceService } from './googleFinanceService';
-import { MarketData } from '../types/stock';
+import { fixtureMarketDataService } from './fixtureMarketDataService';
+import { marketCalendarService } from './marketCalendarService';
+import { MarketQuoteService } from './marketQuoteService';
+import { MarketDataProvider, MarketDataProviderRegistry } from './marketDataProvider';
+import { MarketData, PriceBar } from '../types/stock';
 import { logger } from '../utils/logger';
+import { InstrumentId, parseSymbol, toCanonicalSymbol, toProviderSymbol } from '../utils/symbols';
+import { LruCache } from '../utils/lruCache';
+
+/**
+ * Market data providers, tried in the configured order for each exchange.
+ * Register new providers here; the fallback logic below picks them up.
+ * With MARKET_DATA_OFFLINE=true only the local fixtures are used.
+ */
+export const marketDataProviders = new MarketDataProviderRegistry();
+marketDataProviders.register(yahooFinanceService);
+marketDataProviders.register(googleFinanceService);
+marketDataProviders.register(fixtureMarketDataService);
+marketDataProviders.setPriority(['yahoo', 'google']);
+marketDataProviders.configureFromEnv(process.env);
+
+// Cache entries are keyed by canonical symbol (NSE:RELIANCE), however the caller spelled it
+interface MarketDataCacheEntry {
+  data: MarketData;
+  timestamp: number;
+  exchange: string;
+}
+
+interface CachedQuote {
+  data: MarketData;
+  fetchedAt: number;
+  ttl: number;
+  tier: 'memory' | 'database';
+}
 
-interface MarketDataCache {
-  [symbol: string]: {
-    data: MarketData;
-    timestamp: number;
-    ttl: number;
+interface CacheEntryStats {
+  totalEntries: number;
+  freshEntries: number;
+  staleEntries: number;
+}
+
+/**
+ * In-memory entry counts at the top level; persistent is null when the
+ * market_quotes table cannot be read. Evictions (to stay within maxEntries),
+ * expirations and lookups count since startup.
+ */
+export interface MarketDataCacheStats extends CacheEntryStats {
+  maxEntries: number;
+  evictions: number;
+  expirations: number;
+  persistent: CacheEntryStats | null;
+  lookups: {
+    memoryHits: number;
+    databaseHits: number;
+    staleHits: number;
+    misses: number;
+    revalidations: number;
+    databaseErrors: number;
   };
 }
 
 class MarketDataService {
-  private cache: MarketDataCache = {};
-  private readonly defaultCacheTTL = 5 * 60 * 1000; // 5 minutes
-  private readonly fallbackCacheTTL = 30 * 60 * 1000; // 30 minutes for fallback data
+  private cache = new LruCache<MarketDataCacheEntry>(parseInt(process.env.CACHE_MAX_ENTRIES || '1000'));
+  private readonly defaultCacheTTL = parseInt(process.env.CACHE_TTL || '300000'); // 5 minutes while the exchange is open
+  private readonly closedCacheTTL = parseInt(process.env.CACHE_CLOSED_TTL || '43200000'); // 12 hours once it has closed
+  private readonly fallbackCacheTTL = parseInt(process.env.CACHE_STALE_TTL || '1800000'); // 30 minutes, served stale while refreshing
+  private expirations = 0;
+  private lookups: MarketDataCacheStats['lookups'] = {
+    memoryHits: 0,
+    databaseHits: 0,
+    staleHits: 0,
+    misses: 0,
+    revalidations: 0,
+    databaseErrors: 0
+  };
+  private revalidating = new Set<string>();
 
   /**
    * Get market data with fallback strategy:
-   * 1. Try Yahoo Finance first (more reliable API)
-   * 2. Fallback to Google Finance (web scraping)
-   * 3. Return cached data if available
+   * 1. Serve a cached quote (memory, then the market_quotes table) younger
+   *    than its TTL (see cacheTTL); one within the stale window is served
+   *    while it is refreshed in the background
+   * 2. Try each provider for the exchange in priority order
+   *    (Yahoo Finance, then Google Finance, unless configured otherwise)
+   * 3. Return cached data of any age if every provider fails
+   *
+   * The symbol may be a bare ticker listed on the exchange or any format
+   * utils/symbols parses (NSE:RELIANCE, RELIANCE.NS, RELIANCE:NSE).
    */
   async getMarketData(symbol: string, exchange = 'NSE', forceRefresh = false): Promise<MarketData | null> {
+    const id = parseSymbol(symbol, exchange);
+    const key = toCanonicalSymbol(id);
+
     try {
+      const cached = (await this.getCachedQuotes([key])).get(key);
+
       // Check cache first (unless force refresh)
       if (!forceRefresh) {
-        const cachedData = this.getCachedData(symbol);
+        const cachedData = this.serveCached(id, cached);
         if (cachedData) {
-          logger.debug(`Returning cached data for ${symbol}`);
+          logger.debug(`Returning cached data for ${key}`);
           return cachedData;
         }
       }
 
-      logger.info(`Fetching fresh market data for ${symbol}`);
+      logger.info(`Fetching fresh market data for ${key}`);
 
-      // Try Yahoo Finance first
-      let marketData = await this.tryYahooFinance(symbol);
-      
-      // If Yahoo fails, try Google Finance
-      if (!marketData) {
-        marketData = await this.tryGoogleFinance(symbol, exchange);
-      }
+      const marketData = await this.fetchQuote(id, 'quote');
 
-      // If both fail, return cached data even if expired
+      // If every provider fails, return cached data even if expired
       if (!marketData) {
-        const staleData = this.getStaleData(symbol);
-        if (staleData) {
-          logger.warn(`Returning stale cached data for ${symbol} - all APIs failed`);
-          return staleData;
+        if (cached) {
+          logger.warn(`Returning stale cached data for ${key} - all APIs failed`);
+          return cached.data;
         }
         
-        logger.error(`No market data available for ${symbol} from any source`);
+        logger.error(`No market data available for ${key} from any source`);
         return null;
       }
 
       // Cache the successful result
-      this.cacheData(symbol, marketData);
+      this.cacheData(key, marketData);
       
       return marketData;
     } catch (error) {
-      logger.error(`Error in getMarketData for ${symbol}:`, error);
+      logger.error(`Error in getMarketData for ${key}:`, error);
       
       // Return cached data as fallback
-      const fallbackData = this.getStaleData(symbol);
+      const fallbackData = this.getStaleData(key);
       if (fallbackData) {
-        logger.warn(`Returning fallback cached data for ${symbol} due to error`);
+        logger.warn(`Returning fallback cached data for ${key} due to error`);
         return fallbackData;
       }
       
@@ -77,106 +142,106 @@ class MarketDataService {
    * Get current price only (optimized for speed)
    */
   async getCurrentPrice(symbol: string, exchange = 'NSE'): Promise<number | null> {
+    const id = parseSymbol(symbol, exchange);
+    const key = toCanonicalSymbol(id);
+
     try {
       // Check cache for recent price data
-      const cachedData = this.getCachedData(symbol);
+      const cachedData = this.getCachedData(key);
       if (cachedData && this.isDataFresh(cachedData, 1 * 60 * 1000)) { // 1 minute for price
         return cachedData.currentPrice;
       }
 
-      // Try Yahoo Finance for price (faster than full market data)
-      const yahooPrice = await yahooFinanceService.getCurrentPrice(symbol);
-      if (yahooPrice !== null) {
-        return yahooPrice;
-      }
-
-      // Fallback to Google Finance
-      const googlePrice = await googleFinanceService.getCurrentPrice(symbol, exchange);
-      if (googlePrice !== null) {
-        return googlePrice;
+      const marketData = await this.fetchQuote(id, 'price');
+      if (marketData) {
+        this.cacheData(key, marketData);
+        return marketData.currentPrice;
       }
 
       // Return cached price if available
       if (cachedData) {
-        logger.warn(`Returning cached price for ${symbol} - APIs unavailable`);
+        logger.warn(`Returning cached price for ${key} - APIs unavailable`);
         return cachedData.currentPrice;
       }
 
       return null;
     } catch (error) {
-      logger.error(`Error getting current price for ${symbol}:`, error);
+      logger.error(`Error getting current price for ${key}:`, error);
       return null;
     }
   }
 
   /**
-   * Get batch market data for multiple symbols
+   * Get batch market data for multiple symbols. Bare tickers are taken to be
+   * listed on the exchange; canonical symbols (NASDAQ:AAPL) can mix
+   * exchanges in one batch. Results are keyed by the symbols as given.
+   * Caching works as in getMarketData, with one market_quotes read and one
+   * write for the whole batch.
    */
   async getBatchMarketData(symbols: string[], exchange = 'NSE'): Promise<Record<string, MarketData | null>> {
     logger.info(`Fetching batch market data for ${symbols.length} symbols`);
     
     const results: Record<string, MarketData | null> = {};
     
-    // Separate symbols into cached and uncached
-    const uncachedSymbols: string[] = [];
-    const cachedSymbols: string[] = [];
+    const ids = new Map<string, InstrumentId>(symbols.map(symbol => [symbol, parseSymbol(symbol, exchange)]));
+    const cachedQuotes = await this.getCachedQuotes(Array.from(ids.values()).map(toCanonicalSymbol));
     
-    for (const symbol of symbols) {
-      const cachedData = this.getCachedData(symbol);
+    // Separate symbols into cached and uncached, grouping the uncached by exchange
+    const uncachedByExchange = new Map<string, Map<string, InstrumentId>>();
+    let cachedCount = 0;
+    let uncachedCount = 0;
+    
+    for (const [symbol, id] of ids) {
+      const cachedData = this.serveCached(id, cachedQuotes.get(toCanonicalSymbol(id)));
       if (cachedData) {
         results[symbol] = cachedData;
-        cachedSymbols.push(symbol);
+        cachedCount++;
       } else {
-        uncachedSymbols.push(symbol);
+        if (!uncachedByExchange.has(id.exchange)) {
+          uncachedByExchange.set(id.exchange, new Map());
+        }
+        uncachedByExchange.get(id.exchange).set(symbol, id);
+        uncachedCount++;
       }
     }
     
-    logger.info(`Using cached data for ${cachedSymbols.length} symbols, fetching ${uncachedSymbols.length} symbols`);
+    logger.info(`Using cached data for ${cachedCount} symbols, fetching ${uncachedCount} symbols`);
     
-    if (uncachedSymbols.length === 0) {
-      return results;
-    }
-
-    // Try Yahoo Finance batch first
-    try {
-      const yahooResults = await yahooFinanceService.getBatchMarketData(uncachedSymbols);
-      
-      for (const symbol of uncachedSymbols) {
-        const yahooData = yahooResults[symbol];
-        if (yahooData) {
-          results[symbol] = yahooData;
-          this.cacheData(symbol, yahooData);
+    const fetched: Record<string, MarketData> = {};
+    for (const [listingExchange, uncached] of uncachedByExchange) {
+      // Each provider in turn gets the symbols the ones before it could not fetch
+      for (const provider of marketDataProviders.providersFor(listingExchange)) {
+        const remaining = Array.from(uncached.entries()).filter(([symbol]) => !results[symbol]);
+        if (remaining.length === 0) {
+          break;
         }
-      }
-    } catch (error) {
-      logger.error('Yahoo Finance batch request failed:', error);
-    }
-
-    // For symbols that Yahoo couldn't fetch, try Google Finance
-    const remainingSymbols = uncachedSymbols.filter(symbol => !results[symbol]);
-    
-    if (remainingSymbols.length > 0) {
-      logger.info(`Trying Google Finance for ${remainingSymbols.length} remaining symbols`);
-      
-      // Process Google Finance requests more conservatively (sequential with delays)
-      for (const symbol of remainingSymbols) {
+        
+        logger.info(`Trying ${provider.name} for ${remaining.length} ${listingExchange} symbols`);
+        
         try {
-          const googleData = await googleFinanceService.getMarketData(symbol, exchange);
-          if (googleData) {
-            results[symbol] = googleData;
-            this.cacheData(symbol, googleData);
-          } else {
-            results[symbol] = null;
-          }
+          const providerSymbols = remaining.map(([, id]) => toProviderSymbol(id, provider.symbolFormat));
+          const providerResults = await provider.getBatchQuotes(providerSymbols, listingExchange);
           
-          // Add delay between Google requests
-          await this.delay(500);
+          remaining.forEach(([symbol, id], index) => {
+            const data = providerResults[providerSymbols[index]];
+            if (data) {
+              results[symbol] = { ...data, symbol: id.ticker };
+              fetched[toCanonicalSymbol(id)] = results[symbol];
+            }
+          });
         } catch (error) {
-          logger.error(`Error fetching ${symbol} from Google Finance:`, error);
-          results[symbol] = null;
+          logger.error(`${provider.name} batch request failed:`, error);
         }
       }
     }
+    
+    this.cacheQuotes(fetched);
+    
+    // Symbols no provider could fetch fall back to cached data of any age
+    for (const [symbol, id] of ids) {
+      const cached = cachedQuotes.get(toCanonicalSymbol(id));
+      results[symbol] = results[symbol] || (cached ? cached.data : null);
+    }
 
     const successCount = Object.values(results).filter(Boolean).length;
     logger.info(`Batch operation completed. Success rate: ${successCount}/${symbols.length} (${(successCount/symbols.length*100).toFixed(1)}%)`);
@@ -185,37 +250,201 @@ class MarketDataService {
   }
 
   /**
-   * Try Yahoo Finance
+   * Get daily price bars from the first provider for the exchange that has any
    */
-  private async tryYahooFinance(symbol: string): Promise<MarketData | null> {
-    try {
-      return await yahooFinanceService.getMarketData(symbol);
-    } catch (error) {
-      logger.warn(`Yahoo Finance failed for ${symbol}:`, error);
+  async getHistory(symbol: string, from: Date, to: Date, exchange = 'NSE'): Promise<PriceBar[]> {
+    const id = parseSymbol(symbol, exchange);
+    const bars = await this.fromProviders(id.exchange, `history for ${toCanonicalSymbol(id)}`, async provider => {
+      const history = await provider.getHistory(toProviderSymbol(id, provider.symbolFormat), from, to);
+      return history.length > 0 ? history : null;
+    });
+    
+    return bars || [];
+  }
+
+  /**
+   * Get a closing price from around monthsAgo months back: the middle of
+   * the daily bars between then and now
+   */
+  async getHistoricalPrice(symbol: string, monthsAgo: number = 4, exchange = 'NSE'): Promise<number | null> {
+    const startDate = new Date();
+    startDate.setMonth(startDate.getMonth() - monthsAgo);
+    
+    const history = await this.getHistory(symbol, startDate, new Date(), exchange);
+    if (history.length === 0) {
+      logger.warn(`No historical data found for ${symbol}`);
       return null;
     }
+    
+    return history[Math.floor(history.length / 2)].close;
+  }
+
+  /**
+   * Search for symbols matching a company name with the first provider that finds any
+   */
+  async searchSymbols(query: string, exchange?: string): Promise<string[]> {
+    const symbols = await this.fromProviders(exchange, `search for "${query}"`, async provider => {
+      const matches = await provider.search(query);
+      return matches.length > 0 ? matches : null;
+    });
+    
+    return symbols || [];
+  }
+
+  /**
+   * Quote from the first provider with one, in that provider's symbol
+   * format; the quote's symbol is the bare ticker whichever provider served it
+   */
+  private async fetchQuote(id: InstrumentId, description: string): Promise<MarketData | null> {
+    const quote = await this.fromProviders(id.exchange, `${description} for ${toCanonicalSymbol(id)}`, provider =>
+      provider.getQuote(toProviderSymbol(id, provider.symbolFormat), id.exchange)
+    );
+    return quote ? { ...quote, symbol: id.ticker } : null;
+  }
+
+  /**
+   * Ask each provider for the exchange in priority order until one returns
+   * a result. A provider that throws is logged and skipped.
+   */
+  private async fromProviders<T>(
+    exchange: string | undefined,
+    description: string,
+    fetch: (provider: MarketDataProvider) => Promise<T | null>
+  ): Promise<T | null> {
+    for (const provider of marketDataProviders.providersFor(exchange)) {
+      try {
+        const result = await fetch(provider);
+        if (result !== null && result !== undefined) {
+          return result;
+        }
+      } catch (error) {
+        logger.warn(`${provider.name} failed to fetch ${description}:`, error);
+      }
+    }
+    
+    return null;
   }
 
   /**
-   * Try Google Finance
+   * Cached quotes for canonical symbols: from memory, or from the
+   * market_quotes table when the memory copy is missing or past its TTL
+   * (an earlier run or another process may have a newer one). Database
+   * errors are counted and the lookup falls back to memory only.
    */
-  private async tryGoogleFinance(symbol: string, exchange: string): Promise<MarketData | null> {
+  private async getCachedQuotes(keys: string[]): Promise<Map<string, CachedQuote>> {
+    const quotes = new Map<string, CachedQuote>();
+    const notFresh: string[] = [];
+    
+    for (const key of keys) {
+      const cached = this.cache.get(key);
+      const ttl = cached ? this.cacheTTL(cached.exchange, cached.timestamp) : 0;
+      if (cached) {
+        quotes.set(key, { data: cached.data, fetchedAt: cached.timestamp, ttl, tier: 'memory' });
+      }
+      if (!cached || Date.now() - cached.timestamp >= ttl) {
+        notFresh.push(key);
+      }
+    }
+    
+    if (notFresh.length === 0) {
+      return quotes;
+    }
+    
     try {
-      return await googleFinanceService.getMarketData(symbol, exchange);
+      const stored = await MarketQuoteService.getQuotes(notFresh);
+      for (const [key, quote] of stored) {
+        const current = quotes.get(key);
+        if (!current || quote.fetchedAt > current.fetchedAt) {
+          const exchange = parseSymbol(key).exchange;
+          quotes.set(key, { ...quote, ttl: this.cacheTTL(exchange, quote.fetchedAt), tier: 'database' });
+          this.cache.set(key, { data: quote.data, timestamp: quote.fetchedAt, exchange });
+        }
+      }
     } catch (error) {
-      logger.warn(`Google Finance failed for ${symbol}:`, error);
-      return null;
+      this.lookups.databaseErrors++;
+      logger.warn('Market quote cache table unavailable, using memory only:', error);
+    }
+    
+    return quotes;
+  }
+
+  /**
+   * The cached data to serve for a lookup, if any, counted in the cache
+   * stats: a quote younger than the TTL is a hit, an older one within the
+   * stale window is served while a background fetch refreshes it, and
+   * anything else is a miss
+   */
+  private serveCached(id: InstrumentId, cached: CachedQuote | undefined): MarketData | null {
+    const age = cached ? Date.now() - cached.fetchedAt : Infinity;
+    
+    if (cached && age < cached.ttl) {
+      if (cached.tier === 'memory') {
+        this.lookups.memoryHits++;
+      } else {
+        this.lookups.databaseHits++;
+      }
+      return cached.data;
+    }
+    
+    if (age < this.fallbackCacheTTL) {
+      this.lookups.staleHits++;
+      this.revalidate(id);
+      return cached.data;
     }
+    
+    this.lookups.misses++;
+    return null;
+  }
+
+  /**
+   * Refresh a quote in the background, with one refresh per symbol in flight
+   */
+  private revalidate(id: InstrumentId): void {
+    const key = toCanonicalSymbol(id);
+    if (this.revalidating.has(key)) {
+      return;
+    }
+    
+    this.revalidating.add(key);
+    this.lookups.revalidations++;
+    
+    this.fetchQuote(id, 'quote')
+      .then(marketData => {
+        if (marketData) {
+          this.cacheData(key, marketData);
+        }
+      })
+      .catch(error => logger.warn(`Background refresh of ${key} failed:`, error))
+      .finally(() => this.revalidating.delete(key));
+  }
+
+  /**
+   * How long a quote for the exchange stays fresh: CACHE_TTL_<EXCHANGE> (or
+   * CACHE_TTL) while trading, but CACHE_CLOSED_TTL for a quote fetched after
+   * the close until the next session opens, since the price cannot move
+   */
+  private cacheTTL(exchange: string, fetchedAt: number, now = Date.now()): number {
+    const fetched = new Date(fetchedAt);
+    const current = new Date(now);
+    const closedSinceFetch = !marketCalendarService.isOpen(exchange, fetched)
+      && !marketCalendarService.isOpen(exchange, current)
+      && marketCalendarService.nextSessionDate(exchange, fetched) === marketCalendarService.nextSessionDate(exchange, current);
+    if (closedSinceFetch) {
+      return this.closedCacheTTL;
+    }
+
+    const exchangeTTL = parseInt(process.env[`CACHE_TTL_${exchange.toUpperCase()}`] || '');
+    return isNaN(exchangeTTL) ? this.defaultCacheTTL : exchangeTTL;
   }
 
   /**
    * Get cached data if still valid
    */
   private getCachedData(symbol: string): MarketData | null {
-    const cached = this.cache[symbol];
+    const cached = this.cache.get(symbol);
     if (!cached) return null;
     
-    if (this.isDataFresh(cached.data, cached.ttl)) {
+    if (this.isDataFresh(cached.data, this.cacheTTL(cached.exchange, cached.timestamp))) {
       return cached.data;
     }
     
@@ -226,7 +455,7 @@ class MarketDataService {
    * Get stale cached data (for fallback)
    */
   private getStaleData(symbol: string): MarketData | null {
-    const cached = this.cache[symbol];
+    const cached = this.cache.peek(symbol);
     return cached ? cached.data : null;
   }
 
@@ -242,67 +471,91 @@ class MarketDataService {
    * Cache market data
    */
   private cacheData(symbol: string, data: MarketData): void {
-    this.cache[symbol] = {
-      data,
-      timestamp: Date.now(),
-      ttl: this.defaultCacheTTL
-    };
+    this.cacheQuotes({ [symbol]: data });
   }
 
   /**
-   * Clear expired cache entries
+   * Cache quotes keyed by canonical symbol in memory and write them through
+   * to the market_quotes table without waiting for the write
+   */
+  private cacheQuotes(quotes: Record<string, MarketData>): void {
+    for (const [symbol, data] of Object.entries(quotes)) {
+      this.cache.set(symbol, {
+        data,
+        timestamp: Date.now(),
+        exchange: parseSymbol(symbol).exchange
+      });
+    }
+    
+    MarketQuoteService.saveQuotes(quotes).catch(error => {
+      this.lookups.databaseErrors++;
+      logger.warn('Could not persist market quotes:', error);
+    });
+  }
+
+  /**
+   * Clear entries past both their TTL and the stale window
    */
   private cleanupCache(): void {
     const now = Date.now();
-    for (const symbol in this.cache) {
-      const cached = this.cache[symbol];
-      if (now - cached.timestamp > this.fallbackCacheTTL) {
-        delete this.cache[symbol];
+    for (const [symbol, cached] of this.cache.entriesByAge()) {
+      if (now - cached.timestamp > Math.max(this.cacheTTL(cached.exchange, cached.timestamp, now), this.fallbackCacheTTL)) {
+        this.cache.delete(symbol);
+        this.expirations++;
       }
     }
   }
 
   /**
-   * Get cache statistics
+   * Get cache statistics for the in-memory and persistent caches
    */
-  getCacheStats(): { totalEntries: number; freshEntries: number; staleEntries: number } {
+  async getCacheStats(): Promise<MarketDataCacheStats> {
     const now = Date.now();
     let freshEntries = 0;
     let staleEntries = 0;
     
-    for (const symbol in this.cache) {
-      const cached = this.cache[symbol];
-      if (now - cached.timestamp < cached.ttl) {
+    for (const [, cached] of this.cache.entriesByAge()) {
+      if (now - cached.timestamp < this.cacheTTL(cached.exchange, cached.timestamp, now)) {
         freshEntries++;
       } else {
         staleEntries++;
       }
     }
     
+    let persistent: CacheEntryStats | null = null;
+    try {
+      persistent = await MarketQuoteService.getStats(this.defaultCacheTTL);
+    } catch (error) {
+      logger.warn('Could not read market quote cache stats:', error);
+    }
+    
     return {
-      totalEntries: Object.keys(this.cache).length,
+      totalEntries: this.cache.size,
       freshEntries,
-      staleEntries
+      staleEntries,
+      maxEntries: this.cache.maxEntries,
+      evictions: this.cache.evictions,
+      expirations: this.expirations,
+      persistent,
+      lookups: { ...this.lookups }
     };
   }
 
   /**
-   * Check service health
+   * Check service health of the providers in use
    */
   async checkServiceHealth(): Promise<{
-    yahoo: boolean;
-    google: boolean;
-    cache: { totalEntries: number; freshEntries: number; staleEntries: number };
+    providers: Record<string, boolean>;
+    priorities: Record<string, string[]>;
+    cache: MarketDataCacheStats;
   }> {
-    const [yahooAvailable, googleAvailable] = await Promise.all([
-      yahooFinanceService.isServiceAvailable(),
-      googleFinanceService.isServiceAvailable()
-    ]);
+    const providers = marketDataProviders.inUse();
+    const health = await Promise.all(providers.map(provider => provider.isHealthy().catch(() => false)));
     
     return {
-      yahoo: yahooAvailable,
-      google: googleAvailable,
-      cache: this.getCacheStats()
+      providers: Object.fromEntries(providers.map((provider, index) => [provider.name, health[index]])),
+      priorities: marketDataProviders.getPriorities(),
+      cache: await this.getCacheStats()
     };
   }
 
@@ -329,10 +582,11 @@ class MarketDataService {
   }
 
   /**
-   * Clear all cached data
+   * Clear all cached data, in memory and in the market_quotes table
    */
-  clearCache(): void {
-    this.cache = {};
+  async clearCache(): Promise<void> {
+    this.cache.clear();
+    await MarketQuoteService.clear();
     logger.info('Market data cache cleared');
   }
 }
@@ -0,0 +1,97 @@
+import Database from '../config/database';
+import { MarketData } from '../types/stock';
+import { logger } from '../utils/logger';
+
+export interface StoredQuote {
+  data: MarketData;
+  fetchedAt: number;
+}
+
+/**
+ * The market_quotes table: the last quote fetched for each canonical symbol
+ * (NSE:RELIANCE). MarketDataService uses it as a second-level cache behind
+ * its in-memory one, so quotes survive restarts and are shared between
+ * server processes.
+ */
+export class MarketQuoteService {
+  /**
+   * Stored quotes for the given canonical symbols, keyed by symbol
+   */
+  static async getQuotes(symbols: string[]): Promise<Map<string, StoredQuote>> {
+    try {
+      const result = await Database.query(
+        'SELECT symbol, data, fetched_at FROM market_quotes WHERE symbol = ANY($1)',
+        [symbols]
+      );
+
+      return new Map<string, StoredQuote>(result.rows.map((row: any) => [
+        row.symbol,
+        { data: row.data, fetchedAt: new Date(row.fetched_at).getTime() }
+      ]));
+    } catch (error) {
+      logger.error('Error fetching stored market quotes:', error);
+      throw new Error('Failed to fetch stored market quotes');
+    }
+  }
+
+  /**
+   * Upsert quotes keyed by canonical symbol, stamped with the current time
+   */
+  static async saveQuotes(quotes: Record<string, MarketData>): Promise<void> {
+    const symbols = Object.keys(quotes);
+    if (symbols.length === 0) {
+      return;
+    }
+
+    try {
+      await Database.query(`
+        INSERT INTO market_quotes (symbol, data, source, fetched_at)
+        SELECT symbol, data::jsonb, source, NOW()
+        FROM UNNEST($1::varchar[], $2::text[], $3::varchar[]) AS q(symbol, data, source)
+        ON CONFLICT (symbol) DO UPDATE SET
+          data = EXCLUDED.data,
+          source = EXCLUDED.source,
+          fetched_at = EXCLUDED.fetched_at
+      `, [
+        symbols,
+        symbols.map(symbol => JSON.stringify(quotes[symbol])),
+        symbols.map(symbol => quotes[symbol].source)
+      ]);
+    } catch (error) {
+      logger.error('Error saving market quotes:', error);
+      throw new Error('Failed to save market quotes');
+    }
+  }
+
+  /**
+   * Count stored quotes, and those fetched within the last ttl milliseconds
+   */
+  static async getStats(ttl: number): Promise<{ totalEntries: number; freshEntries: number; staleEntries: number }> {
+    try {
+      const result = await Database.query(`
+        SELECT
+          COUNT(*) as total_entries,
+          COUNT(*) FILTER (WHERE fetched_at > NOW() - $1 * INTERVAL '1 millisecond') as fresh_entries
+        FROM market_quotes
+      `, [ttl]);
+
+      const totalEntries = parseInt(result.rows[0].total_entries);
+      const freshEntries = parseInt(result.rows[0].fresh_entries);
+      return { totalEntries, freshEntries, staleEntries: totalEntries - freshEntries };
+    } catch (error) {
+      logger.error('Error fetching market quote stats:', error);
+      throw new Error('Failed to fetch market quote stats');
+    }
+  }
+
+  static async clear(): Promise<void> {
+    try {
+      await Database.query('DELETE FROM market_quotes');
+    } catch (error) {
+      logger.error('Error clearing market quotes:', error);
+      throw new Error('Failed to clear market quotes');
+    }
+  }
+}
+
+export default MarketQuoteService;
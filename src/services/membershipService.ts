@@ -0,0 +1,129 @@
+import Database from '../config/database';
+import { PortfolioMember, PortfolioMemberRequest, PortfolioRole } from '../types/stock';
+import { logger } from '../utils/logger';
+import { isUuid } from '../utils/uuid';
+
+/**
+ * Roles from least to most privileged. Viewers can read, editors can also
+ * change holdings, prices and settings, and owners can also rename or
+ * delete the portfolio and manage who it is shared with.
+ */
+export const PORTFOLIO_ROLES: PortfolioRole[] = ['VIEWER', 'EDITOR', 'OWNER'];
+
+/**
+ * Roles a portfolio can be shared with; every portfolio has exactly one owner
+ */
+export const MEMBER_ROLES: PortfolioMemberRequest['role'][] = ['EDITOR', 'VIEWER'];
+
+export class MembershipService {
+  /**
+   * Whether a role grants at least the required one. A null role (no access) never does.
+   */
+  static hasRole(role: PortfolioRole | null | undefined, required: PortfolioRole): boolean {
+    return !!role && PORTFOLIO_ROLES.indexOf(role) >= PORTFOLIO_ROLES.indexOf(required);
+  }
+
+  /**
+   * Get everyone with access to a portfolio, owner first
+   */
+  static async getMembers(portfolioId: string): Promise<PortfolioMember[]> {
+    try {
+      const result = await Database.query(`
+        SELECT u.id as user_id, u.email, u.name, 'OWNER' as role, p.created_at
+        FROM portfolios p
+        JOIN users u ON u.id = p.user_id
+        WHERE p.id = $1
+        UNION ALL
+        SELECT u.id, u.email, u.name, m.role, m.created_at
+        FROM portfolio_members m
+        JOIN users u ON u.id = m.user_id
+        WHERE m.portfolio_id = $1
+        ORDER BY role = 'OWNER' DESC, created_at ASC
+      `, [portfolioId]);
+
+      return result.rows.map((row: any) => this.mapMemberRow(row));
+    } catch (error) {
+      logger.error(`Error fetching members of portfolio ${portfolioId}:`, error);
+      throw new Error('Failed to fetch portfolio members');
+    }
+  }
+
+  /**
+   * Share a portfolio with the account registered under an email, or change
+   * the role of an existing member. Returns null if there is no such account.
+   */
+  static async addMember(portfolioId: string, data: PortfolioMemberRequest, invitedBy: string): Promise<PortfolioMember | null> {
+    try {
+      const result = await Database.query(`
+        WITH member AS (
+          INSERT INTO portfolio_members (portfolio_id, user_id, role, invited_by)
+          SELECT $1, id, $3, $4 FROM users WHERE email = $2
+          ON CONFLICT (portfolio_id, user_id) DO UPDATE SET role = EXCLUDED.role
+          RETURNING user_id, role, created_at
+        )
+        SELECT u.id as user_id, u.email, u.name, member.role, member.created_at
+        FROM member
+        JOIN users u ON u.id = member.user_id
+      `, [portfolioId, data.email.trim().toLowerCase(), data.role, invitedBy]);
+
+      if (result.rows.length === 0) {
+        return null;
+      }
+
+      const member = this.mapMemberRow(result.rows[0]);
+      logger.info(`Portfolio ${portfolioId} shared with ${member.email} as ${member.role}`);
+      return member;
+    } catch (error) {
+      logger.error(`Error sharing portfolio ${portfolioId}:`, error);
+      throw new Error('Failed to add portfolio member');
+    }
+  }
+
+  /**
+   * Revoke a member's access. Returns false if they were not a member.
+   */
+  static async removeMember(portfolioId: string, userId: string): Promise<boolean> {
+    if (!isUuid(userId)) {
+      return false;
+    }
+
+    try {
+      const result = await Database.query(
+        'DELETE FROM portfolio_members WHERE portfolio_id = $1 AND user_id = $2',
+        [portfolioId, userId]
+      );
+
+      return result.rowCount > 0;
+    } catch (error) {
+      logger.error(`Error removing member ${userId} from portfolio ${portfolioId}:`, error);
+      throw new Error('Failed to remove portfolio member');
+    }
+  }
+
+  /**
+   * Validate a member request, returning an error message if invalid
+   */
+  static validateMember(data: Partial<PortfolioMemberRequest>): string | null {
+    if (!data || typeof data.email !== 'string' || data.email.trim().length === 0) {
+      return 'email is required';
+    }
+
+    if (!MEMBER_ROLES.includes(data.role)) {
+      return `role must be one of: ${MEMBER_ROLES.join(', ')}`;
+    }
+
+    return null;
+  }
+
+  private static mapMemberRow(row: any): PortfolioMember {
+    return {
+      userId: row.user_id,
+      email: row.email,
+      name: row.name || undefined,
+      role: row.role,
+      addedAt: row.created_at?.toISOString() || new Date().toISOString()
+    };
+  }
+}
+
+export default MembershipService;
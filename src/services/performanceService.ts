@@ -0,0 +1,361 @@
+import {
+  PerformancePeriod,
+  PeriodPerformance,
+  PortfolioPerformance,
+  ReturnMetrics,
+  Stock,
+  Transaction
+} from '../types/stock';
+import { PortfolioService } from './portfolioService';
+import { TransactionService } from './transactionService';
+import { SnapshotService } from './snapshotService';
+import { DividendService } from './dividendService';
+import { logger } from '../utils/logger';
+
+export const PERFORMANCE_PERIODS: PerformancePeriod[] = ['1M', '3M', 'YTD', '1Y', 'SINCE_INCEPTION'];
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const DAYS_PER_YEAR = 365;
+const XIRR_MAX_ITERATIONS = 100;
+const XIRR_TOLERANCE = 1e-7;
+
+interface CashFlow {
+  date: string;
+  amount: number;
+}
+
+/**
+ * A stock's ledger plus every price it can be marked at (recorded closing
+ * prices and the prices of its own trades) and the dividends it paid out
+ */
+interface ValuationSeries {
+  stock: Stock;
+  transactions: Transaction[];
+  marks: Array<{ date: string; price: number }>;
+  distributions: CashFlow[];
+}
+
+export class PerformanceService {
+  /**
+   * Time-weighted and money-weighted (XIRR) returns for each period at
+   * portfolio, sector and stock level. Positions are valued at the latest
+   * closing price or trade price on or before each date, and at the current
+   * market price today. Dividends count as income paid out on the pay date.
+   * Covers every portfolio unless some are given.
+   */
+  static async getPerformance(period?: PerformancePeriod, portfolioIds?: string[]): Promise<PortfolioPerformance> {
+    try {
+      const [stocks, ledger, priceHistory, dividends] = await Promise.all([
+        PortfolioService.getAllStocks(portfolioIds),
+        TransactionService.getTransactionsGroupedByStock(portfolioIds),
+        SnapshotService.getStockPriceHistory(),
+        DividendService.getDividendsGroupedByStock(portfolioIds)
+      ]);
+
+      const series: ValuationSeries[] = stocks.map(stock => {
+        const transactions = ledger.get(stock.id) || [];
+        const tradeMarks = transactions
+          .filter(transaction => transaction.type !== 'ADJUST' && transaction.price > 0)
+          .map(transaction => ({ date: transaction.transactionDate, price: transaction.price }));
+
+        const distributions = DividendService.calculatePayments(transactions, dividends.get(stock.id) || [])
+          .filter(payment => payment.status === 'PAID' && payment.amount > 0)
+          .map(payment => ({ date: payment.payDate || payment.exDate, amount: payment.amount }));
+
+        return {
+          stock,
+          transactions,
+          marks: this.adjustForCorporateActions(
+            [...(priceHistory.get(stock.id) || []), ...tradeMarks].sort((a, b) => a.date.localeCompare(b.date)),
+            transactions
+          ),
+          distributions
+        };
+      });
+
+      const asOf = this.today();
+      const inceptionDate = series
+        .flatMap(entry => entry.transactions.map(transaction => transaction.transactionDate))
+        .sort()[0] || null;
+
+      const periods = (period ? [period] : PERFORMANCE_PERIODS).map(selected => {
+        const from = this.periodStart(selected, asOf, inceptionDate);
+        return this.buildPeriod(selected, from, asOf, series);
+      });
+
+      return { asOf, inceptionDate, periods };
+    } catch (error) {
+      logger.error('Error calculating portfolio performance:', error);
+      throw new Error('Failed to calculate portfolio performance');
+    }
+  }
+
+  static isPerformancePeriod(value: any): value is PerformancePeriod {
+    return PERFORMANCE_PERIODS.includes(value);
+  }
+
+  /**
+   * Annualized internal rate of return (as a percentage) for dated cash
+   * flows, where investments are negative and withdrawals positive. Returns
+   * null when the flows do not change sign or no rate converges.
+   */
+  static xirr(cashFlows: CashFlow[]): number | null {
+    const flows = cashFlows.filter(flow => flow.amount !== 0);
+    if (!flows.some(flow => flow.amount < 0) || !flows.some(flow => flow.amount > 0)) {
+      return null;
+    }
+
+    const origin = new Date(`${flows[0].date}T00:00:00Z`).getTime();
+    const years = flows.map(flow => (new Date(`${flow.date}T00:00:00Z`).getTime() - origin) / MS_PER_DAY / DAYS_PER_YEAR);
+    const npv = (rate: number) => flows.reduce((sum, flow, i) => sum + flow.amount / Math.pow(1 + rate, years[i]), 0);
+    const derivative = (rate: number) => flows.reduce((sum, flow, i) => sum - years[i] * flow.amount / Math.pow(1 + rate, years[i] + 1), 0);
+
+    // Newton-Raphson, falling back to bisection when it diverges
+    let rate = 0.1;
+    for (let i = 0; i < XIRR_MAX_ITERATIONS; i++) {
+      const slope = derivative(rate);
+      if (!isFinite(slope) || slope === 0) break;
+
+      const next = rate - npv(rate) / slope;
+      if (!isFinite(next) || next <= -1) break;
+      if (Math.abs(next - rate) < XIRR_TOLERANCE) {
+        return next * 100;
+      }
+      rate = next;
+    }
+
+    let low = -0.9999;
+    let high = 100;
+    if (npv(low) * npv(high) > 0) {
+      return null;
+    }
+
+    for (let i = 0; i < XIRR_MAX_ITERATIONS * 2; i++) {
+      const mid = (low + high) / 2;
+      const value = npv(mid);
+      if (Math.abs(value) < XIRR_TOLERANCE || (high - low) / 2 < XIRR_TOLERANCE) {
+        return mid * 100;
+      }
+      if (npv(low) * value < 0) {
+        high = mid;
+      } else {
+        low = mid;
+      }
+    }
+
+    return null;
+  }
+
+  private static buildPeriod(
+    period: PerformancePeriod,
+    from: string,
+    to: string,
+    series: ValuationSeries[]
+  ): PeriodPerformance {
+    const active = series.filter(entry =>
+      this.valueAt(entry, from, to) > 0
+      || entry.transactions.some(transaction => transaction.transactionDate > from && transaction.transactionDate <= to)
+      || entry.distributions.some(distribution => distribution.date > from && distribution.date <= to)
+    );
+
+    const sectors = new Map<string, ValuationSeries[]>();
+    active.forEach(entry => {
+      if (!sectors.has(entry.stock.sector)) {
+        sectors.set(entry.stock.sector, []);
+      }
+      sectors.get(entry.stock.sector)!.push(entry);
+    });
+
+    return {
+      period,
+      from,
+      to,
+      portfolio: this.calculateReturns(active, from, to),
+      sectors: Array.from(sectors.entries())
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([sector, entries]) => ({ sector, ...this.calculateReturns(entries, from, to) })),
+      stocks: active.map(entry => ({
+        stockId: entry.stock.id,
+        stockName: entry.stock.stockName,
+        symbol: entry.stock.symbol,
+        sector: entry.stock.sector,
+        ...this.calculateReturns([entry], from, to)
+      }))
+    };
+  }
+
+  /**
+   * Chain sub-period returns between valuation dates for TWR. Flows are
+   * treated as happening at the close of their day, which matches valuing
+   * positions at trade prices; a sub-period that starts with nothing held
+   * (an opening buy) carries no return and is skipped.
+   */
+  private static calculateReturns(series: ValuationSeries[], from: string, to: string): ReturnMetrics {
+    const valueAt = (date: string) => series.reduce((sum, entry) => sum + this.valueAt(entry, date, to), 0);
+    const transactions = series
+      .flatMap(entry => entry.transactions)
+      .filter(transaction => transaction.transactionDate > from && transaction.transactionDate <= to);
+
+    const keyDates = new Set<string>([from, to]);
+    transactions.forEach(transaction => {
+      keyDates.add(transaction.transactionDate);
+      const previous = this.addDays(transaction.transactionDate, -1);
+      if (previous > from) keyDates.add(previous);
+    });
+    const distributions = series
+      .flatMap(entry => entry.distributions)
+      .filter(distribution => distribution.date > from && distribution.date <= to);
+    distributions.forEach(distribution => keyDates.add(distribution.date));
+    series.forEach(entry => {
+      entry.marks
+        .filter(mark => mark.date > from && mark.date <= to)
+        .forEach(mark => keyDates.add(mark.date));
+    });
+
+    const dates = Array.from(keyDates).sort();
+    const values = new Map(dates.map(date => [date, valueAt(date)]));
+
+    let growth = 1;
+    let hasSubPeriod = false;
+    for (let i = 1; i < dates.length; i++) {
+      const dayFlows = transactions.filter(transaction =>
+        transaction.transactionDate > dates[i - 1] && transaction.transactionDate <= dates[i]
+      );
+      const inflows = dayFlows.reduce((sum, transaction) => sum + Math.max(this.cashFlow(transaction), 0), 0);
+      const outflows = dayFlows.reduce((sum, transaction) => sum + Math.max(-this.cashFlow(transaction), 0), 0)
+        + distributions
+          .filter(distribution => distribution.date > dates[i - 1] && distribution.date <= dates[i])
+          .reduce((sum, distribution) => sum + distribution.amount, 0);
+      const startOfPeriod = values.get(dates[i - 1])!;
+
+      if (startOfPeriod > 0) {
+        growth *= (values.get(dates[i])! - inflows + outflows) / startOfPeriod;
+        hasSubPeriod = true;
+      }
+    }
+
+    const startValue = values.get(from)!;
+    const endValue = values.get(to)!;
+    const netInflows = transactions.reduce((sum, transaction) => sum + this.cashFlow(transaction), 0)
+      - distributions.reduce((sum, distribution) => sum + distribution.amount, 0);
+    const timeWeightedReturn = hasSubPeriod ? (growth - 1) * 100 : null;
+    const days = (new Date(`${to}T00:00:00Z`).getTime() - new Date(`${from}T00:00:00Z`).getTime()) / MS_PER_DAY;
+
+    const cashFlows: CashFlow[] = [
+      { date: from, amount: -startValue },
+      ...transactions.map(transaction => ({ date: transaction.transactionDate, amount: -this.cashFlow(transaction) })),
+      ...distributions,
+      { date: to, amount: endValue }
+    ].sort((a, b) => a.date.localeCompare(b.date));
+
+    return {
+      startValue,
+      endValue,
+      netInflows,
+      gainLoss: endValue - startValue - netInflows,
+      timeWeightedReturn,
+      // Returns for periods shorter than a year are not annualized
+      timeWeightedReturnAnnualized: timeWeightedReturn !== null && days >= DAYS_PER_YEAR
+        ? (Math.pow(growth, DAYS_PER_YEAR / days) - 1) * 100
+        : null,
+      moneyWeightedReturn: this.xirr(cashFlows)
+    };
+  }
+
+  /**
+   * Restate prices recorded before a split, bonus or consolidation in
+   * post-action shares, so the quantity change on the ex-date is not
+   * mistaken for a jump in value
+   */
+  private static adjustForCorporateActions(
+    marks: Array<{ date: string; price: number }>,
+    transactions: Transaction[]
+  ): Array<{ date: string; price: number }> {
+    return transactions
+      .filter(transaction => transaction.corporateActionId)
+      .reduce((adjusted, action) => {
+        const heldBefore = transactions
+          .filter(transaction => transaction.transactionDate < action.transactionDate)
+          .reduce((sum, transaction) => sum + (transaction.type === 'SELL' ? -transaction.quantity : transaction.quantity), 0);
+        if (heldBefore <= 0) return adjusted;
+
+        const factor = (heldBefore + action.quantity) / heldBefore;
+        return adjusted.map(mark => mark.date < action.transactionDate ? { ...mark, price: mark.price / factor } : mark);
+      }, marks);
+  }
+
+  /**
+   * Market value of a position at the close of a date
+   */
+  private static valueAt(entry: ValuationSeries, date: string, today: string): number {
+    const quantity = entry.transactions
+      .filter(transaction => transaction.transactionDate <= date)
+      .reduce((sum, transaction) => sum + (transaction.type === 'SELL' ? -transaction.quantity : transaction.quantity), 0);
+
+    if (quantity <= 0) {
+      return 0;
+    }
+
+    if (date >= today && entry.stock.currentMarketPrice > 0) {
+      return quantity * entry.stock.currentMarketPrice;
+    }
+
+    const marks = entry.marks.filter(mark => mark.date <= date);
+    return marks.length > 0 ? quantity * marks[marks.length - 1].price : 0;
+  }
+
+  /**
+   * Money put into (positive) or taken out of (negative) a position
+   */
+  private static cashFlow(transaction: Transaction): number {
+    switch (transaction.type) {
+      case 'BUY':
+        return transaction.price * transaction.quantity + transaction.fees;
+      case 'SELL':
+        return -(transaction.price * transaction.quantity - transaction.fees);
+      default:
+        return transaction.price * transaction.quantity;
+    }
+  }
+
+  /**
+   * Valuation date the period is measured from (close of that day)
+   */
+  private static periodStart(period: PerformancePeriod, asOf: string, inceptionDate: string | null): string {
+    switch (period) {
+      case '1M':
+        return this.addMonths(asOf, -1);
+      case '3M':
+        return this.addMonths(asOf, -3);
+      case '1Y':
+        return this.addMonths(asOf, -12);
+      case 'YTD':
+        return `${parseInt(asOf.slice(0, 4)) - 1}-12-31`;
+      case 'SINCE_INCEPTION':
+        return this.addDays(inceptionDate || asOf, -1);
+    }
+  }
+
+  /**
+   * Shift by whole months, clamping to the last day of shorter months
+   */
+  private static addMonths(date: string, months: number): string {
+    const [year, month, day] = date.split('-').map(part => parseInt(part));
+    const target = new Date(Date.UTC(year, month - 1 + months, 1));
+    const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+    target.setUTCDate(Math.min(day, lastDay));
+    return target.toISOString().split('T')[0];
+  }
+
+  private static addDays(date: string, days: number): string {
+    const result = new Date(`${date}T00:00:00Z`);
+    result.setUTCDate(result.getUTCDate() + days);
+    return result.toISOString().split('T')[0];
+  }
+
+  private static today(): string {
+    return new Date().toISOString().split('T')[0];
+  }
+}
+
+export default PerformanceService;
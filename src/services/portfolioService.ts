@@ -1,69 +1,420 @@
-import { Stock, Portfolio, SectorSummary, PortfolioMetrics } from '../types/stock';
+import {
+  Stock,
+  Portfolio,
+  PortfolioAccount,
+  PortfolioCreateRequest,
+  PortfolioUpdateRequest,
+  SectorSummary,
+  PortfolioMetrics,
+  Transaction,
+  LotMethod,
+  LotMatch,
+  OpenLotView,
+  RealizedGainReport,
+  RealizedGainTotals,
+  ReportLotMethod,
+  PortfolioRole
+} from '../types/stock';
 import Database from '../config/database';
+import { ALL_PORTFOLIOS } from '../config/portfolio';
+import { TransactionService } from './transactionService';
+import { LotService, LOT_METHODS } from './lotService';
 import { logger } from '../utils/logger';
+import { isUuid } from '../utils/uuid';
+
+// The requesting user's role in portfolio p given their membership row m. Queries using
+// it only return the user's own and shared portfolios, so no membership means ownership.
+const ROLE_COLUMN = `COALESCE(m.role, 'OWNER') as role`;
+
+export interface LotReport {
+  method: ReportLotMethod;
+  lots: OpenLotView[];
+  totals: {
+    quantity: number;
+    costBasis: number;
+    marketValue: number;
+    unrealizedGainLoss: number;
+    unrealizedGainLossPercentage: number;
+  };
+}
 
 export class PortfolioService {
   /**
-   * Get all stocks from database
+   * Get the portfolios a user owns or has been shared, with their role in
+   * each and the number of open holdings
+   */
+  static async getPortfolios(userId: string): Promise<PortfolioAccount[]> {
+    try {
+      const result = await Database.query(`
+        SELECT p.*, ${ROLE_COLUMN}, COUNT(s.id) FILTER (WHERE s.quantity > 0) as holding_count
+        FROM portfolios p
+        LEFT JOIN portfolio_members m ON m.portfolio_id = p.id AND m.user_id = $1
+        LEFT JOIN stocks s ON s.portfolio_id = p.id
+        WHERE p.user_id = $1 OR m.user_id IS NOT NULL
+        GROUP BY p.id, m.role
+        ORDER BY p.user_id = $1 DESC, p.created_at ASC
+      `, [userId]);
+      
+      return result.rows.map((row: any) => this.mapPortfolioRow(row));
+    } catch (error) {
+      logger.error('Error fetching portfolios:', error);
+      throw new Error('Failed to fetch portfolios');
+    }
+  }
+
+  /**
+   * Get a portfolio by ID, with the user's role in it, if they can see it
+   */
+  static async getPortfolioById(id: string, userId: string): Promise<PortfolioAccount | null> {
+    if (!isUuid(id)) {
+      return null;
+    }
+    
+    try {
+      const result = await Database.query(`
+        SELECT p.*, ${ROLE_COLUMN}, COUNT(s.id) FILTER (WHERE s.quantity > 0) as holding_count
+        FROM portfolios p
+        LEFT JOIN portfolio_members m ON m.portfolio_id = p.id AND m.user_id = $2
+        LEFT JOIN stocks s ON s.portfolio_id = p.id
+        WHERE p.id = $1 AND (p.user_id = $2 OR m.user_id IS NOT NULL)
+        GROUP BY p.id, m.role
+      `, [id, userId]);
+      
+      return result.rows.length > 0 ? this.mapPortfolioRow(result.rows[0]) : null;
+    } catch (error) {
+      logger.error(`Error fetching portfolio ${id}:`, error);
+      throw new Error('Failed to fetch portfolio');
+    }
+  }
+
+  /**
+   * Get the user's default portfolio: the oldest one they own
+   */
+  static async getDefaultPortfolioId(userId: string): Promise<string | null> {
+    try {
+      const result = await Database.query(
+        'SELECT id FROM portfolios WHERE user_id = $1 ORDER BY created_at ASC LIMIT 1',
+        [userId]
+      );
+      
+      return result.rows[0]?.id || null;
+    } catch (error) {
+      logger.error(`Error fetching default portfolio for user ${userId}:`, error);
+      throw new Error('Failed to fetch portfolio');
+    }
+  }
+
+  /**
+   * Resolve a portfolio route parameter to the portfolio IDs a query covers:
+   * the one named, or every portfolio the user can see when none (or "all")
+   * is named. Returns null if the user cannot see such a portfolio.
+   */
+  static async resolveScope(userId: string, portfolioId?: string): Promise<string[] | null> {
+    try {
+      const result = await Database.query(`
+        SELECT id FROM portfolios WHERE user_id = $1
+        UNION
+        SELECT portfolio_id FROM portfolio_members WHERE user_id = $1
+      `, [userId]);
+      const visible: string[] = result.rows.map((row: any) => row.id);
+      
+      if (!portfolioId || portfolioId === ALL_PORTFOLIOS) {
+        return visible;
+      }
+      
+      return visible.includes(portfolioId) ? [portfolioId] : null;
+    } catch (error) {
+      logger.error(`Error resolving portfolios for user ${userId}:`, error);
+      throw new Error('Failed to fetch portfolios');
+    }
+  }
+
+  /**
+   * The user's role in the portfolio holding a stock, or null if they cannot see it
+   */
+  static async getStockRole(stockId: string, userId: string): Promise<PortfolioRole | null> {
+    if (!isUuid(stockId)) {
+      return null;
+    }
+    
+    try {
+      const result = await Database.query(`
+        SELECT ${ROLE_COLUMN}
+        FROM stocks s
+        JOIN portfolios p ON p.id = s.portfolio_id
+        LEFT JOIN portfolio_members m ON m.portfolio_id = p.id AND m.user_id = $2
+        WHERE s.id = $1 AND (p.user_id = $2 OR m.user_id IS NOT NULL)
+      `, [stockId, userId]);
+      
+      return result.rows[0]?.role || null;
+    } catch (error) {
+      logger.error(`Error checking ownership of stock ${stockId}:`, error);
+      throw new Error('Failed to fetch stock');
+    }
+  }
+
+  /**
+   * Create a portfolio owned by a user. Returns null if they already own one by that name.
    */
-  static async getAllStocks(): Promise<Stock[]> {
+  static async createPortfolio(userId: string, data: PortfolioCreateRequest): Promise<PortfolioAccount | null> {
+    try {
+      const result = await Database.query(`
+        INSERT INTO portfolios (user_id, name, description, lot_method)
+        VALUES ($1, $2, $3, $4)
+        ON CONFLICT (user_id, name) DO NOTHING
+        RETURNING *, 'OWNER' as role, 0 as holding_count
+      `, [userId, data.name.trim(), data.description || null, data.lotMethod || 'FIFO']);
+      
+      return result.rows.length > 0 ? this.mapPortfolioRow(result.rows[0]) : null;
+    } catch (error) {
+      logger.error('Error creating portfolio:', error);
+      throw new Error('Failed to create portfolio');
+    }
+  }
+
+  /**
+   * Rename or describe a portfolio the user owns. Returns null if they own no such portfolio.
+   */
+  static async updatePortfolio(id: string, userId: string, data: PortfolioUpdateRequest): Promise<PortfolioAccount | null> {
+    try {
+      const result = await Database.query(`
+        UPDATE portfolios SET
+          name = COALESCE($1, name),
+          description = COALESCE($2, description),
+          updated_at = NOW()
+        WHERE id = $3 AND user_id = $4
+        RETURNING id
+      `, [data.name !== undefined ? data.name.trim() : null, data.description ?? null, id, userId]);
+      
+      return result.rows.length > 0 ? this.getPortfolioById(id, userId) : null;
+    } catch (error) {
+      logger.error(`Error updating portfolio ${id}:`, error);
+      throw new Error('Failed to update portfolio');
+    }
+  }
+
+  /**
+   * Delete a portfolio the user owns together with its stocks, ledger and snapshots
+   */
+  static async deletePortfolio(id: string, userId: string): Promise<boolean> {
+    try {
+      const result = await Database.query('DELETE FROM portfolios WHERE id = $1 AND user_id = $2', [id, userId]);
+      return result.rowCount > 0;
+    } catch (error) {
+      logger.error(`Error deleting portfolio ${id}:`, error);
+      throw new Error('Failed to delete portfolio');
+    }
+  }
+
+  /**
+   * Validate a portfolio request, returning an error message if invalid.
+   * Partial requests (updates) may omit the name.
+   */
+  static validatePortfolio(data: Partial<PortfolioCreateRequest>, partial: boolean = false): string | null {
+    if (!data || typeof data !== 'object') {
+      return 'Request body is required';
+    }
+    
+    if ((!partial || data.name !== undefined) && (typeof data.name !== 'string' || data.name.trim().length === 0)) {
+      return 'name is required';
+    }
+    
+    if (data.name !== undefined && data.name.trim().length > 255) {
+      return 'name must be at most 255 characters';
+    }
+    
+    if (data.description !== undefined && typeof data.description !== 'string') {
+      return 'description must be a string';
+    }
+    
+    if (data.lotMethod !== undefined && (partial || !LotService.isLotMethod(data.lotMethod))) {
+      return partial
+        ? 'lotMethod is changed through the portfolio settings'
+        : `lotMethod must be one of: ${LOT_METHODS.join(', ')}`;
+    }
+    
+    return null;
+  }
+
+  /**
+   * Get all stocks from database with quantity, investment and gain/loss
+   * derived from the transactions ledger. Limited to the given portfolios;
+   * stocks from every portfolio are returned when none are passed.
+   */
+  static async getAllStocks(portfolioIds?: string[]): Promise<Stock[]> {
     try {
       const query = `
         SELECT 
-          id,
-          stock_name,
-          purchase_price,
-          quantity,
-          investment,
-          portfolio_percentage,
-          stock_exchange_code,
-          current_market_price,
-          present_value,
-          gain_loss,
-          pe_ratio,
-          latest_earnings,
-          sector,
-          created_at,
-          updated_at,
-          created_at as purchase_date,
-          updated_at as last_updated
-        FROM stocks 
-        ORDER BY created_at DESC
+          s.id,
+          s.portfolio_id,
+          s.stock_name,
+          s.symbol,
+          s.instrument_id,
+          s.purchase_price,
+          s.quantity,
+          s.investment,
+          s.portfolio_percentage,
+          s.stock_exchange_code,
+          s.current_market_price,
+          s.present_value,
+          s.gain_loss,
+          s.pe_ratio,
+          s.latest_earnings,
+          s.dividend_yield,
+          s.sector,
+          s.created_at,
+          s.updated_at,
+          p.lot_method
+        FROM stocks s
+        JOIN portfolios p ON p.id = s.portfolio_id
+        WHERE ($1::uuid[] IS NULL OR s.portfolio_id = ANY($1::uuid[]))
+        ORDER BY s.created_at DESC
       `;
       
-      const result = await Database.query(query);
+      const [result, ledger] = await Promise.all([
+        Database.query(query, [portfolioIds || null]),
+        TransactionService.getTransactionsGroupedByStock(portfolioIds)
+      ]);
       
-      return result.rows.map((row: any) => ({
-        id: row.id,
-        stockName: row.stock_name,
-        symbol: row.stock_name, // We'll need to add symbol column later
-        purchasePrice: parseFloat(row.purchase_price),
-        quantity: parseInt(row.quantity),
-        investment: parseFloat(row.investment),
-        portfolioPercentage: parseFloat(row.portfolio_percentage),
-        stockExchangeCode: row.stock_exchange_code,
-        currentMarketPrice: parseFloat(row.current_market_price),
-        presentValue: parseFloat(row.present_value),
-        gainLoss: parseFloat(row.gain_loss),
-        peRatio: parseFloat(row.pe_ratio || 0),
-        latestEarnings: parseFloat(row.latest_earnings || 0),
-        sector: row.sector,
-        purchaseDate: row.purchase_date?.toISOString().split('T')[0] || new Date().toISOString().split('T')[0],
-        lastUpdated: row.last_updated?.toISOString() || new Date().toISOString(),
-        createdAt: row.created_at?.toISOString() || new Date().toISOString(),
-        updatedAt: row.updated_at?.toISOString() || new Date().toISOString()
-      }));
+      return result.rows.map((row: any) => this.mapStockRow(row, ledger.get(row.id) || [], row.lot_method));
     } catch (error) {
       logger.error('Error fetching stocks from database:', error);
       throw new Error('Failed to fetch stocks from database');
     }
   }
 
+  /**
+   * Get stocks that still have an open position in the ledger
+   */
+  static async getHoldings(portfolioIds?: string[]): Promise<Stock[]> {
+    const stocks = await this.getAllStocks(portfolioIds);
+    return stocks.filter(stock => stock.quantity > 0);
+  }
+
+  /**
+   * Get open tax lots across all holdings. Pass a method to preview the
+   * lots under a different matching rule without changing the setting.
+   */
+  static async getLots(method?: LotMethod, portfolioIds?: string[]): Promise<LotReport> {
+    const [stocks, ledger, methods] = await Promise.all([
+      this.getHoldings(portfolioIds),
+      TransactionService.getTransactionsGroupedByStock(portfolioIds),
+      LotService.getLotMethods()
+    ]);
+    
+    const lots = stocks.flatMap(stock => {
+      const { openLots } = LotService.buildLots(ledger.get(stock.id) || [], method || LotService.methodFor(methods, stock.portfolioId));
+      return LotService.describeOpenLots(stock, openLots);
+    });
+    
+    return this.buildLotReport(method || this.reportMethod(methods, portfolioIds), lots);
+  }
+
+  /**
+   * Get open tax lots for a single stock
+   */
+  static async getStockLots(stockId: string, method?: LotMethod): Promise<LotReport | null> {
+    const stock = await this.getStockById(stockId);
+    if (!stock) {
+      return null;
+    }
+    
+    const [transactions, configuredMethod] = await Promise.all([
+      TransactionService.getTransactionsByStock(stockId),
+      LotService.getLotMethod(stock.portfolioId)
+    ]);
+    const lotMethod = method || configuredMethod;
+    const { openLots } = LotService.buildLots(transactions, lotMethod);
+    
+    return this.buildLotReport(lotMethod, LotService.describeOpenLots(stock, openLots));
+  }
+
+  /**
+   * Get realized gains from SELLs matched to lots, optionally limited to
+   * sales dated within [from, to], grouped by stock and by sector.
+   * Each stock uses its portfolio's lot method unless one is passed explicitly.
+   */
+  static async getRealizedGains(from?: string, to?: string, lotMethod?: LotMethod, portfolioIds?: string[]): Promise<RealizedGainReport> {
+    const [stocks, ledger, methods] = await Promise.all([
+      this.getAllStocks(portfolioIds),
+      TransactionService.getTransactionsGroupedByStock(portfolioIds),
+      LotService.getLotMethods()
+    ]);
+    
+    const byStock = stocks
+      .map(stock => {
+        const { matches } = LotService.buildLots(ledger.get(stock.id) || [], lotMethod || LotService.methodFor(methods, stock.portfolioId));
+        const realized = matches.filter(match =>
+          match.disposalType === 'SELL' &&
+          (!from || match.disposedDate >= from) &&
+          (!to || match.disposedDate <= to)
+        );
+        
+        return {
+          stockId: stock.id,
+          stockName: stock.stockName,
+          symbol: stock.symbol,
+          sector: stock.sector,
+          stockExchangeCode: stock.stockExchangeCode,
+          ...this.sumMatches(realized),
+          matches: realized
+        };
+      })
+      .filter(entry => entry.matches.length > 0);
+    
+    const sectorMap = new Map<string, LotMatch[]>();
+    const sectorStocks = new Map<string, number>();
+    byStock.forEach(entry => {
+      if (!sectorMap.has(entry.sector)) {
+        sectorMap.set(entry.sector, []);
+        sectorStocks.set(entry.sector, 0);
+      }
+      sectorMap.get(entry.sector)!.push(...entry.matches);
+      sectorStocks.set(entry.sector, sectorStocks.get(entry.sector)! + 1);
+    });
+    
+    const bySector = Array.from(sectorMap.entries()).map(([sector, matches]) => ({
+      sector,
+      stockCount: sectorStocks.get(sector)!,
+      ...this.sumMatches(matches)
+    }));
+    
+    return {
+      method: lotMethod || this.reportMethod(methods, portfolioIds),
+      from: from || null,
+      to: to || null,
+      totals: this.sumMatches(byStock.flatMap(entry => entry.matches)),
+      byStock,
+      bySector
+    };
+  }
+
+  /**
+   * Change a portfolio's lot matching method and refresh the cached cost
+   * basis of every stock it holds
+   */
+  static async setLotMethod(method: LotMethod, portfolioId: string): Promise<LotMethod> {
+    try {
+      await LotService.setLotMethod(method, portfolioId);
+      
+      const result = await Database.query('SELECT id FROM stocks WHERE portfolio_id = $1', [portfolioId]);
+      for (const row of result.rows) {
+        await TransactionService.syncStockPosition(row.id);
+      }
+      
+      logger.info(`Lot method of portfolio ${portfolioId} set to ${method}; resynced ${result.rows.length} stocks`);
+      return method;
+    } catch (error) {
+      logger.error('Error updating lot method:', error);
+      throw new Error('Failed to update lot method');
+    }
+  }
+
   /**
    * Get portfolio summary
    */
-  static async getPortfolioSummary(): Promise<Portfolio> {
-    const stocks = await this.getAllStocks();
+  static async getPortfolioSummary(portfolioIds?: string[]): Promise<Portfolio> {
+    const stocks = await this.getHoldings(portfolioIds);
     
     const totalInvestment = stocks.reduce((sum, stock) => sum + stock.investment, 0);
     const totalPresentValue = stocks.reduce((sum, stock) => sum + stock.presentValue, 0);
@@ -79,15 +430,29 @@ export class PortfolioService {
       totalInvestment,
       totalPresentValue,
       totalGainLoss,
+      ...this.aggregateDayGain(stocks),
       stocks: updatedStocks
     };
   }
 
+  /**
+   * Total day gain of a set of holdings, as a percentage of their value at the previous close
+   */
+  static aggregateDayGain(stocks: Stock[]): { dayGain: number; dayGainPercentage: number } {
+    const dayGain = stocks.reduce((sum, stock) => sum + (stock.dayGain || 0), 0);
+    const previousValue = stocks.reduce((sum, stock) => sum + (stock.previousClose ?? stock.currentMarketPrice) * stock.quantity, 0);
+
+    return {
+      dayGain,
+      dayGainPercentage: previousValue > 0 ? (dayGain / previousValue) * 100 : 0
+    };
+  }
+
   /**
    * Get sector summary
    */
-  static async getSectorSummary(): Promise<SectorSummary[]> {
-    const stocks = await this.getAllStocks();
+  static async getSectorSummary(portfolioIds?: string[]): Promise<SectorSummary[]> {
+    const stocks = await this.getHoldings(portfolioIds);
     
     const sectorMap = new Map<string, Stock[]>();
     stocks.forEach(stock => {
@@ -110,202 +475,127 @@ export class PortfolioService {
         totalGainLoss,
         stocks: sectorStocks,
         stockCount: sectorStocks.length,
-        gainLossPercentage
+        gainLossPercentage,
+        ...this.aggregateDayGain(sectorStocks)
       };
     });
   }
 
   /**
-   * Create new stock
+   * Get stock by ID with its ledger-derived position
    */
-  static async createStock(stockData: any): Promise<Stock> {
+  static async getStockById(id: string): Promise<Stock | null> {
     try {
       const query = `
-        INSERT INTO stocks (
-          stock_name, purchase_price, quantity, investment,
-          stock_exchange_code, current_market_price, present_value,
-          gain_loss, pe_ratio, latest_earnings, sector
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
-        RETURNING *
+        SELECT s.*, p.lot_method
+        FROM stocks s
+        JOIN portfolios p ON p.id = s.portfolio_id
+        WHERE s.id = $1
       `;
+      const result = await Database.query(query, [id]);
       
-      const investment = stockData.purchasePrice * stockData.quantity;
-      const presentValue = stockData.currentMarketPrice * stockData.quantity;
-      const gainLoss = presentValue - investment;
-      
-      const values = [
-        stockData.stockName,
-        stockData.purchasePrice,
-        stockData.quantity,
-        investment,
-        stockData.stockExchangeCode,
-        stockData.currentMarketPrice,
-        presentValue,
-        gainLoss,
-        stockData.peRatio || 0,
-        stockData.latestEarnings || 0,
-        stockData.sector
-      ];
-      
-      const result = await Database.query(query, values);
-      const row = result.rows[0];
+      if (result.rows.length === 0) {
+        return null;
+      }
       
-      return {
-        id: row.id,
-        stockName: row.stock_name,
-        symbol: row.stock_name,
-        purchasePrice: parseFloat(row.purchase_price),
-        quantity: parseInt(row.quantity),
-        investment: parseFloat(row.investment),
-        portfolioPercentage: 0,
-        stockExchangeCode: row.stock_exchange_code,
-        currentMarketPrice: parseFloat(row.current_market_price),
-        presentValue: parseFloat(row.present_value),
-        gainLoss: parseFloat(row.gain_loss),
-        peRatio: parseFloat(row.pe_ratio || 0),
-        latestEarnings: parseFloat(row.latest_earnings || 0),
-        sector: row.sector,
-        purchaseDate: row.created_at?.toISOString().split('T')[0] || new Date().toISOString().split('T')[0],
-        lastUpdated: row.updated_at?.toISOString() || new Date().toISOString(),
-        createdAt: row.created_at?.toISOString() || new Date().toISOString(),
-        updatedAt: row.updated_at?.toISOString() || new Date().toISOString()
-      };
+      const transactions = await TransactionService.getTransactionsByStock(id);
+      return this.mapStockRow(result.rows[0], transactions, result.rows[0].lot_method);
     } catch (error) {
-      logger.error('Error creating stock:', error);
-      throw new Error('Failed to create stock');
+      logger.error('Error fetching stock by ID:', error);
+      throw new Error('Failed to fetch stock');
     }
   }
 
+  private static sumMatches(matches: LotMatch[]): RealizedGainTotals {
+    const proceeds = matches.reduce((sum, match) => sum + match.proceeds, 0);
+    const costBasis = matches.reduce((sum, match) => sum + match.costBasis, 0);
+    const gainLoss = proceeds - costBasis;
+    
+    return {
+      quantity: matches.reduce((sum, match) => sum + match.quantity, 0),
+      proceeds,
+      costBasis,
+      gainLoss,
+      gainLossPercentage: costBasis > 0 ? (gainLoss / costBasis) * 100 : 0
+    };
+  }
+
   /**
-   * Update stock
+   * The method a report is labelled with: the one shared by every portfolio
+   * it covers, or MIXED when they differ
    */
-  static async updateStock(id: string, updates: any): Promise<Stock> {
-    try {
-      // First get the current stock
-      const currentStock = await this.getStockById(id);
-      if (!currentStock) {
-        throw new Error('Stock not found');
+  private static reportMethod(methods: Map<string, LotMethod>, portfolioIds?: string[]): ReportLotMethod {
+    const covered = portfolioIds || Array.from(methods.keys());
+    const distinct = new Set(covered.map(id => LotService.methodFor(methods, id)));
+    return distinct.size > 1 ? 'MIXED' : LotService.methodFor(methods, covered[0]);
+  }
+
+  private static buildLotReport(method: ReportLotMethod, lots: OpenLotView[]): LotReport {
+    const costBasis = lots.reduce((sum, lot) => sum + lot.costBasis, 0);
+    const marketValue = lots.reduce((sum, lot) => sum + lot.marketValue, 0);
+    const unrealizedGainLoss = marketValue - costBasis;
+    
+    return {
+      method,
+      lots,
+      totals: {
+        quantity: lots.reduce((sum, lot) => sum + lot.remainingQuantity, 0),
+        costBasis,
+        marketValue,
+        unrealizedGainLoss,
+        unrealizedGainLossPercentage: costBasis > 0 ? (unrealizedGainLoss / costBasis) * 100 : 0
       }
-      
-      // Calculate new values
-      const updatedStock = { ...currentStock, ...updates };
-      const investment = updatedStock.purchasePrice * updatedStock.quantity;
-      const presentValue = updatedStock.currentMarketPrice * updatedStock.quantity;
-      const gainLoss = presentValue - investment;
-      
-      const query = `
-        UPDATE stocks SET
-          stock_name = $1,
-          purchase_price = $2,
-          quantity = $3,
-          investment = $4,
-          stock_exchange_code = $5,
-          current_market_price = $6,
-          present_value = $7,
-          gain_loss = $8,
-          pe_ratio = $9,
-          latest_earnings = $10,
-          sector = $11,
-          updated_at = NOW()
-        WHERE id = $12
-        RETURNING *
-      `;
-      
-      const values = [
-        updatedStock.stockName,
-        updatedStock.purchasePrice,
-        updatedStock.quantity,
-        investment,
-        updatedStock.stockExchangeCode,
-        updatedStock.currentMarketPrice,
-        presentValue,
-        gainLoss,
-        updatedStock.peRatio,
-        updatedStock.latestEarnings,
-        updatedStock.sector,
-        id
-      ];
-      
-      const result = await Database.query(query, values);
-      const row = result.rows[0];
-      
-      return {
-        id: row.id,
-        stockName: row.stock_name,
-        symbol: row.stock_name,
-        purchasePrice: parseFloat(row.purchase_price),
-        quantity: parseInt(row.quantity),
-        investment: parseFloat(row.investment),
-        portfolioPercentage: 0,
-        stockExchangeCode: row.stock_exchange_code,
-        currentMarketPrice: parseFloat(row.current_market_price),
-        presentValue: parseFloat(row.present_value),
-        gainLoss: parseFloat(row.gain_loss),
-        peRatio: parseFloat(row.pe_ratio || 0),
-        latestEarnings: parseFloat(row.latest_earnings || 0),
-        sector: row.sector,
-        purchaseDate: row.created_at?.toISOString().split('T')[0] || new Date().toISOString().split('T')[0],
-        lastUpdated: row.updated_at?.toISOString() || new Date().toISOString(),
-        createdAt: row.created_at?.toISOString() || new Date().toISOString(),
-        updatedAt: row.updated_at?.toISOString() || new Date().toISOString()
-      };
-    } catch (error) {
-      logger.error('Error updating stock:', error);
-      throw new Error('Failed to update stock');
-    }
+    };
   }
 
   /**
-   * Delete stock
+   * Map a stocks row to a Stock, replacing the denormalized position
+   * columns with values derived from the ledger
    */
-  static async deleteStock(id: string): Promise<boolean> {
-    try {
-      const query = 'DELETE FROM stocks WHERE id = $1';
-      const result = await Database.query(query, [id]);
-      return result.rowCount > 0;
-    } catch (error) {
-      logger.error('Error deleting stock:', error);
-      throw new Error('Failed to delete stock');
-    }
+  private static mapStockRow(row: any, transactions: Transaction[], method: LotMethod): Stock {
+    const currentMarketPrice = parseFloat(row.current_market_price);
+    const position = TransactionService.calculatePosition(transactions, method);
+    const presentValue = currentMarketPrice * position.quantity;
+    const purchaseDate = position.firstTransactionDate
+      || row.created_at?.toISOString().split('T')[0]
+      || new Date().toISOString().split('T')[0];
+    
+    return {
+      id: row.id,
+      portfolioId: row.portfolio_id,
+      instrumentId: row.instrument_id || undefined,
+      stockName: row.stock_name,
+      symbol: row.symbol,
+      purchasePrice: position.averageCost,
+      quantity: position.quantity,
+      investment: position.investment,
+      portfolioPercentage: parseFloat(row.portfolio_percentage),
+      stockExchangeCode: row.stock_exchange_code,
+      currentMarketPrice,
+      presentValue,
+      gainLoss: presentValue - position.investment,
+      peRatio: parseFloat(row.pe_ratio || 0),
+      latestEarnings: parseFloat(row.latest_earnings || 0),
+      dividendYield: row.dividend_yield !== null && row.dividend_yield !== undefined ? parseFloat(row.dividend_yield) : undefined,
+      sector: row.sector,
+      purchaseDate,
+      lastUpdated: row.updated_at?.toISOString() || new Date().toISOString(),
+      createdAt: row.created_at?.toISOString() || new Date().toISOString(),
+      updatedAt: row.updated_at?.toISOString() || new Date().toISOString()
+    };
   }
 
-  /**
-   * Get stock by ID
-   */
-  static async getStockById(id: string): Promise<Stock | null> {
-    try {
-      const query = 'SELECT * FROM stocks WHERE id = $1';
-      const result = await Database.query(query, [id]);
-      
-      if (result.rows.length === 0) {
-        return null;
-      }
-      
-      const row = result.rows[0];
-      return {
-        id: row.id,
-        stockName: row.stock_name,
-        symbol: row.stock_name,
-        purchasePrice: parseFloat(row.purchase_price),
-        quantity: parseInt(row.quantity),
-        investment: parseFloat(row.investment),
-        portfolioPercentage: parseFloat(row.portfolio_percentage),
-        stockExchangeCode: row.stock_exchange_code,
-        currentMarketPrice: parseFloat(row.current_market_price),
-        presentValue: parseFloat(row.present_value),
-        gainLoss: parseFloat(row.gain_loss),
-        peRatio: parseFloat(row.pe_ratio || 0),
-        latestEarnings: parseFloat(row.latest_earnings || 0),
-        sector: row.sector,
-        purchaseDate: row.created_at?.toISOString().split('T')[0] || new Date().toISOString().split('T')[0],
-        lastUpdated: row.updated_at?.toISOString() || new Date().toISOString(),
-        createdAt: row.created_at?.toISOString() || new Date().toISOString(),
-        updatedAt: row.updated_at?.toISOString() || new Date().toISOString()
-      };
-    } catch (error) {
-      logger.error('Error fetching stock by ID:', error);
-      throw new Error('Failed to fetch stock');
-    }
+  private static mapPortfolioRow(row: any): PortfolioAccount {
+    return {
+      id: row.id,
+      name: row.name,
+      description: row.description || undefined,
+      lotMethod: row.lot_method,
+      role: row.role,
+      holdingCount: parseInt(row.holding_count || 0),
+      createdAt: row.created_at?.toISOString() || new Date().toISOString(),
+      updatedAt: row.updated_at?.toISOString() || new Date().toISOString()
+    };
   }
 }
 
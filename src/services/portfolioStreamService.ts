@@ -0,0 +1,264 @@
+import { Request, Response } from 'express';
+import { DEFAULT_PORTFOLIO_ID } from '../config/portfolio';
+import { PortfolioService } from './portfolioService';
+import { HoldingValuation, PortfolioValuation, PriceTick, Stock } from '../types/stock';
+import { logger } from '../utils/logger';
+import { toCanonicalSymbol } from '../utils/symbols';
+
+interface StreamEvent {
+  id: number;
+  timestamp: string;
+  ticks: PriceTick[];
+  changes: HoldingValuation[];
+  // Every known holding's valuation as of this event
+  holdings: HoldingValuation[];
+}
+
+interface StreamClient {
+  id: number;
+  userId: string;
+  portfolioIds: Set<string>;
+  res: Response;
+}
+
+const HEARTBEAT_INTERVAL = parseInt(process.env.STREAM_HEARTBEAT_INTERVAL || '15000', 10); // 15 seconds
+const REPLAY_BUFFER_SIZE = parseInt(process.env.STREAM_REPLAY_BUFFER || '100', 10);
+const RECONNECT_DELAY = 5000;
+
+/**
+ * Value a holding at a price, keeping its stored price as the previous one
+ */
+export const toHoldingValuation = (stock: Stock, price: number): HoldingValuation => ({
+  stockId: stock.id,
+  portfolioId: stock.portfolioId || DEFAULT_PORTFOLIO_ID,
+  stockName: stock.stockName,
+  symbol: stock.symbol ? toCanonicalSymbol({ exchange: stock.stockExchangeCode, ticker: stock.symbol }) : undefined,
+  exchange: stock.stockExchangeCode,
+  quantity: stock.quantity,
+  investment: stock.investment,
+  price,
+  previousPrice: stock.currentMarketPrice,
+  presentValue: price * stock.quantity,
+  gainLoss: price * stock.quantity - stock.investment
+});
+
+/**
+ * Server-Sent Events stream of portfolio valuation. Each price update is
+ * pushed to every subscriber as up to three events, limited to the
+ * subscriber's portfolios:
+ *
+ *   tick       canonical symbols' new prices
+ *   holdings   holdings whose price changed, with the previous price
+ *   portfolio  totals across the subscriber's holdings
+ *
+ * Triggered price alerts are pushed to their owner's streams as alert
+ * events; these are not replayed.
+ *
+ * Only the closing portfolio event carries an id, so a client resuming
+ * from its Last-Event-ID replays whole updates. The last
+ * STREAM_REPLAY_BUFFER updates are kept for that; a client further behind
+ * (or reconnecting after a restart) gets a fresh snapshot event instead.
+ */
+class PortfolioStreamService {
+  private clients = new Map<number, StreamClient>();
+  private events: StreamEvent[] = [];
+  private holdings = new Map<string, HoldingValuation>();
+  private lastEventId = 0;
+  private nextClientId = 1;
+  private heartbeat: NodeJS.Timeout | null = null;
+
+  /**
+   * Hold the response open as an event stream for the given portfolios
+   */
+  async subscribe(req: Request, res: Response, userId: string, portfolioIds: string[], lastEventId?: string): Promise<void> {
+    let closed = false;
+    req.on('close', () => {
+      closed = true;
+    });
+
+    res.status(200);
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no');
+    res.flushHeaders();
+    res.write(`retry: ${RECONNECT_DELAY}\n\n`);
+
+    const client: StreamClient = { id: this.nextClientId++, userId, portfolioIds: new Set(portfolioIds), res };
+    const resumeFrom = this.replayableFrom(lastEventId);
+
+    if (resumeFrom !== null) {
+      this.events.filter(event => event.id > resumeFrom).forEach(event => this.sendEvent(client, event));
+    } else {
+      const snapshotId = this.lastEventId;
+      await this.sendSnapshot(client, portfolioIds, snapshotId);
+      // Updates published while the snapshot was loading
+      this.events.filter(event => event.id > snapshotId).forEach(event => this.sendEvent(client, event));
+    }
+
+    if (closed) {
+      return;
+    }
+
+    this.clients.set(client.id, client);
+    this.startHeartbeat();
+    logger.info(`Portfolio stream ${client.id} opened for ${portfolioIds.length} portfolio(s); ${this.clients.size} open`);
+
+    req.on('close', () => {
+      this.clients.delete(client.id);
+      if (this.clients.size === 0) {
+        this.stopHeartbeat();
+      }
+      logger.info(`Portfolio stream ${client.id} closed; ${this.clients.size} open`);
+    });
+  }
+
+  /**
+   * Record a completed price update and push it to subscribers. A complete
+   * update values every holding; otherwise only the given holdings changed.
+   */
+  publish(valuations: HoldingValuation[], ticks: PriceTick[], complete: boolean): void {
+    if (complete) {
+      this.holdings = new Map(valuations.map(valuation => [valuation.stockId, valuation]));
+    } else {
+      valuations.forEach(valuation => this.holdings.set(valuation.stockId, valuation));
+    }
+
+    const event: StreamEvent = {
+      id: ++this.lastEventId,
+      timestamp: new Date().toISOString(),
+      ticks,
+      changes: valuations.filter(valuation => valuation.price !== valuation.previousPrice),
+      holdings: Array.from(this.holdings.values())
+    };
+
+    this.events.push(event);
+    if (this.events.length > REPLAY_BUFFER_SIZE) {
+      this.events.shift();
+    }
+
+    this.clients.forEach(client => this.sendEvent(client, event));
+  }
+
+  /**
+   * Push an event to every stream the user has open
+   */
+  notifyUser(userId: string, event: string, data: any): void {
+    this.clients.forEach(client => {
+      if (client.userId === userId) {
+        this.write(client.res, event, data);
+      }
+    });
+  }
+
+  /**
+   * End every open stream, e.g. on shutdown
+   */
+  closeAll(): void {
+    this.clients.forEach(client => client.res.end());
+    this.clients.clear();
+    this.stopHeartbeat();
+  }
+
+  getStats(): { clients: number; lastEventId: number; bufferedEvents: number } {
+    return {
+      clients: this.clients.size,
+      lastEventId: this.lastEventId,
+      bufferedEvents: this.events.length
+    };
+  }
+
+  /**
+   * The event id to replay from, or null if the client needs a snapshot
+   */
+  private replayableFrom(lastEventId?: string): number | null {
+    if (!lastEventId || !/^\d+$/.test(lastEventId)) {
+      return null;
+    }
+
+    const id = parseInt(lastEventId, 10);
+    const oldest = this.events.length > 0 ? this.events[0].id : this.lastEventId + 1;
+    // Ids restart with the server, so an id from the future is from a previous run
+    return id >= oldest - 1 && id <= this.lastEventId ? id : null;
+  }
+
+  private async sendSnapshot(client: StreamClient, portfolioIds: string[], eventId: number): Promise<void> {
+    const stocks = await PortfolioService.getHoldings(portfolioIds);
+    const valuations = stocks.map(stock => {
+      // Quantity and cost come from the ledger, which may have changed since the
+      // last update; the price is the last one streamed, or the stored one
+      const cached = this.holdings.get(stock.id);
+      const valuation = cached
+        ? { ...toHoldingValuation(stock, cached.price), previousPrice: cached.previousPrice }
+        : toHoldingValuation(stock, stock.currentMarketPrice);
+      this.holdings.set(stock.id, valuation);
+      return valuation;
+    });
+
+    this.write(client.res, 'snapshot', {
+      holdings: valuations,
+      portfolio: this.totals(valuations, new Date().toISOString())
+    }, eventId);
+  }
+
+  private sendEvent(client: StreamClient, event: StreamEvent): void {
+    const holdings = event.holdings.filter(valuation => client.portfolioIds.has(valuation.portfolioId));
+    const changes = event.changes.filter(valuation => client.portfolioIds.has(valuation.portfolioId));
+    const symbols = new Set(holdings.map(valuation => valuation.symbol).filter(Boolean));
+    const ticks = event.ticks.filter(tick => symbols.has(tick.symbol));
+
+    if (ticks.length === 0 && changes.length === 0) {
+      return;
+    }
+
+    if (ticks.length > 0) {
+      this.write(client.res, 'tick', ticks);
+    }
+    if (changes.length > 0) {
+      this.write(client.res, 'holdings', changes);
+    }
+    this.write(client.res, 'portfolio', this.totals(holdings, event.timestamp), event.id);
+  }
+
+  private totals(holdings: HoldingValuation[], timestamp: string): PortfolioValuation {
+    const totalInvestment = holdings.reduce((sum, valuation) => sum + valuation.investment, 0);
+    const totalPresentValue = holdings.reduce((sum, valuation) => sum + valuation.presentValue, 0);
+    const totalGainLoss = totalPresentValue - totalInvestment;
+
+    return {
+      totalInvestment,
+      totalPresentValue,
+      totalGainLoss,
+      gainLossPercentage: totalInvestment > 0 ? (totalGainLoss / totalInvestment) * 100 : 0,
+      holdings: holdings.length,
+      timestamp
+    };
+  }
+
+  private write(res: Response, event: string, data: any, id?: number): void {
+    const idLine = id !== undefined ? `id: ${id}\n` : '';
+    res.write(`${idLine}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  }
+
+  private startHeartbeat(): void {
+    if (this.heartbeat) {
+      return;
+    }
+
+    // Comment lines keep proxies from closing idle connections
+    this.heartbeat = setInterval(() => {
+      this.clients.forEach(client => client.res.write(`: heartbeat ${new Date().toISOString()}\n\n`));
+    }, HEARTBEAT_INTERVAL);
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = null;
+    }
+  }
+}
+
+// Create singleton instance
+export const portfolioStreamService = new PortfolioStreamService();
+export default portfolioStreamService;
@@ -1,74 +1,172 @@
 import Database from '../config/database';
 import { marketDataService } from './marketDataService';
+import { PortfolioService } from './portfolioService';
+import { SnapshotService } from './snapshotService';
+import { InstrumentService } from './instrumentService';
+import { marketCalendarService } from './marketCalendarService';
+import { AlertService } from './alertService';
+import { portfolioStreamService, toHoldingValuation } from './portfolioStreamService';
 import { logger } from '../utils/logger';
-
+import { toCanonicalSymbol } from '../utils/symbols';
+import { AlertReading, HoldingValuation, MarketData, PriceSchedulerStatus, PriceTick, Stock } from '../types/stock';
+
+/**
+ * Keeps holdings' prices current. Once started, the scheduler checks every
+ * minute which exchanges are due: an exchange in its regular session is
+ * polled every PRICE_UPDATE_INTERVAL, and once per trading day,
+ * PRICE_CLOSE_CAPTURE_DELAY after the close, its holdings are updated one
+ * last time to record closing prices. Outside those times nothing is fetched.
+ * Price alerts on the holdings just priced are evaluated after each update.
+ */
 export class PriceUpdateService {
-  private updateInterval: NodeJS.Timeout | null = null;
-  private readonly UPDATE_INTERVAL = 5 * 60 * 1000; // 5 minutes
+  private schedulerInterval: NodeJS.Timeout | null = null;
+  private readonly CHECK_INTERVAL = 60 * 1000; // 1 minute
+  private readonly UPDATE_INTERVAL = parseInt(process.env.PRICE_UPDATE_INTERVAL || '300000', 10); // 5 minutes
+  private readonly CLOSE_CAPTURE_DELAY = parseInt(process.env.PRICE_CLOSE_CAPTURE_DELAY || '900000', 10); // 15 minutes
+  private readonly SNAPSHOT_EVERY_UPDATE = process.env.SNAPSHOT_EVERY_UPDATE === 'true';
   private isUpdating = false;
+  private paused = false;
+  private lastPolls = new Map<string, number>();
+  private closeCaptures = new Map<string, number>();
+  private lastRun: { at: Date; polled: string[]; closing: string[] } | null = null;
 
   /**
-   * Start automatic price updates
+   * Start the scheduler. Called once from server startup.
    */
-  startAutoUpdate(): void {
-    if (this.updateInterval) {
-      logger.warn('Price update service is already running');
+  start(): void {
+    if (this.schedulerInterval) {
+      logger.warn('Price update scheduler is already running');
       return;
     }
 
-    logger.info(`Starting automatic price updates every ${this.UPDATE_INTERVAL / 1000} seconds`);
-    
-    // Initial update
-    this.updateAllStockPrices();
-    
-    // Set up recurring updates
-    this.updateInterval = setInterval(() => {
-      this.updateAllStockPrices();
-    }, this.UPDATE_INTERVAL);
+    logger.info(`Starting price update scheduler: every ${this.UPDATE_INTERVAL / 1000} seconds while an exchange is open`);
+
+    // Holdings created before symbols were stored keep their stored price until one resolves
+    InstrumentService.assignMissingSymbols().catch(error => logger.warn('Could not assign missing symbols:', error));
+    this.runDueUpdates();
+    this.schedulerInterval = setInterval(() => {
+      this.runDueUpdates();
+    }, this.CHECK_INTERVAL);
+  }
+
+  /**
+   * Stop the scheduler
+   */
+  stop(): void {
+    if (this.schedulerInterval) {
+      clearInterval(this.schedulerInterval);
+      this.schedulerInterval = null;
+      logger.info('Stopped price update scheduler');
+    }
   }
 
   /**
-   * Stop automatic price updates
+   * Skip scheduled updates until resumed. Manual updates still run.
    */
-  stopAutoUpdate(): void {
-    if (this.updateInterval) {
-      clearInterval(this.updateInterval);
-      this.updateInterval = null;
-      logger.info('Stopped automatic price updates');
+  pause(): void {
+    if (!this.paused) {
+      this.paused = true;
+      logger.info('Paused scheduled price updates');
     }
   }
 
   /**
-   * Update prices for all stocks in the database
+   * Resume scheduled updates, catching up on anything that came due while paused
    */
-  async updateAllStockPrices(): Promise<void> {
+  resume(): void {
+    if (this.paused) {
+      this.paused = false;
+      logger.info('Resumed scheduled price updates');
+      this.runDueUpdates();
+    }
+  }
+
+  /**
+   * Update holdings on every exchange that is due for a poll or a closing-price capture
+   */
+  async runDueUpdates(now: Date = new Date()): Promise<void> {
+    if (this.paused || this.isUpdating) {
+      return;
+    }
+
+    const polling: string[] = [];
+    const closing: string[] = [];
+    const closes = new Map<string, number>();
+
+    for (const exchange of marketCalendarService.listExchanges()) {
+      if (marketCalendarService.isOpen(exchange, now)) {
+        if (now.getTime() - (this.lastPolls.get(exchange) || 0) >= this.UPDATE_INTERVAL) {
+          polling.push(exchange);
+        }
+        continue;
+      }
+
+      const lastClose = marketCalendarService.lastClose(exchange, now);
+      if (lastClose
+        && now.getTime() >= lastClose.getTime() + this.CLOSE_CAPTURE_DELAY
+        && this.closeCaptures.get(exchange) !== lastClose.getTime()) {
+        closing.push(exchange);
+        closes.set(exchange, lastClose.getTime());
+      }
+    }
+
+    if (polling.length === 0 && closing.length === 0) {
+      return;
+    }
+
+    logger.info(`Scheduled price update for ${[...polling, ...closing.map(exchange => `${exchange} (close)`)].join(', ')}`);
+    polling.forEach(exchange => this.lastPolls.set(exchange, now.getTime()));
+
+    const completed = await this.updateAllStockPrices([...polling, ...closing]);
+    if (completed) {
+      // A failed capture is retried on the next check
+      closes.forEach((close, exchange) => this.closeCaptures.set(exchange, close));
+      this.lastRun = { at: now, polled: polling, closing };
+    }
+  }
+
+  /**
+   * Update prices for all holdings, or only those listed on the given
+   * exchanges. Holdings on other exchanges keep their stored price but
+   * still count toward portfolio totals and snapshots. Resolves to false
+   * if the update was skipped or failed.
+   */
+  async updateAllStockPrices(exchanges?: string[]): Promise<boolean> {
     if (this.isUpdating) {
       logger.debug('Price update already in progress, skipping');
-      return;
+      return false;
     }
 
     this.isUpdating = true;
     const startTime = Date.now();
 
     try {
-      logger.info('🔄 Starting portfolio price update...');
+      logger.info(`🔄 Starting portfolio price update${exchanges ? ` for ${exchanges.join(', ')}` : ''}...`);
 
-      // Get all stocks from database
-      const stocksResult = await Database.query(`
-        SELECT id, stock_name, purchase_price, quantity, stock_exchange_code, sector
-        FROM stocks
-      `);
-
-      const stocks = stocksResult.rows;
+      // Get ledger-derived holdings
+      const stocks = await PortfolioService.getHoldings();
       if (stocks.length === 0) {
         logger.info('No stocks found in portfolio');
-        return;
+        return true;
+      }
+
+      // Exchanges without a calendar count as always open, so they are part of every update
+      const isUpdated = (stock: Stock) => !exchanges
+        || exchanges.includes(stock.stockExchangeCode.toUpperCase())
+        || !marketCalendarService.isKnownExchange(stock.stockExchangeCode);
+      const updatedStocks = stocks.filter(isUpdated);
+      if (updatedStocks.length === 0) {
+        logger.info('No holdings on the exchanges being updated');
+        return true;
       }
 
-      logger.info(`Updating prices for ${stocks.length} stocks`);
+      logger.info(`Updating prices for ${updatedStocks.length} stocks`);
 
-      // Extract symbols for batch fetching
-      const symbols = stocks.map((stock: any) => this.extractStockSymbol(stock.stock_name));
+      // Holdings without a resolved symbol keep their stored price. Canonical
+      // symbols let one batch cover holdings on different exchanges.
+      const canonicalSymbol = (stock: { symbol?: string; stockExchangeCode: string }) =>
+        toCanonicalSymbol({ exchange: stock.stockExchangeCode, ticker: stock.symbol });
+      const symbols = updatedStocks.filter(stock => stock.symbol).map(canonicalSymbol);
       
       // Fetch market data in batch
       const marketDataResults = await marketDataService.getBatchMarketData(symbols);
@@ -76,25 +174,44 @@ export class PriceUpdateService {
       let updatedCount = 0;
       let totalInvestment = 0;
       let totalPresentValue = 0;
+      const portfolioTotals = new Map<string, { totalInvestment: number; totalPresentValue: number }>();
+      const closingPrices: Array<{ stockId: string; price: number; quantity: number }> = [];
+      const valuations: HoldingValuation[] = [];
+      const readings: AlertReading[] = [];
+      const addValuation = (stock: Stock, price: number) => {
+        const valuation = toHoldingValuation(stock, price);
+        valuations.push(valuation);
+        totalInvestment += valuation.investment;
+        totalPresentValue += valuation.presentValue;
+
+        const totals = portfolioTotals.get(valuation.portfolioId) || { totalInvestment: 0, totalPresentValue: 0 };
+        totals.totalInvestment += valuation.investment;
+        totals.totalPresentValue += valuation.presentValue;
+        portfolioTotals.set(valuation.portfolioId, totals);
+      };
 
       // Update each stock
       for (const stock of stocks) {
         try {
-          const symbol = this.extractStockSymbol(stock.stock_name);
-          const marketData = marketDataResults[symbol];
+          if (!isUpdated(stock)) {
+            addValuation(stock, stock.currentMarketPrice);
+            continue;
+          }
 
-          let currentMarketPrice = stock.purchase_price; // Fallback
-          let peRatio = 0;
-          let latestEarnings = 0;
+          const marketData = stock.symbol ? marketDataResults[canonicalSymbol(stock)] : null;
 
-          if (marketData) {
-            currentMarketPrice = marketData.currentPrice;
-            peRatio = marketData.peRatio || 0;
-            latestEarnings = marketData.latestEarnings || 0;
+          // Without a quote the stored price stands, and no closing price is recorded
+          if (!marketData) {
+            addValuation(stock, stock.currentMarketPrice);
+            continue;
           }
 
+          const currentMarketPrice = marketData.currentPrice;
+          const peRatio = marketData.peRatio || 0;
+          const latestEarnings = marketData.latestEarnings || 0;
+
           // Calculate derived values
-          const investment = stock.purchase_price * stock.quantity;
+          const investment = stock.investment;
           const presentValue = currentMarketPrice * stock.quantity;
           const gainLoss = presentValue - investment;
 
@@ -107,50 +224,58 @@ export class PriceUpdateService {
               gain_loss = $3,
               pe_ratio = $4,
               latest_earnings = $5,
+              dividend_yield = COALESCE($7, dividend_yield),
               updated_at = NOW()
             WHERE id = $6
-          `, [currentMarketPrice, presentValue, gainLoss, peRatio, latestEarnings, stock.id]);
+          `, [currentMarketPrice, presentValue, gainLoss, peRatio, latestEarnings, stock.id, marketData.dividendYield ?? null]);
 
-          totalInvestment += investment;
-          totalPresentValue += presentValue;
+          addValuation(stock, currentMarketPrice);
           updatedCount++;
+          closingPrices.push({ stockId: stock.id, price: currentMarketPrice, quantity: stock.quantity });
+          readings.push(this.toAlertReading(stock, marketData));
 
-          if (marketData) {
-            const changeText = marketData.changePercent !== undefined 
-              ? `${marketData.changePercent > 0 ? '+' : ''}${marketData.changePercent.toFixed(2)}%`
-              : 'N/A';
-            logger.debug(`✅ Updated ${stock.stock_name}: ₹${currentMarketPrice} (${changeText})`);
-          }
+          const changeText = marketData.changePercent !== undefined 
+            ? `${marketData.changePercent > 0 ? '+' : ''}${marketData.changePercent.toFixed(2)}%`
+            : 'N/A';
+          logger.debug(`✅ Updated ${stock.stockName}: ₹${currentMarketPrice} (${changeText})`);
 
         } catch (error) {
-          logger.error(`Error updating stock ${stock.stock_name}:`, error);
+          logger.error(`Error updating stock ${stock.stockName}:`, error);
         }
       }
 
-      // Update portfolio percentages
-      if (totalInvestment > 0) {
-        await Database.query(`
-          UPDATE stocks 
-          SET portfolio_percentage = (investment / $1) * 100
-        `, [totalInvestment]);
-      }
+      // Update portfolio percentages within each portfolio
+      await this.recalculatePortfolioPercentages();
 
-      // Create portfolio snapshot
+      // Record today's closing prices and each portfolio's snapshot (and a per-update one if enabled)
       const totalGainLoss = totalPresentValue - totalInvestment;
-      await Database.query(`
-        INSERT INTO portfolio_snapshots (total_investment, total_present_value, total_gain_loss)
-        VALUES ($1, $2, $3)
-      `, [totalInvestment, totalPresentValue, totalGainLoss]);
+      await SnapshotService.recordStockSnapshots(closingPrices);
+      for (const [portfolioId, totals] of portfolioTotals) {
+        await SnapshotService.recordSnapshot(
+          { portfolioId, ...totals, totalGainLoss: totals.totalPresentValue - totals.totalInvestment },
+          this.SNAPSHOT_EVERY_UPDATE
+        );
+      }
+
+      // Push the new valuation to open portfolio streams
+      const ticks = Object.entries(marketDataResults)
+        .filter(([, marketData]) => marketData)
+        .map(([symbol, marketData]) => this.toPriceTick(symbol, marketData));
+      portfolioStreamService.publish(valuations, ticks, true);
+
+      await this.evaluateAlerts(readings);
 
       const duration = Date.now() - startTime;
       const gainLossPercent = totalInvestment > 0 ? ((totalGainLoss / totalInvestment) * 100).toFixed(2) : '0.00';
       
       logger.info(`✅ Portfolio update completed in ${duration}ms`);
-      logger.info(`📊 Updated ${updatedCount}/${stocks.length} stocks`);
+      logger.info(`📊 Updated ${updatedCount}/${updatedStocks.length} stocks`);
       logger.info(`💰 Total Value: ₹${totalPresentValue.toLocaleString('en-IN')} (${gainLossPercent}% ${totalGainLoss >= 0 ? 'gain' : 'loss'})`);
+      return true;
 
     } catch (error) {
       logger.error('❌ Error during portfolio price update:', error);
+      return false;
     } finally {
       this.isUpdating = false;
     }
@@ -161,36 +286,29 @@ export class PriceUpdateService {
    */
   async updateStockPrice(stockId: string): Promise<boolean> {
     try {
-      // Get stock details
-      const stockResult = await Database.query(`
-        SELECT id, stock_name, purchase_price, quantity, stock_exchange_code
-        FROM stocks
-        WHERE id = $1
-      `, [stockId]);
-
-      if (stockResult.rows.length === 0) {
+      // Get stock details with ledger-derived position
+      const stock = await PortfolioService.getStockById(stockId);
+
+      if (!stock) {
         logger.warn(`Stock with ID ${stockId} not found`);
         return false;
       }
 
-      const stock = stockResult.rows[0];
-      const symbol = this.extractStockSymbol(stock.stock_name);
-
       // Fetch live market data
-      const marketData = await marketDataService.getMarketData(symbol, stock.stock_exchange_code);
-
-      let currentMarketPrice = stock.purchase_price; // Fallback
-      let peRatio = 0;
-      let latestEarnings = 0;
+      const marketData = stock.symbol ? await marketDataService.getMarketData(stock.symbol, stock.stockExchangeCode) : null;
 
-      if (marketData) {
-        currentMarketPrice = marketData.currentPrice;
-        peRatio = marketData.peRatio || 0;
-        latestEarnings = marketData.latestEarnings || 0;
+      // Without a quote the stored price stands
+      if (!marketData) {
+        logger.warn(`No market data for ${stock.stockName}; keeping its stored price`);
+        return false;
       }
 
+      const currentMarketPrice = marketData.currentPrice;
+      const peRatio = marketData.peRatio || 0;
+      const latestEarnings = marketData.latestEarnings || 0;
+
       // Calculate derived values
-      const investment = stock.purchase_price * stock.quantity;
+      const investment = stock.investment;
       const presentValue = currentMarketPrice * stock.quantity;
       const gainLoss = presentValue - investment;
 
@@ -203,22 +321,25 @@ export class PriceUpdateService {
           gain_loss = $3,
           pe_ratio = $4,
           latest_earnings = $5,
+          dividend_yield = COALESCE($7, dividend_yield),
           updated_at = NOW()
         WHERE id = $6
-      `, [currentMarketPrice, presentValue, gainLoss, peRatio, latestEarnings, stockId]);
+      `, [currentMarketPrice, presentValue, gainLoss, peRatio, latestEarnings, stockId, marketData.dividendYield ?? null]);
+
+      await SnapshotService.recordStockSnapshots([{ stockId, price: currentMarketPrice, quantity: stock.quantity }]);
+
+      portfolioStreamService.publish(
+        [toHoldingValuation(stock, currentMarketPrice)],
+        [this.toPriceTick(toCanonicalSymbol({ exchange: stock.stockExchangeCode, ticker: stock.symbol }), marketData)],
+        false
+      );
+
+      await this.evaluateAlerts([this.toAlertReading(stock, marketData)]);
 
       // Update portfolio percentages for all stocks
-      const totalInvestmentResult = await Database.query('SELECT SUM(investment) as total FROM stocks');
-      const totalInvestment = totalInvestmentResult.rows[0]?.total || 0;
-
-      if (totalInvestment > 0) {
-        await Database.query(`
-          UPDATE stocks 
-          SET portfolio_percentage = (investment / $1) * 100
-        `, [totalInvestment]);
-      }
+      await this.recalculatePortfolioPercentages();
 
-      logger.info(`✅ Updated ${stock.stock_name}: ₹${currentMarketPrice}`);
+      logger.info(`✅ Updated ${stock.stockName}: ₹${currentMarketPrice}`);
       return true;
 
     } catch (error) {
@@ -228,43 +349,74 @@ export class PriceUpdateService {
   }
 
   /**
-   * Extract stock symbol from stock name - completely dynamic approach
+   * Trigger alerts on freshly priced holdings and push each trigger to its
+   * user's open streams. A failure here never fails the price update.
    */
-  private extractStockSymbol(stockName: string): string {
-    // Dynamic extraction without hardcoded mappings
-    // Remove common company suffixes and extract symbol
-    return stockName
-      .replace(/\s+(Ltd|Limited|Corporation|Corp|Inc|Pvt)\.?$/i, '')  // Remove company suffixes
-      .replace(/\s+(Industries|Bank|Services|Finance|Consultancy|Telecom|Motors)$/i, '') // Remove business type words
-      .split(' ')  // Split by spaces
-      .map(word => word.substring(0, 4))  // Take first 4 chars of each word
-      .join('')  // Join them
-      .toUpperCase()
-      .substring(0, 10);  // Limit to 10 chars
+  private async evaluateAlerts(readings: AlertReading[]): Promise<void> {
+    try {
+      const triggered = await AlertService.evaluateAlerts(readings);
+      triggered.forEach(({ userId, trigger }) => portfolioStreamService.notifyUser(userId, 'alert', trigger));
+    } catch (error) {
+      logger.warn('Could not evaluate price alerts:', error);
+    }
+  }
+
+  private toAlertReading(stock: Stock, marketData: MarketData): AlertReading {
+    const gainLoss = marketData.currentPrice * stock.quantity - stock.investment;
+
+    return {
+      stockId: stock.id,
+      price: marketData.currentPrice,
+      changePercent: marketData.changePercent,
+      gainLossPercent: stock.investment > 0 ? (gainLoss / stock.investment) * 100 : undefined
+    };
+  }
+
+  private toPriceTick(symbol: string, marketData: MarketData): PriceTick {
+    return {
+      symbol,
+      price: marketData.currentPrice,
+      change: marketData.change,
+      changePercent: marketData.changePercent,
+      timestamp: marketData.lastUpdated
+    };
+  }
+
+  /**
+   * Weight each stock against the total investment of its own portfolio
+   */
+  private async recalculatePortfolioPercentages(): Promise<void> {
+    await Database.query(`
+      UPDATE stocks s
+      SET portfolio_percentage = (s.investment / t.total) * 100
+      FROM (SELECT portfolio_id, SUM(investment) as total FROM stocks GROUP BY portfolio_id) t
+      WHERE t.portfolio_id = s.portfolio_id AND t.total > 0
+    `);
   }
 
   /**
    * Get update service status
    */
-  getStatus(): {
-    isRunning: boolean;
-    isUpdating: boolean;
-    updateInterval: number;
-    nextUpdate?: Date;
-  } {
+  getStatus(): PriceSchedulerStatus {
+    const openExchanges = marketCalendarService.listExchanges().filter(exchange => marketCalendarService.isOpen(exchange));
+    const lastPoll = (exchange: string) => this.lastPolls.get(exchange);
+
     return {
-      isRunning: this.updateInterval !== null,
+      isRunning: this.schedulerInterval !== null,
+      isPaused: this.paused,
       isUpdating: this.isUpdating,
       updateInterval: this.UPDATE_INTERVAL,
-      nextUpdate: this.updateInterval ? new Date(Date.now() + this.UPDATE_INTERVAL) : undefined
+      closeCaptureDelay: this.CLOSE_CAPTURE_DELAY,
+      openExchanges,
+      lastRun: this.lastRun ? { ...this.lastRun, at: this.lastRun.at.toISOString() } : null,
+      nextUpdate: this.schedulerInterval && !this.paused && openExchanges.length > 0
+        ? new Date(Math.max(Date.now(), Math.min(...openExchanges.map(exchange => (lastPoll(exchange) || 0) + this.UPDATE_INTERVAL)))).toISOString()
+        : null
     };
   }
 }
 
-// Create singleton instance
+// Create singleton instance; server startup calls start()
 export const priceUpdateService = new PriceUpdateService();
 
-// Start price updates when the service is imported
-priceUpdateService.startAutoUpdate();
-
 export default priceUpdateService;
@@ -0,0 +1,152 @@
+import { marketDataService } from './marketDataService';
+import { MarketData } from '../types/stock';
+import { logger } from '../utils/logger';
+
+export type QuoteListener = (symbol: string, quote: MarketData) => void;
+
+const POLL_INTERVAL = parseInt(process.env.MARKET_DATA_REFRESH_INTERVAL || '15000', 10); // 15 seconds
+
+/**
+ * Fans quotes for canonical symbols out to any number of listeners. Every
+ * POLL_INTERVAL the symbols with at least one listener are fetched in a
+ * single MarketDataService batch, so a symbol costs the same upstream
+ * traffic whether one client watches it or a thousand; MarketDataService's
+ * cache decides when a symbol is actually refetched. Listeners hear about
+ * a symbol when it is first fetched and then whenever its quote changes.
+ */
+class QuoteSubscriptionService {
+  private listeners = new Map<string, Set<QuoteListener>>();
+  private latest = new Map<string, MarketData>();
+  private pollInterval: NodeJS.Timeout | null = null;
+  private isPolling = false;
+  private polls = 0;
+  private lastPollAt: Date | null = null;
+
+  /**
+   * Listen for quotes on canonical symbols. Symbols already being watched
+   * are answered from the last quote; new ones are fetched right away.
+   */
+  subscribe(symbols: string[], listener: QuoteListener): void {
+    const added: string[] = [];
+
+    for (const symbol of symbols) {
+      let listeners = this.listeners.get(symbol);
+      if (!listeners) {
+        listeners = new Set();
+        this.listeners.set(symbol, listeners);
+        added.push(symbol);
+      }
+      listeners.add(listener);
+
+      const quote = this.latest.get(symbol);
+      if (quote) {
+        this.notify(listener, symbol, quote);
+      }
+    }
+
+    if (added.length > 0) {
+      this.fetch(added).catch(error => logger.error('Error fetching newly subscribed quotes:', error));
+    }
+    this.startPolling();
+  }
+
+  unsubscribe(symbols: string[], listener: QuoteListener): void {
+    for (const symbol of symbols) {
+      const listeners = this.listeners.get(symbol);
+      if (!listeners) {
+        continue;
+      }
+
+      listeners.delete(listener);
+      if (listeners.size === 0) {
+        this.listeners.delete(symbol);
+        this.latest.delete(symbol);
+      }
+    }
+
+    if (this.listeners.size === 0) {
+      this.stopPolling();
+    }
+  }
+
+  getStats(): { symbols: number; subscriptions: number; pollInterval: number; polls: number; lastPollAt: string | null } {
+    let subscriptions = 0;
+    this.listeners.forEach(listeners => {
+      subscriptions += listeners.size;
+    });
+
+    return {
+      symbols: this.listeners.size,
+      subscriptions,
+      pollInterval: POLL_INTERVAL,
+      polls: this.polls,
+      lastPollAt: this.lastPollAt ? this.lastPollAt.toISOString() : null
+    };
+  }
+
+  private startPolling(): void {
+    if (this.pollInterval || this.listeners.size === 0) {
+      return;
+    }
+
+    this.pollInterval = setInterval(() => {
+      this.poll();
+    }, POLL_INTERVAL);
+  }
+
+  private stopPolling(): void {
+    if (this.pollInterval) {
+      clearInterval(this.pollInterval);
+      this.pollInterval = null;
+    }
+  }
+
+  private async poll(): Promise<void> {
+    // A slow upstream must not stack polls on top of each other
+    if (this.isPolling || this.listeners.size === 0) {
+      return;
+    }
+
+    this.isPolling = true;
+    try {
+      await this.fetch(Array.from(this.listeners.keys()));
+      this.polls++;
+      this.lastPollAt = new Date();
+    } catch (error) {
+      logger.error('Error polling subscribed quotes:', error);
+    } finally {
+      this.isPolling = false;
+    }
+  }
+
+  private async fetch(symbols: string[]): Promise<void> {
+    const quotes = await marketDataService.getBatchMarketData(symbols);
+
+    for (const [symbol, quote] of Object.entries(quotes)) {
+      const listeners = this.listeners.get(symbol);
+      if (!quote || !listeners) {
+        continue;
+      }
+
+      const previous = this.latest.get(symbol);
+      if (previous && previous.currentPrice === quote.currentPrice && previous.lastUpdated === quote.lastUpdated) {
+        continue;
+      }
+
+      this.latest.set(symbol, quote);
+      listeners.forEach(listener => this.notify(listener, symbol, quote));
+    }
+  }
+
+  private notify(listener: QuoteListener, symbol: string, quote: MarketData): void {
+    try {
+      listener(symbol, quote);
+    } catch (error) {
+      logger.error(`Error delivering quote for ${symbol}:`, error);
+    }
+  }
+}
+
+// Create singleton instance
+export const quoteSubscriptionService = new QuoteSubscriptionService();
+export default quoteSubscriptionService;
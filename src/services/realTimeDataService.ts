@@ -1,5 +1,7 @@
 import { marketDataService } from './marketDataService';
+import { marketCalendarService } from './marketCalendarService';
 import { logger } from '../utils/logger';
+import { currencyForExchange, parseSymbol } from '../utils/symbols';
 
 export interface RealTimeStockData {
   symbol: string;
@@ -32,14 +34,14 @@ class RealTimeDataService {
       // If API fails, use realistic fallback data
       if (!marketData || !marketData.currentPrice) {
         logger.warn(`APIs unavailable for ${symbol}, using realistic fallback data`);
-        marketData = this.getFallbackMarketData(symbol, stockName);
+        marketData = this.getFallbackMarketData(symbol, stockName, exchange);
       }
       
       // At this point marketData is guaranteed to be valid
       let currentPrice = marketData!.currentPrice;
       
       // Ensure currency consistency for Indian stocks
-      currentPrice = await this.ensureCurrencyConsistency(symbol, currentPrice);
+      currentPrice = await this.ensureCurrencyConsistency(symbol, currentPrice, exchange);
       
       // Generate realistic purchase price (not guaranteed gains/losses)
       const purchasePrice = this.generateRealisticPurchasePrice(currentPrice);
@@ -57,7 +59,7 @@ class RealTimeDataService {
         currentPrice,
         purchasePrice,
         purchaseDate,
-        currency: this.detectCurrency(symbol),
+        currency: this.detectCurrency(symbol, exchange),
         peRatio: marketData!.peRatio,
         latestEarnings: marketData!.latestEarnings,
         change: marketData!.change,
@@ -80,8 +82,8 @@ class RealTimeDataService {
       
       // Even if there's an error, provide fallback data
       logger.info(`Using fallback data for ${symbol} due to error`);
-      const fallbackData = this.getFallbackMarketData(symbol, stockName);
-      const currentPrice = await this.ensureCurrencyConsistency(symbol, fallbackData.currentPrice);
+      const fallbackData = this.getFallbackMarketData(symbol, stockName, exchange);
+      const currentPrice = await this.ensureCurrencyConsistency(symbol, fallbackData.currentPrice, exchange);
       const purchasePrice = this.generateRealisticPurchasePrice(currentPrice);
       const purchaseDate = this.generateRealisticPurchaseDate();
       const gainLoss = currentPrice - purchasePrice;
@@ -93,7 +95,7 @@ class RealTimeDataService {
         currentPrice,
         purchasePrice,
         purchaseDate,
-        currency: this.detectCurrency(symbol),
+        currency: this.detectCurrency(symbol, exchange),
         peRatio: fallbackData.peRatio,
         latestEarnings: fallbackData.latestEarnings,
         change: fallbackData.change,
@@ -108,7 +110,7 @@ class RealTimeDataService {
   /**
    * Get realistic fallback market data when APIs are unavailable
    */
-  private getFallbackMarketData(symbol: string, stockName: string): any {
+  private getFallbackMarketData(symbol: string, stockName: string, exchange: string): any {
     // Realistic Indian stock prices (in INR) based on market knowledge
     const fallbackPrices: { [key: string]: { price: number, peRatio: number, earnings: number } } = {
       'RELIANCE': { price: 2456.30, peRatio: 12.8, earnings: 192.45 },
@@ -118,7 +120,7 @@ class RealTimeDataService {
       'ITC': { price: 462.90, peRatio: 31.2, earnings: 14.85 },
     };
     
-    const baseData = fallbackPrices[symbol] || { 
+    const baseData = fallbackPrices[parseSymbol(symbol, exchange).ticker] || { 
       price: 1000 + Math.random() * 2000, // Random price between 1000-3000 INR
       peRatio: 15 + Math.random() * 20,   // P/E between 15-35
       earnings: 20 + Math.random() * 100  // Earnings between 20-120 INR
@@ -187,26 +189,10 @@ class RealTimeDataService {
   }
 
   /**
-   * Detect currency based on symbol and exchange
+   * Detect currency from the exchange the symbol is listed on
    */
-  private detectCurrency(symbol: string): string {
-    // Indian stocks (NSE/BSE) use INR
-    if (symbol.includes('.NS') || symbol.includes('.BO')) {
-      return '₹';
-    }
-    
-    // Check if it's an Indian stock symbol
-    const indianStockSymbols = [
-      'RELIANCE', 'TCS', 'HDFCBANK', 'INFY', 'ITC', 'SBIN', 
-      'BHARTIARTL', 'ICICIBANK', 'HINDUNILVR', 'KOTAKBANK'
-    ];
-    
-    if (indianStockSymbols.includes(symbol)) {
-      return '₹';
-    }
-    
-    // Default to USD for international stocks
-    return '$';
+  private detectCurrency(symbol: string, exchange: string): string {
+    return currencyForExchange(parseSymbol(symbol, exchange).exchange);
   }
 
   /**
@@ -226,8 +212,8 @@ class RealTimeDataService {
   /**
    * Ensure price consistency for Indian stocks
    */
-  async ensureCurrencyConsistency(symbol: string, price: number): Promise<number> {
-    const currency = this.detectCurrency(symbol);
+  async ensureCurrencyConsistency(symbol: string, price: number, exchange = 'NSE'): Promise<number> {
+    const currency = this.detectCurrency(symbol, exchange);
     
     // If it's an Indian stock but price seems to be in USD (< 100), convert it
     if (currency === '₹' && price < 100) {
@@ -345,22 +331,21 @@ class RealTimeDataService {
   /**
    * Get market status and real-time data health
    */
-  async getMarketStatus(): Promise<{
+  async getMarketStatus(exchange: string = 'NSE'): Promise<{
     marketOpen: boolean;
     timestamp: string;
     currency: string;
     dataFreshness: string;
   }> {
     const now = new Date();
-    const hour = now.getHours();
     
-    // Simple market hours check (9:15 AM to 3:30 PM IST for NSE)
-    const marketOpen = hour >= 9 && hour <= 15;
+    // Regular session in the exchange's time zone, excluding weekends and holidays
+    const marketOpen = marketCalendarService.isOpen(exchange, now);
     
     return {
       marketOpen,
       timestamp: now.toISOString(),
-      currency: '₹',
+      currency: currencyForExchange(exchange),
       dataFreshness: marketOpen ? 'live' : 'delayed'
     };
   }
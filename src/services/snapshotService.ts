@@ -0,0 +1,177 @@
+import { PoolClient } from 'pg';
+import Database from '../config/database';
+import { DEFAULT_PORTFOLIO_ID } from '../config/portfolio';
+import { PortfolioSnapshot } from '../types/index';
+import { HistoryInterval, PortfolioHistory, PortfolioHistoryPoint } from '../types/stock';
+import { logger } from '../utils/logger';
+
+export const HISTORY_INTERVALS: HistoryInterval[] = ['day', 'week', 'month'];
+
+type Queryable = Pick<PoolClient, 'query'> | typeof Database;
+
+export class SnapshotService {
+  /**
+   * Record a portfolio valuation. The portfolio's EOD row for the day is
+   * upserted on every call so it always holds the latest value of the day;
+   * an INTRADAY row is also inserted when per-update capture is requested.
+   */
+  static async recordSnapshot(
+    snapshot: PortfolioSnapshot,
+    includeIntraday: boolean = false,
+    executor: Queryable = Database
+  ): Promise<void> {
+    try {
+      const values = [
+        snapshot.totalInvestment,
+        snapshot.totalPresentValue,
+        snapshot.totalGainLoss,
+        snapshot.portfolioId || DEFAULT_PORTFOLIO_ID
+      ];
+
+      await executor.query(`
+        INSERT INTO portfolio_snapshots (total_investment, total_present_value, total_gain_loss, portfolio_id, snapshot_type)
+        VALUES ($1, $2, $3, $4, 'EOD')
+        ON CONFLICT (portfolio_id, snapshot_day) WHERE snapshot_type = 'EOD' DO UPDATE SET
+          total_investment = EXCLUDED.total_investment,
+          total_present_value = EXCLUDED.total_present_value,
+          total_gain_loss = EXCLUDED.total_gain_loss,
+          snapshot_date = NOW()
+      `, values);
+
+      if (includeIntraday) {
+        await executor.query(`
+          INSERT INTO portfolio_snapshots (total_investment, total_present_value, total_gain_loss, portfolio_id, snapshot_type)
+          VALUES ($1, $2, $3, $4, 'INTRADAY')
+        `, values);
+      }
+    } catch (error) {
+      logger.error('Error recording portfolio snapshot:', error);
+      throw new Error('Failed to record portfolio snapshot');
+    }
+  }
+
+  /**
+   * Upsert today's closing price for each holding
+   */
+  static async recordStockSnapshots(
+    snapshots: Array<{ stockId: string; price: number; quantity: number }>,
+    executor: Queryable = Database
+  ): Promise<void> {
+    try {
+      for (const snapshot of snapshots) {
+        await executor.query(`
+          INSERT INTO stock_snapshots (stock_id, price, quantity, market_value)
+          VALUES ($1, $2, $3, $4)
+          ON CONFLICT (stock_id, snapshot_day) DO UPDATE SET
+            price = EXCLUDED.price,
+            quantity = EXCLUDED.quantity,
+            market_value = EXCLUDED.market_value,
+            updated_at = NOW()
+        `, [snapshot.stockId, snapshot.price, snapshot.quantity, snapshot.price * snapshot.quantity]);
+      }
+    } catch (error) {
+      logger.error('Error recording stock snapshots:', error);
+      throw new Error('Failed to record stock snapshots');
+    }
+  }
+
+  /**
+   * Get recorded closing prices grouped by stock ID, oldest first
+   */
+  static async getStockPriceHistory(): Promise<Map<string, Array<{ date: string; price: number }>>> {
+    try {
+      const result = await Database.query(`
+        SELECT stock_id, to_char(snapshot_day, 'YYYY-MM-DD') as snapshot_day, price
+        FROM stock_snapshots
+        ORDER BY snapshot_day ASC
+      `);
+
+      const grouped = new Map<string, Array<{ date: string; price: number }>>();
+      result.rows.forEach((row: any) => {
+        if (!grouped.has(row.stock_id)) {
+          grouped.set(row.stock_id, []);
+        }
+        grouped.get(row.stock_id)!.push({ date: row.snapshot_day, price: parseFloat(row.price) });
+      });
+
+      return grouped;
+    } catch (error) {
+      logger.error('Error fetching stock price history:', error);
+      throw new Error('Failed to fetch stock price history');
+    }
+  }
+
+  /**
+   * Get the portfolio value series from EOD snapshots, one point per
+   * interval holding the last valuation recorded in that period. Each day's
+   * snapshots are summed across the given portfolios (all when omitted).
+   */
+  static async getHistory(
+    from?: string,
+    to?: string,
+    interval: HistoryInterval = 'day',
+    portfolioIds?: string[]
+  ): Promise<PortfolioHistory> {
+    try {
+      const result = await Database.query(`
+        WITH daily AS (
+          SELECT
+            snapshot_day,
+            SUM(total_investment) as total_investment,
+            SUM(total_present_value) as total_present_value,
+            SUM(total_gain_loss) as total_gain_loss
+          FROM portfolio_snapshots
+          WHERE snapshot_type = 'EOD'
+            AND ($4::uuid[] IS NULL OR portfolio_id = ANY($4::uuid[]))
+            AND ($1::date IS NULL OR snapshot_day >= $1::date)
+            AND ($2::date IS NULL OR snapshot_day <= $2::date)
+          GROUP BY snapshot_day
+        )
+        SELECT DISTINCT ON (date_trunc($3::text, snapshot_day::timestamp))
+          to_char(date_trunc($3::text, snapshot_day::timestamp), 'YYYY-MM-DD') as period_start,
+          to_char(snapshot_day, 'YYYY-MM-DD') as as_of,
+          total_investment,
+          total_present_value,
+          total_gain_loss
+        FROM daily
+        ORDER BY date_trunc($3::text, snapshot_day::timestamp) ASC, snapshot_day DESC
+      `, [from || null, to || null, interval, portfolioIds || null]);
+
+      const points: PortfolioHistoryPoint[] = result.rows.map((row: any) => {
+        const totalInvestment = parseFloat(row.total_investment);
+        const totalGainLoss = parseFloat(row.total_gain_loss);
+
+        return {
+          periodStart: row.period_start,
+          asOf: row.as_of,
+          totalInvestment,
+          totalPresentValue: parseFloat(row.total_present_value),
+          totalGainLoss,
+          gainLossPercentage: totalInvestment > 0 ? (totalGainLoss / totalInvestment) * 100 : 0
+        };
+      });
+
+      const first = points[0];
+      const last = points[points.length - 1];
+      const change = first ? last.totalPresentValue - first.totalPresentValue : 0;
+
+      return {
+        interval,
+        from: from || null,
+        to: to || null,
+        points,
+        change,
+        changePercentage: first && first.totalPresentValue > 0 ? (change / first.totalPresentValue) * 100 : 0
+      };
+    } catch (error) {
+      logger.error('Error fetching portfolio history:', error);
+      throw new Error('Failed to fetch portfolio history');
+    }
+  }
+
+  static isHistoryInterval(value: any): value is HistoryInterval {
+    return HISTORY_INTERVALS.includes(value);
+  }
+}
+
+export default SnapshotService;
@@ -1,6 +1,7 @@
 import axios from 'axios';
 import { logger } from '../utils/logger';
 import Database from '../config/database';
+import { marketDataProviders } from './marketDataService';
 
 export interface ListedStock {
   symbol: string;
@@ -211,6 +212,10 @@ class StockExchangeService {
    * Fetch NSE (National Stock Exchange of India) stocks
    */
   private async fetchNSEStocks(): Promise<ListedStock[]> {
+    if (marketDataProviders.isOffline()) {
+      return this.getNSEFallbackList();
+    }
+
     try {
       // Using NSE's official API endpoints
       const response = await axios.get('https://www.nseindia.com/api/equity-stockIndices?index=NIFTY%20500', {
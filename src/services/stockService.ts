@@ -1,12 +1,18 @@
 import Database from '../config/database';
+import { DEFAULT_PORTFOLIO_ID } from '../config/portfolio';
 import { Stock, StockCreateRequest, StockUpdateRequest } from '../types/index';
+import { TransactionService } from './transactionService';
+import { LotService } from './lotService';
 
 export class StockService {
-  static async getAllStocks(): Promise<Stock[]> {
+  static async getAllStocks(portfolioIds?: string[]): Promise<Stock[]> {
     const result = await Database.query(`
       SELECT 
         id,
+        portfolio_id as "portfolioId",
         stock_name as "stockName",
+        symbol,
+        instrument_id as "instrumentId",
         purchase_price as "purchasePrice",
         quantity,
         investment,
@@ -21,16 +27,20 @@ export class StockService {
         created_at as "createdAt",
         updated_at as "updatedAt"
       FROM stocks 
+      WHERE ($1::uuid[] IS NULL OR portfolio_id = ANY($1::uuid[]))
       ORDER BY created_at DESC
-    `);
-    return result.rows;
+    `, [portfolioIds || null]);
+    return this.applyLedger(result.rows);
   }
 
   static async getStockById(id: string): Promise<Stock | null> {
     const result = await Database.query(`
       SELECT 
         id,
+        portfolio_id as "portfolioId",
         stock_name as "stockName",
+        symbol,
+        instrument_id as "instrumentId",
         purchase_price as "purchasePrice",
         quantity,
         investment,
@@ -48,7 +58,10 @@ export class StockService {
       WHERE id = $1
     `, [id]);
     
-    return result.rows[0] || null;
+    if (result.rows.length === 0) return null;
+    
+    const [stock] = await this.applyLedger(result.rows);
+    return stock;
   }
 
   static async createStock(stockData: StockCreateRequest): Promise<Stock> {
@@ -57,46 +70,63 @@ export class StockService {
     const presentValue = stockData.currentMarketPrice * stockData.quantity;
     const gainLoss = presentValue - investment;
 
-    const result = await Database.query(`
-      INSERT INTO stocks (
-        stock_name, purchase_price, quantity, investment,
-        stock_exchange_code, current_market_price, present_value, gain_loss,
-        pe_ratio, latest_earnings, sector
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
-      RETURNING 
-        id,
-        stock_name as "stockName",
-        purchase_price as "purchasePrice",
-        quantity,
+    // The stock and its opening BUY, the source of truth for the position, are created together
+    const stockId = await Database.transaction(async (client) => {
+      const result = await client.query(`
+        INSERT INTO stocks (
+          stock_name, purchase_price, quantity, investment,
+          stock_exchange_code, current_market_price, present_value, gain_loss,
+          pe_ratio, latest_earnings, sector, portfolio_id, symbol, instrument_id
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+        RETURNING 
+          id,
+          portfolio_id as "portfolioId",
+          stock_name as "stockName",
+          symbol,
+          instrument_id as "instrumentId",
+          purchase_price as "purchasePrice",
+          quantity,
+          investment,
+          portfolio_percentage as "portfolioPercentage",
+          stock_exchange_code as "stockExchangeCode",
+          current_market_price as "currentMarketPrice",
+          present_value as "presentValue",
+          gain_loss as "gainLoss",
+          pe_ratio as "peRatio",
+          latest_earnings as "latestEarnings",
+          sector,
+          created_at as "createdAt",
+          updated_at as "updatedAt"
+      `, [
+        stockData.stockName,
+        stockData.purchasePrice,
+        stockData.quantity,
         investment,
-        portfolio_percentage as "portfolioPercentage",
-        stock_exchange_code as "stockExchangeCode",
-        current_market_price as "currentMarketPrice",
-        present_value as "presentValue",
-        gain_loss as "gainLoss",
-        pe_ratio as "peRatio",
-        latest_earnings as "latestEarnings",
-        sector,
-        created_at as "createdAt",
-        updated_at as "updatedAt"
-    `, [
-      stockData.stockName,
-      stockData.purchasePrice,
-      stockData.quantity,
-      investment,
-      stockData.stockExchangeCode,
-      stockData.currentMarketPrice,
-      presentValue,
-      gainLoss,
-      stockData.peRatio || null,
-      stockData.latestEarnings || null,
-      stockData.sector
-    ]);
+        stockData.stockExchangeCode,
+        stockData.currentMarketPrice,
+        presentValue,
+        gainLoss,
+        stockData.peRatio || null,
+        stockData.latestEarnings || null,
+        stockData.sector,
+        stockData.portfolioId || DEFAULT_PORTFOLIO_ID,
+        stockData.symbol || null,
+        stockData.instrumentId || null
+      ]);
+
+      await TransactionService.recordTransaction(result.rows[0].id, {
+        type: 'BUY',
+        price: stockData.purchasePrice,
+        quantity: stockData.quantity
+      }, client);
+
+      return result.rows[0].id;
+    });
 
     // Recalculate portfolio percentages after adding new stock
     await this.recalculatePortfolioPercentages();
 
-    return result.rows[0];
+    return this.getStockById(stockId);
   }
 
   static async updateStock(id: string, stockData: StockUpdateRequest): Promise<Stock | null> {
@@ -106,15 +136,23 @@ export class StockService {
     // Merge current data with updates
     const updatedData = { ...currentStock, ...stockData };
 
-    // Recalculate derived values if necessary
+    // Position edits rewrite the opening BUY; anything later must be a transaction
     if (stockData.purchasePrice !== undefined || stockData.quantity !== undefined) {
-      updatedData.investment = updatedData.purchasePrice * updatedData.quantity;
-    }
-    
-    if (stockData.currentMarketPrice !== undefined || stockData.quantity !== undefined) {
-      updatedData.presentValue = updatedData.currentMarketPrice * updatedData.quantity;
+      const replaced = await TransactionService.replaceOpeningBuy(id, updatedData.purchasePrice, updatedData.quantity);
+      if (!replaced) {
+        throw new Error('Stock has ledger activity; record a transaction instead');
+      }
+
+      const position = TransactionService.calculatePosition(
+        await TransactionService.getTransactionsByStock(id),
+        await LotService.getLotMethodForStock(id)
+      );
+      updatedData.purchasePrice = position.averageCost;
+      updatedData.quantity = position.quantity;
+      updatedData.investment = position.investment;
     }
     
+    updatedData.presentValue = updatedData.currentMarketPrice * updatedData.quantity;
     updatedData.gainLoss = updatedData.presentValue - updatedData.investment;
 
     const result = await Database.query(`
@@ -130,11 +168,16 @@ export class StockService {
         pe_ratio = $9,
         latest_earnings = $10,
         sector = $11,
+        symbol = $13,
+        instrument_id = $14,
         updated_at = NOW()
       WHERE id = $12
       RETURNING 
         id,
+        portfolio_id as "portfolioId",
         stock_name as "stockName",
+        symbol,
+        instrument_id as "instrumentId",
         purchase_price as "purchasePrice",
         quantity,
         investment,
@@ -160,13 +203,15 @@ export class StockService {
       updatedData.peRatio,
       updatedData.latestEarnings,
       updatedData.sector,
-      id
+      id,
+      updatedData.symbol || null,
+      updatedData.instrumentId || null
     ]);
 
     // Recalculate portfolio percentages after updating stock
     await this.recalculatePortfolioPercentages();
 
-    return result.rows[0];
+    return this.getStockById(result.rows[0].id);
   }
 
   static async deleteStock(id: string): Promise<boolean> {
@@ -185,7 +230,10 @@ export class StockService {
     const result = await Database.query(`
       SELECT 
         id,
+        portfolio_id as "portfolioId",
         stock_name as "stockName",
+        symbol,
+        instrument_id as "instrumentId",
         purchase_price as "purchasePrice",
         quantity,
         investment,
@@ -204,20 +252,41 @@ export class StockService {
       ORDER BY investment DESC
     `, [sector]);
     
-    return result.rows;
+    return this.applyLedger(result.rows);
+  }
+
+  /**
+   * Replace the denormalized position columns with values derived from the ledger
+   */
+  private static async applyLedger(rows: any[]): Promise<Stock[]> {
+    const methods = await LotService.getLotMethods();
+
+    return Promise.all(rows.map(async (row) => {
+      const position = TransactionService.calculatePosition(
+        await TransactionService.getTransactionsByStock(row.id),
+        LotService.methodFor(methods, row.portfolioId)
+      );
+      const currentMarketPrice = parseFloat(row.currentMarketPrice);
+      const presentValue = currentMarketPrice * position.quantity;
+
+      return {
+        ...row,
+        purchasePrice: position.averageCost,
+        quantity: position.quantity,
+        investment: position.investment,
+        presentValue,
+        gainLoss: presentValue - position.investment
+      };
+    }));
   }
 
   private static async recalculatePortfolioPercentages(): Promise<void> {
-    // Get total investment
-    const totalResult = await Database.query('SELECT SUM(investment) as total FROM stocks');
-    const totalInvestment = totalResult.rows[0]?.total || 0;
-
-    if (totalInvestment > 0) {
-      // Update portfolio percentages
-      await Database.query(`
-        UPDATE stocks 
-        SET portfolio_percentage = (investment / $1) * 100
-      `, [totalInvestment]);
-    }
+    // Weight each stock against the total investment of its own portfolio
+    await Database.query(`
+      UPDATE stocks s
+      SET portfolio_percentage = (s.investment / t.total) * 100
+      FROM (SELECT portfolio_id, SUM(investment) as total FROM stocks GROUP BY portfolio_id) t
+      WHERE t.portfolio_id = s.portfolio_id AND t.total > 0
+    `);
   }
 }
@@ -0,0 +1,303 @@
+import Database from '../config/database';
+import {
+  CapitalGainBucket,
+  CapitalGainEntry,
+  CapitalGainsTaxReport,
+  CapitalGainTerm,
+  FinancialYearSchedule
+} from '../types/stock';
+import { PortfolioService } from './portfolioService';
+import { LotService } from './lotService';
+import { logger } from '../utils/logger';
+
+// Listed equity with STT paid (Sections 111A / 112A of the Income-tax Act)
+const INDIAN_EXCHANGES = ['NSE', 'BSE'];
+const GRANDFATHERING_CUTOFF = '2018-01-31';
+const SECTION_112A_START = '2018-04-01';
+const FINANCE_ACT_2024_EFFECTIVE = '2024-07-23';
+const LONG_TERM_HOLDING_MONTHS = 12;
+
+const CSV_COLUMNS: Array<[string, keyof CapitalGainEntry]> = [
+  ['Financial Year', 'financialYear'],
+  ['Stock', 'stockName'],
+  ['Symbol', 'symbol'],
+  ['Exchange', 'stockExchangeCode'],
+  ['Quantity', 'quantity'],
+  ['Date of Acquisition', 'acquiredDate'],
+  ['Date of Transfer', 'disposedDate'],
+  ['Holding Period (days)', 'holdingPeriodDays'],
+  ['Term', 'term'],
+  ['Full Value of Consideration', 'saleValue'],
+  ['Actual Cost of Acquisition', 'actualCost'],
+  ['FMV per Share on 31-Jan-2018', 'fairMarketValue31Jan2018'],
+  ['Cost of Acquisition', 'costOfAcquisition'],
+  ['Gain/Loss', 'gainLoss'],
+  ['Tax Rate (%)', 'taxRate']
+];
+
+export class TaxReportService {
+  /**
+   * Build the Indian capital gains schedule for NSE/BSE equity, one entry
+   * per FIFO-matched lot and one schedule per April-March financial year.
+   * FIFO is used regardless of the portfolio's lot method because it is
+   * mandatory for shares held in demat form.
+   */
+  static async getCapitalGainsReport(financialYear?: string, portfolioIds?: string[]): Promise<CapitalGainsTaxReport> {
+    const [realized, fairMarketValues] = await Promise.all([
+      PortfolioService.getRealizedGains(undefined, undefined, 'FIFO', portfolioIds),
+      this.getGrandfatheringPrices()
+    ]);
+
+    const entries: CapitalGainEntry[] = [];
+    const excludedStocks: CapitalGainsTaxReport['excludedStocks'] = [];
+    const missing = new Map<string, string>();
+
+    for (const stock of realized.byStock) {
+      if (!INDIAN_EXCHANGES.includes(stock.stockExchangeCode?.toUpperCase())) {
+        excludedStocks.push({
+          stockId: stock.stockId,
+          stockName: stock.stockName,
+          stockExchangeCode: stock.stockExchangeCode
+        });
+        continue;
+      }
+
+      for (const match of stock.matches) {
+        const term: CapitalGainTerm = this.isLongTerm(match.acquiredDate, match.disposedDate) ? 'LONG_TERM' : 'SHORT_TERM';
+        const fmv = fairMarketValues.get(stock.stockId) ?? null;
+        const eligibleForGrandfathering = term === 'LONG_TERM'
+          && match.acquiredDate <= GRANDFATHERING_CUTOFF
+          && match.disposedDate >= SECTION_112A_START;
+
+        let costOfAcquisition = match.costBasis;
+        if (eligibleForGrandfathering) {
+          if (fmv === null) {
+            missing.set(stock.stockId, stock.stockName);
+          } else {
+            // Section 55(2)(ac): higher of actual cost and the lower of FMV and sale value
+            costOfAcquisition = Math.max(match.costBasis, Math.min(fmv * match.quantity, match.proceeds));
+          }
+        }
+
+        entries.push({
+          financialYear: this.financialYearOf(match.disposedDate),
+          stockId: stock.stockId,
+          stockName: stock.stockName,
+          symbol: stock.symbol,
+          stockExchangeCode: stock.stockExchangeCode,
+          lotId: match.lotId,
+          quantity: match.quantity,
+          acquiredDate: match.acquiredDate,
+          disposedDate: match.disposedDate,
+          holdingPeriodDays: LotService.daysBetween(match.acquiredDate, match.disposedDate),
+          term,
+          saleValue: match.proceeds,
+          actualCost: match.costBasis,
+          fairMarketValue31Jan2018: eligibleForGrandfathering ? fmv : null,
+          grandfathered: costOfAcquisition !== match.costBasis,
+          costOfAcquisition,
+          gainLoss: match.proceeds - costOfAcquisition,
+          taxRate: term === 'LONG_TERM' ? this.longTermRate(match.disposedDate) : this.shortTermRate(match.disposedDate)
+        });
+      }
+    }
+
+    const byYear = new Map<string, CapitalGainEntry[]>();
+    entries
+      .filter(entry => !financialYear || entry.financialYear === financialYear)
+      .sort((a, b) => a.disposedDate.localeCompare(b.disposedDate))
+      .forEach(entry => {
+        if (!byYear.has(entry.financialYear)) {
+          byYear.set(entry.financialYear, []);
+        }
+        byYear.get(entry.financialYear)!.push(entry);
+      });
+
+    return {
+      lotMethod: 'FIFO',
+      generatedAt: new Date().toISOString(),
+      schedules: Array.from(byYear.entries()).map(([year, yearEntries]) => this.buildSchedule(year, yearEntries)),
+      excludedStocks,
+      missingGrandfatheringPrices: Array.from(missing.entries()).map(([stockId, stockName]) => ({ stockId, stockName }))
+    };
+  }
+
+  /**
+   * Render report entries as CSV for ITR Schedule CG / 112A preparation
+   */
+  static toCsv(report: CapitalGainsTaxReport): string {
+    const escape = (value: any): string => {
+      if (value === null || value === undefined) return '';
+      const text = typeof value === 'number' ? (Number.isInteger(value) ? String(value) : value.toFixed(2)) : String(value);
+      return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+
+    const lines = [CSV_COLUMNS.map(([header]) => header).join(',')];
+    report.schedules.forEach(schedule => {
+      schedule.entries.forEach(entry => {
+        lines.push(CSV_COLUMNS.map(([, key]) => escape(entry[key])).join(','));
+      });
+    });
+
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Get the 31-Jan-2018 fair market value per share recorded for each stock
+   */
+  static async getGrandfatheringPrices(): Promise<Map<string, number>> {
+    try {
+      const result = await Database.query('SELECT stock_id, fair_market_value FROM grandfathered_prices');
+      return new Map(result.rows.map((row: any) => [row.stock_id, parseFloat(row.fair_market_value)]));
+    } catch (error) {
+      logger.error('Error fetching grandfathering prices:', error);
+      throw new Error('Failed to fetch grandfathering prices');
+    }
+  }
+
+  /**
+   * Record the highest price quoted on 31-Jan-2018 for a stock
+   */
+  static async setGrandfatheringPrice(stockId: string, fairMarketValue: number): Promise<void> {
+    try {
+      await Database.query(`
+        INSERT INTO grandfathered_prices (stock_id, fair_market_value) VALUES ($1, $2)
+        ON CONFLICT (stock_id) DO UPDATE SET fair_market_value = EXCLUDED.fair_market_value, updated_at = NOW()
+      `, [stockId, fairMarketValue]);
+    } catch (error) {
+      logger.error(`Error saving grandfathering price for stock ${stockId}:`, error);
+      throw new Error('Failed to save grandfathering price');
+    }
+  }
+
+  /**
+   * Financial year label (e.g. 2023-24) for an ISO date
+   */
+  static financialYearOf(date: string): string {
+    const [year, month] = date.split('-').map(part => parseInt(part));
+    const startYear = month >= 4 ? year : year - 1;
+    return `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`;
+  }
+
+  static isFinancialYear(value: any): boolean {
+    if (typeof value !== 'string' || !/^\d{4}-\d{2}$/.test(value)) return false;
+    const startYear = parseInt(value.slice(0, 4));
+    return parseInt(value.slice(5)) === (startYear + 1) % 100;
+  }
+
+  /**
+   * Listed equity is long-term when held for more than 12 months
+   */
+  private static isLongTerm(acquiredDate: string, disposedDate: string): boolean {
+    const threshold = new Date(`${acquiredDate}T00:00:00Z`);
+    threshold.setUTCMonth(threshold.getUTCMonth() + LONG_TERM_HOLDING_MONTHS);
+    return disposedDate > threshold.toISOString().split('T')[0];
+  }
+
+  private static shortTermRate(disposedDate: string): number {
+    return disposedDate >= FINANCE_ACT_2024_EFFECTIVE ? 20 : 15;
+  }
+
+  private static longTermRate(disposedDate: string): number {
+    // Exempt under Section 10(38) before 112A took effect
+    if (disposedDate < SECTION_112A_START) return 0;
+    return disposedDate >= FINANCE_ACT_2024_EFFECTIVE ? 12.5 : 10;
+  }
+
+  private static longTermExemptionLimit(financialYear: string): number {
+    const startYear = parseInt(financialYear.slice(0, 4));
+    if (startYear < 2018) return 0;
+    return startYear >= 2024 ? 125000 : 100000;
+  }
+
+  /**
+   * Net one financial year: short-term losses set off against long-term
+   * gains, the 112A exemption applies to what remains, and any residual
+   * loss is reported as carried forward. Tax is an estimate before
+   * surcharge and cess; reductions are applied to the highest rate first.
+   */
+  private static buildSchedule(financialYear: string, entries: CapitalGainEntry[]): FinancialYearSchedule {
+    const shortTermEntries = entries.filter(entry => entry.term === 'SHORT_TERM');
+    const longTermEntries = entries.filter(entry => entry.term === 'LONG_TERM');
+
+    const shortTerm = this.sumBucket(shortTermEntries);
+    const longTerm = this.sumBucket(longTermEntries);
+
+    let shortTermNet = shortTerm.gainLoss;
+    let longTermNet = longTerm.gainLoss;
+
+    let shortTermLossSetOff = 0;
+    if (shortTermNet < 0) {
+      shortTermLossSetOff = Math.min(-shortTermNet, Math.max(longTermNet, 0));
+      longTermNet -= shortTermLossSetOff;
+    }
+    const shortTermLossCarriedForward = shortTermNet < 0 ? -shortTermNet - shortTermLossSetOff : 0;
+    const longTermLossCarriedForward = longTermNet < 0 ? -longTermNet : 0;
+    shortTermNet = Math.max(shortTermNet, 0);
+    longTermNet = Math.max(longTermNet, 0);
+
+    const exemptionLimit = this.longTermExemptionLimit(financialYear);
+    const exemptionUsed = Math.min(longTermNet, exemptionLimit);
+
+    const shortTermTax = this.taxAfterReductions(shortTermEntries, 0);
+    const longTermTax = this.taxAfterReductions(longTermEntries, shortTermLossSetOff + exemptionUsed);
+    const startYear = parseInt(financialYear.slice(0, 4));
+
+    return {
+      financialYear,
+      assessmentYear: `${startYear + 1}-${String((startYear + 2) % 100).padStart(2, '0')}`,
+      shortTerm,
+      longTerm: {
+        ...longTerm,
+        actualCost: longTermEntries.reduce((sum, entry) => sum + entry.actualCost, 0),
+        exemptionLimit,
+        exemptionUsed,
+        taxableGain: longTermNet - exemptionUsed
+      },
+      shortTermLossSetOff,
+      longTermLossCarriedForward,
+      shortTermLossCarriedForward,
+      estimatedTax: {
+        shortTerm: shortTermTax,
+        longTerm: longTermTax,
+        total: shortTermTax + longTermTax
+      },
+      entries
+    };
+  }
+
+  private static sumBucket(entries: CapitalGainEntry[]): CapitalGainBucket {
+    return {
+      saleValue: entries.reduce((sum, entry) => sum + entry.saleValue, 0),
+      costOfAcquisition: entries.reduce((sum, entry) => sum + entry.costOfAcquisition, 0),
+      gainLoss: entries.reduce((sum, entry) => sum + entry.gainLoss, 0)
+    };
+  }
+
+  /**
+   * Tax on entries grouped by rate, after absorbing losses within the group
+   * set and an additional reduction (set-off plus exemption)
+   */
+  private static taxAfterReductions(entries: CapitalGainEntry[], reduction: number): number {
+    const byRate = new Map<number, number>();
+    entries.forEach(entry => {
+      byRate.set(entry.taxRate, (byRate.get(entry.taxRate) || 0) + entry.gainLoss);
+    });
+
+    let remainingReduction = reduction;
+    Array.from(byRate.values()).forEach(net => {
+      if (net < 0) remainingReduction += -net;
+    });
+
+    return Array.from(byRate.entries())
+      .filter(([, net]) => net > 0)
+      .sort(([a], [b]) => b - a)
+      .reduce((tax, [rate, net]) => {
+        const used = Math.min(remainingReduction, net);
+        remainingReduction -= used;
+        return tax + (net - used) * rate / 100;
+      }, 0);
+  }
+}
+
+export default TaxReportService;
@@ -0,0 +1,300 @@
+import { PoolClient } from 'pg';
+import Database from '../config/database';
+import { Transaction, TransactionCreateRequest, TransactionType, Position, LotMethod } from '../types/stock';
+import { LotService } from './lotService';
+import { logger } from '../utils/logger';
+import { isUuid } from '../utils/uuid';
+
+const TRANSACTION_TYPES: TransactionType[] = ['BUY', 'SELL', 'ADJUST'];
+
+const TRANSACTION_COLUMNS = `
+  id,
+  stock_id,
+  transaction_type,
+  to_char(transaction_date, 'YYYY-MM-DD') as transaction_date,
+  price,
+  quantity,
+  fees,
+  notes,
+  lot_selections,
+  corporate_action_id,
+  split_ratio,
+  created_at
+`;
+
+type Queryable = Pick<PoolClient, 'query'> | typeof Database;
+
+export class TransactionService {
+  /**
+   * Get the ledger for a single stock in chronological order
+   */
+  static async getTransactionsByStock(stockId: string, executor: Queryable = Database): Promise<Transaction[]> {
+    const result = await executor.query(`
+      SELECT ${TRANSACTION_COLUMNS}
+      FROM transactions
+      WHERE stock_id = $1
+      ORDER BY transaction_date ASC, created_at ASC
+    `, [stockId]);
+
+    return result.rows.map((row: any) => this.mapTransactionRow(row));
+  }
+
+  /**
+   * Get the full ledger grouped by stock ID, optionally limited to the
+   * stocks of the given portfolios
+   */
+  static async getTransactionsGroupedByStock(portfolioIds?: string[]): Promise<Map<string, Transaction[]>> {
+    const result = await Database.query(`
+      SELECT ${TRANSACTION_COLUMNS}
+      FROM transactions
+      WHERE ($1::uuid[] IS NULL OR stock_id IN (SELECT id FROM stocks WHERE portfolio_id = ANY($1::uuid[])))
+      ORDER BY transaction_date ASC, created_at ASC
+    `, [portfolioIds || null]);
+
+    const grouped = new Map<string, Transaction[]>();
+    result.rows.forEach((row: any) => {
+      const transaction = this.mapTransactionRow(row);
+      if (!grouped.has(transaction.stockId)) {
+        grouped.set(transaction.stockId, []);
+      }
+      grouped.get(transaction.stockId)!.push(transaction);
+    });
+
+    return grouped;
+  }
+
+  /**
+   * Record a transaction and refresh the stock's derived columns. Pass the
+   * client of an open database transaction to record it as part of that one.
+   */
+  static async recordTransaction(stockId: string, data: TransactionCreateRequest, client?: PoolClient): Promise<Transaction> {
+    try {
+      if (client) {
+        return await this.insertTransaction(stockId, data, client);
+      }
+      return await Database.transaction(async (transactionClient) => this.insertTransaction(stockId, data, transactionClient));
+    } catch (error) {
+      logger.error(`Error recording transaction for stock ${stockId}:`, error);
+      throw new Error('Failed to record transaction');
+    }
+  }
+
+  private static async insertTransaction(stockId: string, data: TransactionCreateRequest, client: PoolClient): Promise<Transaction> {
+    const result = await client.query(`
+      INSERT INTO transactions (
+        stock_id, transaction_type, transaction_date, price, quantity, fees, notes, lot_selections
+      ) VALUES ($1, $2, COALESCE($3::date, CURRENT_DATE), $4, $5, $6, $7, $8)
+      RETURNING ${TRANSACTION_COLUMNS}
+    `, [
+      stockId,
+      data.type,
+      data.transactionDate || null,
+      data.price || 0,
+      data.quantity,
+      data.fees || 0,
+      data.notes || null,
+      data.lotSelections && data.lotSelections.length > 0 ? JSON.stringify(data.lotSelections) : null
+    ]);
+
+    await this.syncStockPosition(stockId, client);
+
+    return this.mapTransactionRow(result.rows[0]);
+  }
+
+  /**
+   * Delete a transaction and refresh the stock's derived columns
+   */
+  static async deleteTransaction(stockId: string, transactionId: string): Promise<boolean> {
+    if (!isUuid(transactionId)) {
+      return false;
+    }
+
+    try {
+      return await Database.transaction(async (client) => {
+        const result = await client.query(
+          'DELETE FROM transactions WHERE id = $1 AND stock_id = $2',
+          [transactionId, stockId]
+        );
+
+        if (result.rowCount === 0) {
+          return false;
+        }
+
+        await this.syncStockPosition(stockId, client);
+        return true;
+      });
+    } catch (error) {
+      logger.error(`Error deleting transaction ${transactionId}:`, error);
+      throw new Error('Failed to delete transaction');
+    }
+  }
+
+  /**
+   * Rewrite the opening BUY of a stock whose ledger holds nothing else.
+   * Returns false when the ledger already has later activity.
+   */
+  static async replaceOpeningBuy(stockId: string, price: number, quantity: number): Promise<boolean> {
+    return await Database.transaction(async (client) => {
+      const transactions = await this.getTransactionsByStock(stockId, client);
+
+      if (transactions.length > 1 || (transactions.length === 1 && transactions[0].type !== 'BUY')) {
+        return false;
+      }
+
+      if (transactions.length === 0) {
+        await client.query(`
+          INSERT INTO transactions (stock_id, transaction_type, price, quantity)
+          VALUES ($1, 'BUY', $2, $3)
+        `, [stockId, price, quantity]);
+      } else {
+        await client.query(`
+          UPDATE transactions SET price = $1, quantity = $2, updated_at = NOW()
+          WHERE id = $3
+        `, [price, quantity, transactions[0].id]);
+      }
+
+      await this.syncStockPosition(stockId, client);
+      return true;
+    });
+  }
+
+  /**
+   * Write the ledger-derived position back to the denormalized stocks columns
+   */
+  static async syncStockPosition(stockId: string, executor: Queryable = Database): Promise<void> {
+    const [transactions, method] = await Promise.all([
+      this.getTransactionsByStock(stockId, executor),
+      LotService.getLotMethodForStock(stockId, executor)
+    ]);
+    const position = this.calculatePosition(transactions, method);
+
+    await executor.query(`
+      UPDATE stocks SET
+        purchase_price = $1,
+        quantity = $2,
+        investment = $3,
+        present_value = current_market_price * $2,
+        gain_loss = current_market_price * $2 - $3,
+        updated_at = NOW()
+      WHERE id = $4
+    `, [position.averageCost, position.quantity, position.investment, stockId]);
+  }
+
+  /**
+   * Derive the open position from a ledger. Quantity is the same under every
+   * lot method; investment is the cost basis of the lots left open, so it
+   * depends on which lots the sells consumed.
+   */
+  static calculatePosition(transactions: Transaction[], method: LotMethod = 'AVERAGE'): Position {
+    const { openLots } = LotService.buildLots(transactions, method);
+    const quantity = openLots.reduce((sum, lot) => sum + lot.remainingQuantity, 0);
+    const investment = openLots.reduce((sum, lot) => sum + lot.costBasis, 0);
+    const ordered = this.sortChronologically(transactions);
+
+    return {
+      quantity,
+      investment,
+      averageCost: quantity > 0 ? investment / quantity : 0,
+      totalFees: transactions.reduce((sum, transaction) => sum + transaction.fees, 0),
+      firstTransactionDate: ordered.length > 0 ? ordered[0].transactionDate : null
+    };
+  }
+
+  /**
+   * Find the first transaction that would take the running quantity below zero
+   */
+  static findShortfall(transactions: Transaction[]): Transaction | null {
+    let quantity = 0;
+
+    for (const transaction of this.sortChronologically(transactions)) {
+      quantity += this.signedQuantity(transaction);
+      if (quantity < 0) {
+        return transaction;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Validate a transaction request, returning an error message if invalid
+   */
+  static validateTransaction(data: Partial<TransactionCreateRequest>): string | null {
+    if (!data || !data.type || !TRANSACTION_TYPES.includes(data.type)) {
+      return `Transaction type must be one of: ${TRANSACTION_TYPES.join(', ')}`;
+    }
+
+    if (!Number.isInteger(data.quantity) || data.quantity === 0) {
+      return 'Quantity must be a non-zero integer';
+    }
+
+    if (data.type !== 'ADJUST' && data.quantity! < 0) {
+      return 'Quantity must be positive for BUY and SELL transactions';
+    }
+
+    if (data.type !== 'ADJUST' && !(data.price > 0)) {
+      return 'Price must be greater than zero for BUY and SELL transactions';
+    }
+
+    if (data.price !== undefined && data.price < 0) {
+      return 'Price cannot be negative';
+    }
+
+    if (data.fees !== undefined && data.fees < 0) {
+      return 'Fees cannot be negative';
+    }
+
+    if (data.transactionDate && isNaN(new Date(data.transactionDate).getTime())) {
+      return 'Transaction date must be a valid date (YYYY-MM-DD)';
+    }
+
+    if (data.lotSelections !== undefined) {
+      if (data.type !== 'SELL' || !Array.isArray(data.lotSelections)) {
+        return 'Lot selections are only accepted as an array on SELL transactions';
+      }
+
+      const invalid = data.lotSelections.some(selection =>
+        !selection || typeof selection.lotId !== 'string' || !Number.isInteger(selection.quantity) || selection.quantity <= 0
+      );
+      if (invalid) {
+        return 'Each lot selection needs a lotId and a positive integer quantity';
+      }
+
+      const selectedQuantity = data.lotSelections.reduce((sum, selection) => sum + selection.quantity, 0);
+      if (selectedQuantity > data.quantity!) {
+        return 'Lot selections cannot exceed the quantity sold';
+      }
+    }
+
+    return null;
+  }
+
+  private static signedQuantity(transaction: Transaction): number {
+    return transaction.type === 'SELL' ? -transaction.quantity : transaction.quantity;
+  }
+
+  private static sortChronologically(transactions: Transaction[]): Transaction[] {
+    return [...transactions].sort((a, b) =>
+      a.transactionDate.localeCompare(b.transactionDate) || a.createdAt.localeCompare(b.createdAt)
+    );
+  }
+
+  private static mapTransactionRow(row: any): Transaction {
+    return {
+      id: row.id,
+      stockId: row.stock_id,
+      type: row.transaction_type,
+      transactionDate: row.transaction_date,
+      price: parseFloat(row.price),
+      quantity: parseInt(row.quantity),
+      fees: parseFloat(row.fees || 0),
+      notes: row.notes || undefined,
+      lotSelections: row.lot_selections || undefined,
+      corporateActionId: row.corporate_action_id || undefined,
+      splitRatio: row.split_ratio ? parseFloat(row.split_ratio) : undefined,
+      createdAt: row.created_at?.toISOString() || new Date().toISOString()
+    };
+  }
+}
+
+export default TransactionService;
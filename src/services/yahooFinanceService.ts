@@ -1,5 +1,7 @@
 import yahooFinance from 'yahoo-finance2';
-import { MarketData } from '../types/stock';
+import { MarketData, PriceBar } from '../types/stock';
+import { MarketDataProvider } from './marketDataProvider';
+import { CassetteReplayError, withCassette } from '../utils/httpCassette';
 import { logger } from '../utils/logger';
 
 interface YahooQuoteResponse {
@@ -17,7 +19,9 @@ interface YahooQuoteResponse {
   marketCap?: number;
 }
 
-class YahooFinanceService {
+class YahooFinanceService implements MarketDataProvider {
+  readonly name = 'yahoo';
+  readonly symbolFormat = 'yahoo';
   private readonly maxRetries = 3;
   private readonly retryDelay = 1000; // 1 second
 
@@ -43,41 +47,6 @@ class YahooFinanceService {
     }
   }
 
-  /**
-   * Fetch historical price from 3-6 months ago
-   */
-  async getHistoricalPrice(symbol: string, monthsAgo: number = 4): Promise<number | null> {
-    try {
-      logger.info(`Fetching historical price for ${symbol} from ${monthsAgo} months ago`);
-      
-      const endDate = new Date();
-      const startDate = new Date();
-      startDate.setMonth(startDate.getMonth() - monthsAgo);
-      
-      // Get historical data
-      const historicalData = await yahooFinance.historical(symbol, {
-        period1: startDate,
-        period2: endDate,
-        interval: '1d'
-      });
-      
-      if (historicalData && historicalData.length > 0) {
-        // Get price from the middle of the period for more realistic purchase price
-        const middleIndex = Math.floor(historicalData.length / 2);
-        const historicalPrice = historicalData[middleIndex].close;
-        
-        logger.info(`Historical price for ${symbol} (${monthsAgo} months ago): $${historicalPrice}`);
-        return historicalPrice;
-      }
-      
-      logger.warn(`No historical data found for ${symbol}`);
-      return null;
-    } catch (error) {
-      logger.error(`Error fetching historical price for ${symbol}:`, error);
-      return null;
-    }
-  }
-
   /**
    * Fetch comprehensive market data including P/E ratio and earnings
    */
@@ -111,6 +80,8 @@ class YahooFinanceService {
         latestEarnings: latestEarnings,
         change: quote.regularMarketChange || undefined,
         changePercent: quote.regularMarketChangePercent || undefined,
+        // Yahoo reports the trailing yield as a fraction
+        dividendYield: quote.trailingAnnualDividendYield !== undefined ? quote.trailingAnnualDividendYield * 100 : undefined,
         lastUpdated: new Date().toISOString(),
         source: 'yahoo'
       };
@@ -171,7 +142,7 @@ class YahooFinanceService {
     try {
       logger.info(`Searching for symbols matching: ${companyName}`);
       
-      const searchResults = await yahooFinance.search(companyName);
+      const searchResults = await withCassette<any>(`yahoo/search_${companyName}`, () => yahooFinance.search(companyName));
       
       if (searchResults && searchResults.quotes) {
         const symbols = searchResults.quotes
@@ -190,16 +161,56 @@ class YahooFinanceService {
     }
   }
 
+  /**
+   * MarketDataProvider implementation
+   */
+  async getQuote(symbol: string): Promise<MarketData | null> {
+    return this.getMarketData(symbol);
+  }
+
+  async getBatchQuotes(symbols: string[]): Promise<Record<string, MarketData | null>> {
+    return this.getBatchMarketData(symbols);
+  }
+
+  /**
+   * Fetch daily price bars between two dates
+   */
+  async getHistory(symbol: string, from: Date, to: Date): Promise<PriceBar[]> {
+    const key = `yahoo/historical_${symbol}_${this.formatDate(from)}_${this.formatDate(to)}`;
+    const rows = await withCassette<any[]>(key, () => yahooFinance.historical(symbol, {
+      period1: from,
+      period2: to,
+      interval: '1d'
+    }));
+
+    return (rows || []).map((row: any) => ({
+      date: this.formatDate(new Date(row.date)),
+      open: row.open,
+      high: row.high,
+      low: row.low,
+      close: row.close,
+      volume: row.volume
+    }));
+  }
+
+  async search(query: string): Promise<string[]> {
+    return this.searchSymbol(query);
+  }
+
+  async isHealthy(): Promise<boolean> {
+    return this.isServiceAvailable();
+  }
+
   /**
    * Get quote with retry mechanism
    */
   private async getQuoteWithRetry(symbol: string, attempt = 1): Promise<YahooQuoteResponse | null> {
     try {
-      const quote = await yahooFinance.quote(symbol);
+      const quote = await withCassette<YahooQuoteResponse>(`yahoo/quote_${symbol}`, () => yahooFinance.quote(symbol));
       
       return quote as YahooQuoteResponse;
     } catch (error) {
-      if (attempt < this.maxRetries) {
+      if (attempt < this.maxRetries && !(error instanceof CassetteReplayError)) {
         logger.warn(`Attempt ${attempt} failed for ${symbol}, retrying in ${this.retryDelay}ms...`);
         await this.delay(this.retryDelay * attempt);
         return this.getQuoteWithRetry(symbol, attempt + 1);
@@ -208,6 +219,10 @@ class YahooFinanceService {
     }
   }
 
+  private formatDate(date: Date): string {
+    return date.toISOString().split('T')[0];
+  }
+
   /**
    * Utility method to add delays
    */
@@ -32,13 +32,22 @@ declare module 'express' {
     query: any;
     body: any;
     headers: any;
+    method: string;
     originalUrl: string;
+    ip: string;
+    on: any;
+    user?: { id: string; email: string };
+    apiKey?: { id: string; scopes: string[]; rateLimit: number };
   }
   export interface Response {
     json: any;
     status: any;
     send: any;
     end: any;
+    setHeader: any;
+    write: any;
+    flushHeaders: any;
+    headersSent: boolean;
   }
   export interface NextFunction {
     (err?: any): void;
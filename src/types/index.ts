@@ -1,6 +1,9 @@
 export interface Stock {
   id?: string;
+  portfolioId?: string;
   stockName: string;
+  symbol?: string;
+  instrumentId?: string;
   purchasePrice: number;
   quantity: number;
   investment: number;
@@ -33,9 +36,12 @@ export interface SectorSummary {
 
 export interface PortfolioSnapshot {
   id?: string;
+  portfolioId?: string;
   totalInvestment: number;
   totalPresentValue: number;
   totalGainLoss: number;
+  snapshotType?: 'INTRADAY' | 'EOD';
+  snapshotDay?: string;
   snapshotDate?: Date;
   createdAt?: Date;
 }
@@ -56,6 +62,8 @@ export interface ApiResponse<T = any> {
 
 export interface StockCreateRequest {
   stockName: string;
+  symbol?: string;
+  instrumentId?: string;
   purchasePrice: number;
   quantity: number;
   stockExchangeCode: string;
@@ -63,10 +71,13 @@ export interface StockCreateRequest {
   peRatio?: number;
   latestEarnings?: number;
   sector: string;
+  portfolioId?: string;
 }
 
 export interface StockUpdateRequest {
   stockName?: string;
+  symbol?: string;
+  instrumentId?: string;
   purchasePrice?: number;
   quantity?: number;
   stockExchangeCode?: string;
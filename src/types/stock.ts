@@ -17,21 +17,31 @@ export interface Stock {
   lastUpdated: string;
   createdAt: string;
   updatedAt: string;
+  previousClose?: number;
+  dayGain?: number;
+  dayGainPercentage?: number;
+  dividendYield?: number;
+  portfolioId?: string;
+  instrumentId?: string;
 }
 
 export interface StockCreateRequest {
   stockName: string;
-  symbol: string;
+  symbol?: string;
+  isin?: string;
   purchasePrice: number;
   quantity: number;
   stockExchangeCode: string;
   sector: string;
   purchaseDate: string;
+  portfolioId?: string;
 }
 
 export interface StockUpdateRequest {
   stockName?: string;
   symbol?: string;
+  isin?: string;
+  instrumentId?: string;
   purchasePrice?: number;
   quantity?: number;
   stockExchangeCode?: string;
@@ -46,17 +56,166 @@ export interface MarketData {
   currentPrice: number;
   change?: number;
   changePercent?: number;
+  dividendYield?: number;
   peRatio?: number;
   latestEarnings?: number;
   lastUpdated: string;
-  source: 'yahoo' | 'google' | 'fallback';
+  source: string;
+}
+
+export interface Instrument {
+  id: string;
+  exchange: string;
+  ticker: string;
+  isin?: string;
+  name: string;
+  sector?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PriceBar {
+  date: string;
+  open?: number;
+  high?: number;
+  low?: number;
+  close: number;
+  volume?: number;
+}
+
+export type MarketPhase = 'PRE_OPEN' | 'OPEN' | 'POST_CLOSE' | 'CLOSED';
+
+// Wall-clock HH:mm times in the exchange's time zone
+export interface TradingSessions {
+  preOpen: string;
+  open: string;
+  close: string;
+  postClose: string;
+}
+
+export interface ExchangeStatus {
+  exchange: string;
+  timeZone: string;
+  localTime: string;
+  phase: MarketPhase;
+  isOpen: boolean;
+  holiday: string | null;
+  nextOpen: string | null;
+  nextClose: string | null;
+}
+
+export interface CalendarDay {
+  date: string;
+  status: 'TRADING' | 'WEEKEND' | 'HOLIDAY';
+  holiday?: string;
+  sessions?: TradingSessions;
+}
+
+export interface ExchangeCalendar {
+  exchange: string;
+  timeZone: string;
+  sessions: TradingSessions;
+  days: CalendarDay[];
+}
+
+export interface PriceSchedulerStatus {
+  isRunning: boolean;
+  isPaused: boolean;
+  isUpdating: boolean;
+  updateInterval: number;
+  closeCaptureDelay: number;
+  openExchanges: string[];
+  lastRun: { at: string; polled: string[]; closing: string[] } | null;
+  nextUpdate: string | null;
+}
+
+export interface PriceTick {
+  symbol: string;
+  price: number;
+  change?: number;
+  changePercent?: number;
+  timestamp: string;
+}
+
+export interface HoldingValuation {
+  stockId: string;
+  portfolioId: string;
+  stockName: string;
+  symbol?: string;
+  exchange: string;
+  quantity: number;
+  investment: number;
+  price: number;
+  previousPrice: number;
+  presentValue: number;
+  gainLoss: number;
+}
+
+export interface PortfolioValuation {
+  totalInvestment: number;
+  totalPresentValue: number;
+  totalGainLoss: number;
+  gainLossPercentage: number;
+  holdings: number;
+  timestamp: string;
 }
 
 export interface Portfolio {
   totalInvestment: number;
   totalPresentValue: number;
   totalGainLoss: number;
+  dayGain: number;
+  dayGainPercentage: number;
   stocks: Stock[];
+  byPortfolio?: PortfolioTotals[];
+}
+
+export type PortfolioRole = 'OWNER' | 'EDITOR' | 'VIEWER';
+
+export interface PortfolioAccount {
+  id: string;
+  name: string;
+  description?: string;
+  lotMethod: LotMethod;
+  role: PortfolioRole;
+  holdingCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PortfolioCreateRequest {
+  name: string;
+  description?: string;
+  lotMethod?: LotMethod;
+}
+
+export interface PortfolioUpdateRequest {
+  name?: string;
+  description?: string;
+}
+
+export interface PortfolioMember {
+  userId: string;
+  email: string;
+  name?: string;
+  role: PortfolioRole;
+  addedAt: string;
+}
+
+export interface PortfolioMemberRequest {
+  email: string;
+  role: Exclude<PortfolioRole, 'OWNER'>;
+}
+
+export interface PortfolioTotals {
+  portfolioId: string;
+  name: string;
+  holdingCount: number;
+  totalInvestment: number;
+  totalPresentValue: number;
+  totalGainLoss: number;
+  dayGain: number;
+  dayGainPercentage: number;
 }
 
 export interface SectorSummary {
@@ -67,11 +226,17 @@ export interface SectorSummary {
   stocks: Stock[];
   stockCount: number;
   gainLossPercentage: number;
+  dayGain: number;
+  dayGainPercentage: number;
 }
 
 export interface PortfolioMetrics {
   totalReturn: number;
   totalReturnPercentage: number;
+  realizedGainLoss: number;
+  unrealizedGainLoss: number;
+  unrealizedGainLossPercentage: number;
+  dividendIncome: number;
   dayGain: number;
   dayGainPercentage: number;
   bestPerformer: {
@@ -90,3 +255,443 @@ export interface PortfolioMetrics {
   averagePE: number;
   totalDividendYield: number;
 }
+
+export type TransactionType = 'BUY' | 'SELL' | 'ADJUST';
+
+export type LotMethod = 'FIFO' | 'LIFO' | 'SPECIFIC_ID' | 'AVERAGE';
+
+// Reports spanning portfolios with different lot methods are labelled MIXED
+export type ReportLotMethod = LotMethod | 'MIXED';
+
+export interface LotSelection {
+  lotId: string;
+  quantity: number;
+}
+
+export interface Transaction {
+  id: string;
+  stockId: string;
+  type: TransactionType;
+  transactionDate: string;
+  price: number;
+  quantity: number;
+  fees: number;
+  notes?: string;
+  lotSelections?: LotSelection[];
+  corporateActionId?: string;
+  splitRatio?: number;
+  createdAt: string;
+}
+
+export interface TransactionCreateRequest {
+  type: TransactionType;
+  transactionDate?: string;
+  price: number;
+  quantity: number;
+  fees?: number;
+  notes?: string;
+  lotSelections?: LotSelection[];
+}
+
+export interface Position {
+  quantity: number;
+  investment: number;
+  averageCost: number;
+  totalFees: number;
+  firstTransactionDate: string | null;
+}
+
+export interface TaxLot {
+  lotId: string;
+  stockId: string;
+  acquiredDate: string;
+  originalQuantity: number;
+  remainingQuantity: number;
+  costPerShare: number;
+  costBasis: number;
+}
+
+export interface LotMatch {
+  lotId: string;
+  stockId: string;
+  disposalTransactionId: string;
+  disposalType: 'SELL' | 'ADJUST';
+  acquiredDate: string;
+  disposedDate: string;
+  quantity: number;
+  costPerShare: number;
+  costBasis: number;
+  proceeds: number;
+  gainLoss: number;
+}
+
+export interface LotLedger {
+  method: LotMethod;
+  openLots: TaxLot[];
+  matches: LotMatch[];
+}
+
+export interface OpenLotView extends TaxLot {
+  stockName: string;
+  symbol: string;
+  sector: string;
+  currentMarketPrice: number;
+  marketValue: number;
+  unrealizedGainLoss: number;
+  unrealizedGainLossPercentage: number;
+  holdingPeriodDays: number;
+}
+
+export interface RealizedGainTotals {
+  quantity: number;
+  proceeds: number;
+  costBasis: number;
+  gainLoss: number;
+  gainLossPercentage: number;
+}
+
+export interface RealizedGainByStock extends RealizedGainTotals {
+  stockId: string;
+  stockName: string;
+  symbol: string;
+  sector: string;
+  stockExchangeCode: string;
+  matches: LotMatch[];
+}
+
+export interface RealizedGainBySector extends RealizedGainTotals {
+  sector: string;
+  stockCount: number;
+}
+
+export interface RealizedGainReport {
+  method: ReportLotMethod;
+  from: string | null;
+  to: string | null;
+  totals: RealizedGainTotals;
+  byStock: RealizedGainByStock[];
+  bySector: RealizedGainBySector[];
+}
+
+export type CapitalGainTerm = 'SHORT_TERM' | 'LONG_TERM';
+
+export interface CapitalGainEntry {
+  financialYear: string;
+  stockId: string;
+  stockName: string;
+  symbol: string;
+  stockExchangeCode: string;
+  lotId: string;
+  quantity: number;
+  acquiredDate: string;
+  disposedDate: string;
+  holdingPeriodDays: number;
+  term: CapitalGainTerm;
+  saleValue: number;
+  actualCost: number;
+  fairMarketValue31Jan2018: number | null;
+  grandfathered: boolean;
+  costOfAcquisition: number;
+  gainLoss: number;
+  taxRate: number;
+}
+
+export interface CapitalGainBucket {
+  saleValue: number;
+  costOfAcquisition: number;
+  gainLoss: number;
+}
+
+export interface FinancialYearSchedule {
+  financialYear: string;
+  assessmentYear: string;
+  shortTerm: CapitalGainBucket;
+  longTerm: CapitalGainBucket & {
+    actualCost: number;
+    exemptionLimit: number;
+    exemptionUsed: number;
+    taxableGain: number;
+  };
+  shortTermLossSetOff: number;
+  longTermLossCarriedForward: number;
+  shortTermLossCarriedForward: number;
+  estimatedTax: {
+    shortTerm: number;
+    longTerm: number;
+    total: number;
+  };
+  entries: CapitalGainEntry[];
+}
+
+export interface CapitalGainsTaxReport {
+  lotMethod: LotMethod;
+  generatedAt: string;
+  schedules: FinancialYearSchedule[];
+  excludedStocks: Array<{ stockId: string; stockName: string; stockExchangeCode: string }>;
+  missingGrandfatheringPrices: Array<{ stockId: string; stockName: string }>;
+}
+
+export type HistoryInterval = 'day' | 'week' | 'month';
+
+export interface PortfolioHistoryPoint {
+  periodStart: string;
+  asOf: string;
+  totalInvestment: number;
+  totalPresentValue: number;
+  totalGainLoss: number;
+  gainLossPercentage: number;
+}
+
+export interface PortfolioHistory {
+  interval: HistoryInterval;
+  from: string | null;
+  to: string | null;
+  points: PortfolioHistoryPoint[];
+  change: number;
+  changePercentage: number;
+}
+
+export type PerformancePeriod = '1M' | '3M' | 'YTD' | '1Y' | 'SINCE_INCEPTION';
+
+export interface ReturnMetrics {
+  startValue: number;
+  endValue: number;
+  netInflows: number;
+  gainLoss: number;
+  timeWeightedReturn: number | null;
+  timeWeightedReturnAnnualized: number | null;
+  moneyWeightedReturn: number | null;
+}
+
+export interface PeriodPerformance {
+  period: PerformancePeriod;
+  from: string;
+  to: string;
+  portfolio: ReturnMetrics;
+  sectors: Array<ReturnMetrics & { sector: string }>;
+  stocks: Array<ReturnMetrics & { stockId: string; stockName: string; symbol: string; sector: string }>;
+}
+
+export interface PortfolioPerformance {
+  asOf: string;
+  inceptionDate: string | null;
+  periods: PeriodPerformance[];
+}
+
+export interface Dividend {
+  id: string;
+  stockId: string;
+  exDate: string;
+  payDate: string | null;
+  amountPerShare: number;
+  notes?: string;
+  createdAt: string;
+}
+
+export interface DividendCreateRequest {
+  exDate: string;
+  payDate?: string;
+  amountPerShare: number;
+  notes?: string;
+}
+
+export interface DividendPayment extends Dividend {
+  eligibleQuantity: number;
+  amount: number;
+  status: 'PAID' | 'PENDING';
+}
+
+export interface HoldingDividendSummary {
+  stockId: string;
+  stockName: string;
+  symbol: string;
+  sector: string;
+  quantity: number;
+  receivedIncome: number;
+  pendingIncome: number;
+  annualDividendPerShare: number;
+  forwardAnnualIncome: number;
+  forwardYield: number;
+  yieldSource: 'RECORDED' | 'MARKET' | 'NONE';
+  payments: DividendPayment[];
+}
+
+export interface DividendReport {
+  totals: {
+    receivedIncome: number;
+    pendingIncome: number;
+    forwardAnnualIncome: number;
+    forwardYield: number;
+  };
+  holdings: HoldingDividendSummary[];
+}
+
+export type CorporateActionType = 'SPLIT' | 'BONUS' | 'CONSOLIDATION' | 'SYMBOL_CHANGE';
+
+export interface CorporateAction {
+  id: string;
+  stockId: string;
+  type: CorporateActionType;
+  exDate: string;
+  ratioFrom: number;
+  ratioTo: number;
+  previousStockName?: string;
+  newStockName?: string;
+  previousSymbol?: string;
+  newSymbol?: string;
+  notes?: string;
+  appliedAt: string;
+}
+
+export interface CorporateActionRequest {
+  stockId: string;
+  type: CorporateActionType;
+  exDate: string;
+  ratioFrom?: number;
+  ratioTo?: number;
+  newStockName?: string;
+  newSymbol?: string;
+  notes?: string;
+}
+
+export interface CorporateActionPreview {
+  stockId: string;
+  stockName: string;
+  type: CorporateActionType;
+  exDate: string;
+  quantityBefore: number;
+  quantityAfter: number;
+  shareDelta: number;
+  fractionalShares: number;
+  conflict: string | null;
+  rename: { from: string; to: string } | null;
+  symbolChange: { from: string | null; to: string } | null;
+  position: {
+    before: Position;
+    after: Position;
+  };
+  lots: {
+    before: TaxLot[];
+    after: TaxLot[];
+  };
+}
+
+export interface User {
+  id: string;
+  email: string;
+  name?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface RegisterRequest {
+  email: string;
+  password: string;
+  name?: string;
+}
+
+export interface LoginRequest {
+  email: string;
+  password: string;
+}
+
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+  tokenType: 'Bearer';
+  expiresIn: number;
+}
+
+export interface AuthSession {
+  user: User;
+  tokens: AuthTokens;
+}
+
+export type ApiKeyScope = 'read:portfolio' | 'write:stocks' | 'admin:cache' | 'admin:scheduler' | 'admin:corporate-actions';
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: ApiKeyScope[];
+  rateLimit: number;
+  lastUsedAt?: string;
+  revokedAt?: string;
+  createdAt: string;
+}
+
+export interface ApiKeyCreateRequest {
+  name: string;
+  scopes: ApiKeyScope[];
+  rateLimit?: number;
+}
+
+export interface ApiKeyCreated {
+  apiKey: ApiKey;
+  key: string;
+}
+
+// PRICE compares the price, DAY_CHANGE the day's % move and GAIN_LOSS the % gain or loss on cost basis
+export type AlertType = 'PRICE' | 'DAY_CHANGE' | 'GAIN_LOSS';
+
+export type AlertDirection = 'ABOVE' | 'BELOW';
+
+export interface PriceAlert {
+  id: string;
+  stockId: string;
+  stockName: string;
+  symbol?: string;
+  exchange: string;
+  type: AlertType;
+  direction: AlertDirection;
+  threshold: number;
+  recurring: boolean;
+  cooldownMinutes: number;
+  active: boolean;
+  note?: string;
+  triggerCount: number;
+  lastTriggeredAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PriceAlertCreateRequest {
+  stockId: string;
+  type: AlertType;
+  direction: AlertDirection;
+  threshold: number;
+  recurring?: boolean;
+  cooldownMinutes?: number;
+  note?: string;
+}
+
+export interface PriceAlertUpdateRequest {
+  type?: AlertType;
+  direction?: AlertDirection;
+  threshold?: number;
+  recurring?: boolean;
+  cooldownMinutes?: number;
+  active?: boolean;
+  note?: string;
+}
+
+export interface AlertTrigger {
+  id: string;
+  alertId: string;
+  stockId: string;
+  stockName: string;
+  type: AlertType;
+  direction: AlertDirection;
+  threshold: number;
+  value: number;
+  price: number;
+  message: string;
+  triggeredAt: string;
+}
+
+export interface AlertReading {
+  stockId: string;
+  price: number;
+  changePercent?: number;
+  gainLossPercent?: number;
+}
@@ -0,0 +1,98 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { logger } from './logger';
+
+/**
+ * Record/replay layer for upstream market data calls (Google Finance pages,
+ * Yahoo Finance API responses), so the parsing code can be exercised against
+ * saved responses. Controlled by HTTP_CASSETTE_MODE:
+ * - off (default): call upstream as normal
+ * - record: call upstream and save each response (or failure) to disk
+ * - replay: serve saved responses and never call upstream
+ *
+ * Cassettes are JSON files under HTTP_CASSETTE_DIR, one per request key.
+ */
+export type CassetteMode = 'off' | 'record' | 'replay';
+
+interface Cassette {
+  key: string;
+  recordedAt: string;
+  response?: any;
+  error?: string;
+}
+
+const DEFAULT_CASSETTE_DIR = 'fixtures/cassettes';
+
+/**
+ * Thrown in replay mode for a request with no cassette and for a recorded
+ * failure. Retrying cannot change the outcome, so callers should not retry.
+ */
+export class CassetteReplayError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CassetteReplayError';
+  }
+}
+
+export function getCassetteMode(): CassetteMode {
+  const mode = (process.env.HTTP_CASSETTE_MODE || 'off').toLowerCase();
+  return mode === 'record' || mode === 'replay' ? mode : 'off';
+}
+
+/**
+ * Run an upstream request through the cassette layer. The key identifies
+ * the request ("google/RELIANCE_NSE"); the response must be plain JSON data,
+ * so map library response objects to what the caller needs first.
+ */
+export async function withCassette<T>(key: string, request: () => Promise<T>): Promise<T> {
+  const mode = getCassetteMode();
+  if (mode === 'off') {
+    return request();
+  }
+
+  const file = cassettePath(key);
+
+  if (mode === 'replay') {
+    if (!fs.existsSync(file)) {
+      throw new CassetteReplayError(`No cassette recorded for ${key}`);
+    }
+
+    const cassette: Cassette = JSON.parse(fs.readFileSync(file, 'utf8'));
+    if (cassette.error !== undefined) {
+      throw new CassetteReplayError(cassette.error);
+    }
+    return cassette.response;
+  }
+
+  try {
+    const response = await request();
+    writeCassette(file, { key, recordedAt: new Date().toISOString(), response });
+    return response;
+  } catch (error) {
+    writeCassette(file, {
+      key,
+      recordedAt: new Date().toISOString(),
+      error: error instanceof Error ? error.message : String(error)
+    });
+    throw error;
+  }
+}
+
+function writeCassette(file: string, cassette: Cassette): void {
+  try {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(cassette, null, 2) + '\n');
+    logger.debug(`Recorded cassette ${file}`);
+  } catch (error) {
+    logger.error(`Error recording cassette ${file}:`, error);
+  }
+}
+
+/**
+ * Keys map to files by their path segments, with anything unsafe in a file
+ * name (including "." and ".." segments) replaced by underscores
+ */
+function cassettePath(key: string): string {
+  const segments = key.split('/').map(segment => segment.replace(/[^A-Za-z0-9._-]+/g, '_').replace(/^\.+$/, '_'));
+  return path.join(path.resolve(process.env.HTTP_CASSETTE_DIR || DEFAULT_CASSETTE_DIR), ...segments) + '.json';
+}
@@ -0,0 +1,64 @@
+/**
+ * Size-bounded map that evicts the least recently used entry once full.
+ * Reads through get() count as use; peek() and iteration do not.
+ */
+export class LruCache<V> {
+  private entries = new Map<string, V>();
+  private evictionCount = 0;
+
+  constructor(readonly maxEntries: number) {
+    if (!Number.isInteger(maxEntries) || maxEntries < 1) {
+      throw new Error(`LRU cache size must be a positive integer, got ${maxEntries}`);
+    }
+  }
+
+  get(key: string): V | undefined {
+    const value = this.entries.get(key);
+    if (value !== undefined) {
+      // Map iterates in insertion order, so re-inserting marks the entry most recent
+      this.entries.delete(key);
+      this.entries.set(key, value);
+    }
+    return value;
+  }
+
+  peek(key: string): V | undefined {
+    return this.entries.get(key);
+  }
+
+  set(key: string, value: V): void {
+    this.entries.delete(key);
+    this.entries.set(key, value);
+
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value);
+      this.evictionCount++;
+    }
+  }
+
+  delete(key: string): boolean {
+    return this.entries.delete(key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  /**
+   * Entries from least to most recently used
+   */
+  entriesByAge(): Array<[string, V]> {
+    return Array.from(this.entries.entries());
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Entries dropped to stay within maxEntries since the cache was created
+   */
+  get evictions(): number {
+    return this.evictionCount;
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * Conversions between canonical instrument IDs and the symbol formats each
+ * market data provider expects. The canonical ID is the exchange code and
+ * bare ticker ("NSE:RELIANCE"), matching stocks.stock_exchange_code and
+ * stocks.symbol; providers want e.g. RELIANCE.NS (Yahoo) or RELIANCE:NSE
+ * (Google).
+ */
+export type SymbolFormat = 'yahoo' | 'google' | 'ticker';
+
+export interface InstrumentId {
+  exchange: string;
+  ticker: string;
+}
+
+interface ExchangeSymbols {
+  yahooSuffix: string;
+  googleCode: string;
+  currency: string;
+}
+
+// Exchanges not listed here use bare tickers on Yahoo, their own code on Google and USD
+const EXCHANGES: Record<string, ExchangeSymbols> = {
+  NSE: { yahooSuffix: '.NS', googleCode: 'NSE', currency: '₹' },
+  BSE: { yahooSuffix: '.BO', googleCode: 'BOM', currency: '₹' },
+  NASDAQ: { yahooSuffix: '', googleCode: 'NASDAQ', currency: '$' },
+  NYSE: { yahooSuffix: '', googleCode: 'NYSE', currency: '$' }
+};
+
+const DEFAULT_CURRENCY = '$';
+
+/**
+ * Parse a symbol in any supported format: canonical (NSE:RELIANCE), Google
+ * (RELIANCE:NSE, RELIANCE:BOM), Yahoo (RELIANCE.NS) or a bare ticker, which
+ * is taken to be listed on the given exchange
+ */
+export function parseSymbol(symbol: string, exchange = 'NSE'): InstrumentId {
+  const value = symbol.trim().toUpperCase();
+
+  const separator = value.indexOf(':');
+  if (separator > 0) {
+    const left = value.slice(0, separator);
+    const right = value.slice(separator + 1);
+    const rightExchange = exchangeForCode(right);
+    return !exchangeForCode(left) && rightExchange
+      ? { exchange: rightExchange, ticker: left }
+      : { exchange: exchangeForCode(left) || left, ticker: right };
+  }
+
+  for (const [code, symbols] of Object.entries(EXCHANGES)) {
+    if (symbols.yahooSuffix && value.endsWith(symbols.yahooSuffix)) {
+      return { exchange: code, ticker: value.slice(0, -symbols.yahooSuffix.length) };
+    }
+  }
+
+  return { exchange: exchange.trim().toUpperCase(), ticker: value };
+}
+
+/**
+ * The canonical ID for an instrument: NSE:RELIANCE
+ */
+export function toCanonicalSymbol(id: InstrumentId): string {
+  return `${id.exchange.toUpperCase()}:${id.ticker.toUpperCase()}`;
+}
+
+/**
+ * The symbol a provider expects for an instrument
+ */
+export function toProviderSymbol(id: InstrumentId, format: SymbolFormat): string {
+  const exchange = id.exchange.toUpperCase();
+  const ticker = id.ticker.toUpperCase();
+  const symbols = EXCHANGES[exchange];
+
+  switch (format) {
+    case 'yahoo':
+      return ticker + (symbols ? symbols.yahooSuffix : '');
+    case 'google':
+      return `${ticker}:${symbols ? symbols.googleCode : exchange}`;
+    default:
+      return ticker;
+  }
+}
+
+/**
+ * Currency symbol prices on an exchange are quoted in
+ */
+export function currencyForExchange(exchange: string): string {
+  const symbols = EXCHANGES[exchange.toUpperCase()];
+  return symbols ? symbols.currency : DEFAULT_CURRENCY;
+}
+
+/**
+ * Our exchange code for an exchange or Google exchange code (BOM -> BSE)
+ */
+function exchangeForCode(code: string): string | null {
+  if (EXCHANGES[code]) {
+    return code;
+  }
+
+  const match = Object.entries(EXCHANGES).find(([, symbols]) => symbols.googleCode === code);
+  return match ? match[0] : null;
+}
@@ -0,0 +1,10 @@
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Whether a value is a UUID. Ids taken from a URL or body are checked with
+ * this before they reach a uuid column, where Postgres would reject the
+ * whole query instead of matching nothing.
+ */
+export function isUuid(value: unknown): boolean {
+  return typeof value === 'string' && UUID_PATTERN.test(value);
+}
@@ -0,0 +1,286 @@
+import { createHash } from 'crypto';
+import { EventEmitter } from 'events';
+import { IncomingMessage } from 'http';
+import { Duplex } from 'stream';
+
+// Fixed GUID from RFC 6455 used to derive Sec-WebSocket-Accept
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const MAX_MESSAGE_BYTES = 64 * 1024;
+
+const OPCODE_CONTINUATION = 0x0;
+const OPCODE_TEXT = 0x1;
+const OPCODE_BINARY = 0x2;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+export const CLOSE_NORMAL = 1000;
+export const CLOSE_GOING_AWAY = 1001;
+export const CLOSE_PROTOCOL_ERROR = 1002;
+export const CLOSE_UNSUPPORTED_DATA = 1003;
+export const CLOSE_MESSAGE_TOO_BIG = 1009;
+
+interface Frame {
+  fin: boolean;
+  opcode: number;
+  payload: Buffer;
+  length: number;
+}
+
+/**
+ * A malformed or oversized frame, closed with the given code
+ */
+class FrameError extends Error {
+  constructor(readonly code: number, message: string) {
+    super(message);
+  }
+}
+
+/**
+ * Answer an HTTP upgrade request that will not become a WebSocket
+ */
+export function rejectUpgrade(socket: Duplex, status: number, message: string): void {
+  socket.end(
+    `HTTP/1.1 ${status} ${message}\r\n` +
+    'Connection: close\r\n' +
+    'Content-Type: text/plain\r\n' +
+    `Content-Length: ${Buffer.byteLength(message)}\r\n\r\n` +
+    message
+  );
+}
+
+/**
+ * Complete the WebSocket handshake for an HTTP upgrade request. Responds
+ * 400 and returns null if the request is not a version 13 WebSocket upgrade.
+ */
+export function acceptWebSocket(req: IncomingMessage, socket: Duplex, head?: Buffer): WebSocketConnection | null {
+  const key = req.headers['sec-websocket-key'];
+  const upgrade = (req.headers.upgrade || '').toLowerCase();
+
+  if (upgrade !== 'websocket' || typeof key !== 'string' || req.headers['sec-websocket-version'] !== '13') {
+    rejectUpgrade(socket, 400, 'Bad Request');
+    return null;
+  }
+
+  const accept = createHash('sha1').update(key + HANDSHAKE_GUID).digest('base64');
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\n' +
+    'Upgrade: websocket\r\n' +
+    'Connection: Upgrade\r\n' +
+    `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+
+  const connection = new WebSocketConnection(socket);
+  if (head && head.length > 0) {
+    connection.receive(head);
+  }
+  return connection;
+}
+
+/**
+ * The server side of a WebSocket (RFC 6455) carrying text messages.
+ * Emits 'message' with each complete text message, 'pong' when the
+ * client answers a ping, and 'close' once when the connection ends.
+ * Binary messages are refused.
+ */
+export class WebSocketConnection extends EventEmitter {
+  private buffer = Buffer.alloc(0);
+  private fragments: Buffer[] = [];
+  private fragmentBytes = 0;
+  private closing = false;
+  private closed = false;
+
+  constructor(private socket: Duplex) {
+    super();
+    socket.on('data', (chunk: Buffer) => this.receive(chunk));
+    // HTTP server sockets allow half-open connections; a client that hangs up is done
+    socket.on('end', () => socket.end());
+    socket.on('close', () => this.finish());
+    socket.on('error', () => socket.destroy());
+  }
+
+  get isOpen(): boolean {
+    return !this.closing && !this.closed;
+  }
+
+  send(text: string): void {
+    if (this.isOpen) {
+      this.socket.write(this.encodeFrame(OPCODE_TEXT, Buffer.from(text, 'utf8')));
+    }
+  }
+
+  ping(): void {
+    if (this.isOpen) {
+      this.socket.write(this.encodeFrame(OPCODE_PING, Buffer.alloc(0)));
+    }
+  }
+
+  /**
+   * Start the closing handshake; the socket ends once the close frame is written
+   */
+  close(code: number = CLOSE_NORMAL, reason = ''): void {
+    if (!this.isOpen) {
+      return;
+    }
+
+    this.closing = true;
+    const reasonBytes = Buffer.from(reason, 'utf8');
+    const payload = Buffer.alloc(2 + reasonBytes.length);
+    payload.writeUInt16BE(code, 0);
+    reasonBytes.copy(payload, 2);
+    this.socket.end(this.encodeFrame(OPCODE_CLOSE, payload));
+  }
+
+  /**
+   * Drop the connection without a closing handshake, e.g. when the client stopped answering pings
+   */
+  terminate(): void {
+    this.socket.destroy();
+    this.finish();
+  }
+
+  receive(chunk: Buffer): void {
+    this.buffer = this.buffer.length > 0 ? Buffer.concat([this.buffer, chunk]) : chunk;
+
+    while (this.isOpen) {
+      let frame: Frame | null;
+      try {
+        frame = this.parseFrame(this.buffer);
+      } catch (error) {
+        this.close(error instanceof FrameError ? error.code : CLOSE_PROTOCOL_ERROR, error instanceof Error ? error.message : '');
+        return;
+      }
+      if (!frame) {
+        return;
+      }
+
+      this.buffer = this.buffer.subarray(frame.length);
+      this.handleFrame(frame);
+    }
+  }
+
+  private handleFrame(frame: Frame): void {
+    switch (frame.opcode) {
+      case OPCODE_TEXT:
+      case OPCODE_CONTINUATION:
+        if ((frame.opcode === OPCODE_TEXT) !== (this.fragments.length === 0)) {
+          this.close(CLOSE_PROTOCOL_ERROR, 'Unexpected continuation frame');
+          return;
+        }
+        this.fragmentBytes += frame.payload.length;
+        if (this.fragmentBytes > MAX_MESSAGE_BYTES) {
+          this.close(CLOSE_MESSAGE_TOO_BIG, 'Message too big');
+          return;
+        }
+        this.fragments.push(frame.payload);
+        if (frame.fin) {
+          const message = Buffer.concat(this.fragments).toString('utf8');
+          this.fragments = [];
+          this.fragmentBytes = 0;
+          this.emit('message', message);
+        }
+        return;
+      case OPCODE_BINARY:
+        this.close(CLOSE_UNSUPPORTED_DATA, 'Only text messages are supported');
+        return;
+      case OPCODE_CLOSE:
+        // Echo the client's close code and end the connection
+        if (this.isOpen) {
+          this.closing = true;
+          this.socket.end(this.encodeFrame(OPCODE_CLOSE, frame.payload.subarray(0, 2)));
+        }
+        return;
+      case OPCODE_PING:
+        if (this.isOpen) {
+          this.socket.write(this.encodeFrame(OPCODE_PONG, frame.payload));
+        }
+        return;
+      case OPCODE_PONG:
+        this.emit('pong');
+        return;
+      default:
+        this.close(CLOSE_PROTOCOL_ERROR, `Unknown opcode ${frame.opcode}`);
+    }
+  }
+
+  /**
+   * The first complete frame in the buffer, or null until one has arrived
+   */
+  private parseFrame(buffer: Buffer): Frame | null {
+    if (buffer.length < 2) {
+      return null;
+    }
+
+    const fin = (buffer[0] & 0x80) !== 0;
+    const opcode = buffer[0] & 0x0f;
+    const masked = (buffer[1] & 0x80) !== 0;
+    let payloadLength = buffer[1] & 0x7f;
+    let offset = 2;
+
+    if (!masked) {
+      throw new FrameError(CLOSE_PROTOCOL_ERROR, 'Client frames must be masked');
+    }
+
+    if (payloadLength === 126) {
+      if (buffer.length < 4) {
+        return null;
+      }
+      payloadLength = buffer.readUInt16BE(2);
+      offset = 4;
+    } else if (payloadLength === 127) {
+      if (buffer.length < 10) {
+        return null;
+      }
+      const length = buffer.readBigUInt64BE(2);
+      if (length > BigInt(MAX_MESSAGE_BYTES)) {
+        throw new FrameError(CLOSE_MESSAGE_TOO_BIG, 'Message too big');
+      }
+      payloadLength = Number(length);
+      offset = 10;
+    }
+
+    if (payloadLength > MAX_MESSAGE_BYTES) {
+      throw new FrameError(CLOSE_MESSAGE_TOO_BIG, 'Message too big');
+    }
+    if (buffer.length < offset + 4 + payloadLength) {
+      return null;
+    }
+
+    const mask = buffer.subarray(offset, offset + 4);
+    const payload = Buffer.from(buffer.subarray(offset + 4, offset + 4 + payloadLength));
+    for (let i = 0; i < payload.length; i++) {
+      payload[i] ^= mask[i % 4];
+    }
+
+    return { fin, opcode, payload, length: offset + 4 + payloadLength };
+  }
+
+  /**
+   * Server frames are sent unfragmented and unmasked
+   */
+  private encodeFrame(opcode: number, payload: Buffer): Buffer {
+    let header: Buffer;
+    if (payload.length < 126) {
+      header = Buffer.alloc(2);
+      header[1] = payload.length;
+    } else if (payload.length < 65536) {
+      header = Buffer.alloc(4);
+      header[1] = 126;
+      header.writeUInt16BE(payload.length, 2);
+    } else {
+      header = Buffer.alloc(10);
+      header[1] = 127;
+      header.writeBigUInt64BE(BigInt(payload.length), 2);
+    }
+
+    header[0] = 0x80 | opcode;
+    return Buffer.concat([header, payload]);
+  }
+
+  private finish(): void {
+    if (!this.closed) {
+      this.closed = true;
+      this.emit('close');
+    }
+  }
+}